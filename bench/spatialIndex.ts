@@ -0,0 +1,110 @@
+// bench/spatialIndex.ts
+//
+// Compares finding shapes by scanning the whole scene with the spatial index, on generated scenes
+// of pen strokes. The scan checks each shape's bounds before its outline, so the numbers show what
+// the index adds over that rather than over testing every outline. Run with `npm run bench`.
+import type { Bounds, PathPoint, Shape } from '../src/types/Shapes';
+import { containsBounds, getShapeBounds, growBounds, intersectsBounds, moveShape } from '../src/utils/geometry';
+import { isPointInShape } from '../src/utils/hitTest';
+import { getShapeStyle } from '../src/utils/style';
+import { createSpatialIndex } from '../src/utils/spatialIndex';
+
+type Point = { x: number; y: number };
+
+const SCENE_SIZES = [1000, 2000, 5000];
+const POINTS_PER_STROKE = 40;
+const HOVER_SAMPLES = 1000;
+const MARQUEE_SAMPLES = 200;
+const TOLERANCE = 8;
+const VIEW = { width: 1920, height: 1080 };
+
+// Same numbers on every run so results can be compared between changes
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+// Strokes scattered over a square that grows with the scene, so density stays about the same
+const createScene = (count: number, random: () => number): { shapes: Shape[]; size: number } => {
+  const size = Math.sqrt(count) * 300;
+  const shapes = Array.from({ length: count }, (_, index): Shape => {
+    let point = { x: random() * size, y: random() * size };
+    const path: PathPoint[] = Array.from({ length: POINTS_PER_STROKE }, () => {
+      point = { x: point.x + (random() - 0.5) * 20, y: point.y + (random() - 0.5) * 20 };
+      return { ...point, pressure: 0.5 };
+    });
+    return { id: `stroke-${index}`, type: 'pen', x: path[0].x, y: path[0].y, path, strokeWidth: 2 };
+  });
+  return { shapes, size };
+};
+
+// Average milliseconds per call
+const time = (run: (index: number) => void, repeat: number) => {
+  const start = performance.now();
+  for (let i = 0; i < repeat; i++) run(i);
+  return (performance.now() - start) / repeat;
+};
+
+const format = (ms: number) => `${ms < 0.01 ? (ms * 1000).toFixed(1) + ' µs' : ms.toFixed(3) + ' ms'}`.padStart(11);
+
+const report = (label: string, scan: number, indexed: number) =>
+  console.log(`  ${label.padEnd(22)}${format(scan)}${format(indexed)}   ${(scan / indexed).toFixed(1).padStart(6)}x`);
+
+SCENE_SIZES.forEach((count) => {
+  const random = createRandom(count);
+  const { shapes, size } = createScene(count, random);
+  const points: Point[] = Array.from({ length: HOVER_SAMPLES }, () => ({ x: random() * size, y: random() * size }));
+  const boxes: Bounds[] = Array.from({ length: MARQUEE_SAMPLES }, () => {
+    const minX = random() * size;
+    const minY = random() * size;
+    return { minX, minY, maxX: minX + 800, maxY: minY + 600 };
+  });
+
+  // Bounds are cached per shape, so fill the cache first to time the searches rather than the bounds
+  shapes.forEach(getShapeBounds);
+
+  const buildTime = time(() => createSpatialIndex().sync(shapes), 5);
+  const index = createSpatialIndex();
+  index.sync(shapes);
+
+  // Only shapes whose bounds, with room for the stroke and tolerance, reach the point get the full test
+  const scanAt = (point: Point) => {
+    const box = { minX: point.x, minY: point.y, maxX: point.x, maxY: point.y };
+    for (let i = shapes.length - 1; i >= 0; i--) {
+      const bounds = growBounds(getShapeBounds(shapes[i]), getShapeStyle(shapes[i]).strokeWidth + TOLERANCE);
+      if (intersectsBounds(bounds, box) && isPointInShape(shapes[i], point, TOLERANCE)) return shapes[i];
+    }
+    return undefined;
+  };
+  const findAt = (point: Point) =>
+    index.getShapesAt(point, TOLERANCE).find((shape) => isPointInShape(shape, point, TOLERANCE));
+
+  const mismatches = points.filter((point) => scanAt(point) !== findAt(point)).length;
+  if (mismatches > 0) console.warn(`  ${mismatches} hover results differ between scanning and the index`);
+
+  console.log(`\n${count} pen strokes on a ${Math.round(size)}x${Math.round(size)} scene`);
+  console.log(`  ${''.padEnd(22)}${'scan'.padStart(11)}${'index'.padStart(11)}   speedup`);
+  report('hover hit-test', time((i) => scanAt(points[i % points.length]), HOVER_SAMPLES), time((i) => findAt(points[i % points.length]), HOVER_SAMPLES));
+  report(
+    'marquee selection',
+    time((i) => shapes.filter((shape) => containsBounds(boxes[i], getShapeBounds(shape))), MARQUEE_SAMPLES),
+    time((i) => index.getShapesIn(boxes[i]).filter((shape) => containsBounds(boxes[i], getShapeBounds(shape))), MARQUEE_SAMPLES)
+  );
+
+  // Culling: how much of the scene a full-screen view at 100% actually needs to draw
+  const view = { minX: size / 2, minY: size / 2, maxX: size / 2 + VIEW.width, maxY: size / 2 + VIEW.height };
+  report(
+    'visible shapes',
+    time(() => shapes.filter((shape) => intersectsBounds(getShapeBounds(shape), view)), 50),
+    time(() => index.getShapesIn(view), 50)
+  );
+  console.log(`  drawn per frame        ${index.getShapesIn(view).length} of ${count} shapes`);
+
+  // Dragging replaces one shape per move; the index only re-files that one
+  let moved = shapes;
+  const syncTime = time((i) => {
+    moved = moved.map((shape, j) => (j === count - 1 ? moveShape(shape, i % 2 ? 1 : -1, 0) : shape));
+    index.sync(moved);
+  }, 50);
+  console.log(`  index build ${format(buildTime).trim()}, sync after a drag step ${format(syncTime).trim()}`);
+});
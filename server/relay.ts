@@ -0,0 +1,209 @@
+// server/relay.ts
+//
+// WebSocket relay for collaborative editing. Each room keeps its scene in memory and puts the
+// operations its clients send into one order: every batch is applied here first, then sent to
+// everyone in the room, the sender included, so all clients apply the same operations in the
+// same order. See docs/collaboration.md for the protocol.
+//
+// Run with `npm run relay`, which builds it with Vite and starts it. PORT picks another port than
+// 8787.
+import { WebSocketServer } from 'ws';
+import type { WebSocket } from 'ws';
+import type { ClientMessage, Presence, RelayMessage, ShapeOperation } from '../src/types/Collaboration.ts';
+import type { SceneFile } from '../src/types/Document.ts';
+import type { Shape } from '../src/types/Shapes.ts';
+import { validateFiles, validateShape, validateShapes } from '../src/utils/document.ts';
+import { applyOperations } from '../src/utils/operations.ts';
+
+const PORT = Number(process.env.PORT) || 8787;
+
+const MAX_NAME_LENGTH = 40;
+
+interface Room {
+  shapes: Shape[];
+  files: Record<string, SceneFile>; // image data by file id, kept for clients joining later
+  seeded: boolean; // whether the first client to join has supplied the scene
+  clients: Set<WebSocket>;
+  presence: Map<WebSocket, { clientId: string; presence: Presence }>;
+  lastBatches: Map<string, number>; // last batch applied from each client id
+}
+
+// Rooms with clients in them; a room is dropped when its last client leaves
+const rooms = new Map<string, Room>();
+
+const getRoom = (name: string): Room => {
+  let room = rooms.get(name);
+  if (!room) {
+    room = { shapes: [], files: {}, seeded: false, clients: new Set(), presence: new Map(), lastBatches: new Map() };
+    rooms.set(name, room);
+  }
+  return room;
+};
+
+// Only the files some shape in the room still uses, so removed images don't pile up
+const pruneFiles = (files: Record<string, SceneFile>, shapes: Shape[]) => {
+  const used = new Set(shapes.map((shape) => shape.fileId));
+  return Object.fromEntries(Object.entries(files).filter(([id]) => used.has(id)));
+};
+
+// The room name from the path of the URL clients connect to, or null when it doesn't decode
+const getRoomName = (url = '/') => {
+  try {
+    return decodeURIComponent(url.slice(1).split('?')[0]) || 'default';
+  } catch {
+    return null;
+  }
+};
+
+const send = (socket: WebSocket, message: RelayMessage) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+// Whether setting one field leaves the shape valid by the same rules as opening a file
+const acceptsField = (shape: Shape, field: string, value: unknown) => {
+  if (field === 'id') return false;
+  const [candidate] = applyOperations([shape], [{ type: 'update', id: shape.id, fields: { [field]: value } }]);
+  const result = validateShape(candidate, 0);
+  return result.shape !== null && !result.issues.some((issue) => issue.field === field);
+};
+
+// The operation as the room will apply it, or null to drop it. Invalid shapes and fields are
+// left out, and so are changes to shapes that no longer exist.
+const sanitizeOperation = (value: unknown, shapes: Shape[]): ShapeOperation | null => {
+  if (!value || typeof value !== 'object') return null;
+  const operation = value as Record<string, unknown>;
+  switch (operation.type) {
+    case 'add': {
+      const { shape } = validateShape(operation.shape, 0);
+      if (!shape || typeof operation.index !== 'number') return null;
+      return { type: 'add', index: operation.index, shape };
+    }
+    case 'remove':
+      return typeof operation.id === 'string' ? { type: 'remove', id: operation.id } : null;
+    case 'update': {
+      const shape = shapes.find((s) => s.id === operation.id);
+      if (!shape || !operation.fields || typeof operation.fields !== 'object') return null;
+      const fields = Object.fromEntries(
+        Object.entries(operation.fields).filter(([field, fieldValue]) => acceptsField(shape, field, fieldValue))
+      );
+      return Object.keys(fields).length > 0 ? { type: 'update', id: shape.id, fields } : null;
+    }
+    case 'reorder': {
+      const { order } = operation;
+      if (!Array.isArray(order) || !order.every((id) => typeof id === 'string')) return null;
+      return { type: 'reorder', order };
+    }
+    default:
+      return null;
+  }
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Presence is passed on as is, so only the expected fields with the expected types get through
+const sanitizePresence = (value: unknown): Presence | null => {
+  if (!value || typeof value !== 'object') return null;
+  const { name, color, cursor, selectedIds } = value as Record<string, unknown>;
+  if (typeof name !== 'string' || typeof color !== 'string' || !/^#[0-9a-f]{6}$/i.test(color)) return null;
+  const point = cursor as Record<string, unknown> | null;
+  return {
+    name: name.slice(0, MAX_NAME_LENGTH),
+    color,
+    cursor: point && isFiniteNumber(point.x) && isFiniteNumber(point.y) ? { x: point.x, y: point.y } : null,
+    selectedIds: Array.isArray(selectedIds) ? selectedIds.filter((id) => typeof id === 'string') : [],
+  };
+};
+
+const server = new WebSocketServer({ port: PORT });
+
+// The room is the path of the URL clients connect to, e.g. ws://localhost:8787/team-sketch
+server.on('connection', (socket, request) => {
+  const roomName = getRoomName(request.url);
+  if (roomName === null) {
+    socket.close(1008, 'Invalid room name');
+    return;
+  }
+  // Looked up on join, so a room emptied in the meantime is started afresh
+  let room: Room | null = null;
+  let clientId: string | null = null;
+
+  // Without a listener, a socket error would be thrown and end the relay
+  socket.on('error', (error) => console.warn(`Connection error in room ${roomName}: ${error.message}`));
+
+  socket.on('message', (data) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+    // Valid JSON can still be null, a number or a string
+    if (!parsed || typeof parsed !== 'object') return;
+    const message = parsed as ClientMessage;
+
+    if (message.type === 'join' && typeof message.clientId === 'string') {
+      clientId = message.clientId;
+      room = getRoom(roomName);
+      room.clients.add(socket);
+      if (!room.seeded) {
+        room.shapes = Array.isArray(message.shapes) ? validateShapes(message.shapes).shapes : [];
+        room.seeded = true;
+      }
+      room.files = pruneFiles({ ...room.files, ...validateFiles(message.files) }, room.shapes);
+      send(socket, { type: 'snapshot', shapes: room.shapes, files: room.files, ackedBatch: room.lastBatches.get(clientId) ?? 0 });
+      room.presence.forEach((entry, client) => {
+        if (client !== socket) send(socket, { type: 'presence', ...entry });
+      });
+      return;
+    }
+
+    // Presence only goes to the others, and isn't kept past the connection
+    if (!room || clientId === null) return;
+
+    if (message.type === 'presence') {
+      const presence = sanitizePresence(message.presence);
+      if (!presence) return;
+      const entry = { clientId, presence };
+      room.presence.set(socket, entry);
+      room.clients.forEach((client) => {
+        if (client !== socket) send(client, { type: 'presence', ...entry });
+      });
+      return;
+    }
+
+    if (message.type === 'operations') {
+      // Batches arrive again after a reconnect when the client missed the echo
+      const { batch } = message;
+      if (typeof batch !== 'number' || batch <= (room.lastBatches.get(clientId) ?? 0)) return;
+      if (!Array.isArray(message.operations)) return;
+
+      const operations: ShapeOperation[] = [];
+      let shapes = room.shapes;
+      message.operations.forEach((value: unknown) => {
+        const operation = sanitizeOperation(value, shapes);
+        if (!operation) return;
+        shapes = applyOperations(shapes, [operation]);
+        operations.push(operation);
+      });
+      const files = validateFiles(message.files);
+      room.shapes = shapes;
+      room.files = pruneFiles({ ...room.files, ...files }, shapes);
+      room.lastBatches.set(clientId, batch);
+      room.clients.forEach((client) => send(client, { type: 'operations', clientId: clientId!, batch, operations, files }));
+    }
+  });
+
+  socket.on('close', () => {
+    if (!room) return;
+    room.clients.delete(socket);
+    const hadPresence = room.presence.delete(socket);
+    // A client that reconnected before its old connection timed out is still there
+    const stillPresent = [...room.presence.values()].some((entry) => entry.clientId === clientId);
+    if (hadPresence && clientId !== null && !stillPresent) {
+      room.clients.forEach((client) => send(client, { type: 'left', clientId: clientId! }));
+    }
+    if (room.clients.size === 0 && rooms.get(roomName) === room) rooms.delete(roomName);
+  });
+});
+
+console.log(`Relay listening on ws://localhost:${PORT}`);
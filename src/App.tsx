@@ -1,54 +1,72 @@
 // src/App.tsx or your main component
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import Toolbar from './components/Toolbar';
 import Canvas from './components/Canvas';
+import type { CanvasHandle } from './components/Canvas';
+import type { EraserMode, RenderMode, SketchOptions } from './types/Shapes';
+import { DEFAULT_SKETCH_OPTIONS } from './utils/rough';
+import { loadScene } from './utils/storage';
+import { useHistory } from './hooks/useHistory';
+import { useCollaboration } from './hooks/useCollaboration';
+import CollaborationDialog from './components/CollaborationDialog';
 
-type ToolType = 'select' | 'rectangle' | 'circle' | 'line' | 'arrow' | 'text' | 'pen';
+type ToolType =
+  | 'select' | 'rectangle' | 'circle' | 'ellipse' | 'diamond' | 'triangle' | 'polygon' | 'star'
+  | 'line' | 'arrow' | 'text' | 'pen' | 'eraser';
 
 const App: React.FC = () => {
+  const canvasRef = useRef<CanvasHandle>(null);
   const [selectedTool, setSelectedTool] = useState<ToolType>('select');
-  const [canUndo, setCanUndo] = useState(false);
-  const [canRedo, setCanRedo] = useState(false);
-  const [undoFunction, setUndoFunction] = useState<(() => void) | null>(null);
-  const [redoFunction, setRedoFunction] = useState<(() => void) | null>(null);
-
-  const handleHistoryChange = (
-    canUndoState: boolean, 
-    canRedoState: boolean, 
-    undoFn: () => void, 
-    redoFn: () => void
-  ) => {
-    setCanUndo(canUndoState);
-    setCanRedo(canRedoState);
-    setUndoFunction(() => undoFn);
-    setRedoFunction(() => redoFn);
-  };
-
-  const handleUndo = () => {
-    if (undoFunction) {
-      undoFunction();
-    }
-  };
-
-  const handleRedo = () => {
-    if (redoFunction) {
-      redoFunction();
-    }
-  };
+  const [renderMode, setRenderMode] = useState<RenderMode>('clean');
+  const [sketchOptions, setSketchOptions] = useState<SketchOptions>(DEFAULT_SKETCH_OPTIONS);
+  const [eraserMode, setEraserMode] = useState<EraserMode>('stroke');
+  const [initialScene] = useState(loadScene);
+  const history = useHistory(initialScene.shapes);
+  const collaboration = useCollaboration(history);
+  const [showCollaboration, setShowCollaboration] = useState(false);
 
   return (
     <div className="app">
       <Toolbar
         setTool={setSelectedTool}
-        onUndo={handleUndo}
-        onRedo={handleRedo}
-        canUndo={canUndo}
-        canRedo={canRedo}
+        onUndo={history.undo}
+        onRedo={history.redo}
+        canUndo={history.canUndo}
+        canRedo={history.canRedo}
+        renderMode={renderMode}
+        onRenderModeChange={setRenderMode}
+        sketchOptions={sketchOptions}
+        onSketchOptionsChange={setSketchOptions}
+        eraserMode={eraserMode}
+        onEraserModeChange={setEraserMode}
+        onSaveFile={() => canvasRef.current?.saveToFile()}
+        onOpenFile={(file) => canvasRef.current?.openFile(file)}
+        onExport={() => canvasRef.current?.openExportDialog()}
+        onInsertImage={(file) => canvasRef.current?.insertImage(file)}
+        collaborationStatus={collaboration.status}
+        onCollaborate={() => setShowCollaboration(true)}
+        profile={collaboration.profile}
+        collaborators={collaboration.collaborators}
       />
       <Canvas
+        ref={canvasRef}
         selectedTool={selectedTool}
-        onHistoryChange={handleHistoryChange}
+        eraserMode={eraserMode}
+        history={history}
+        initialBackground={initialScene.background}
+        renderMode={renderMode}
+        sketchOptions={sketchOptions}
+        collaborators={collaboration.collaborators}
+        onCursorMove={collaboration.session ? collaboration.setCursor : undefined}
       />
+      {showCollaboration && (
+        <CollaborationDialog
+          collaboration={collaboration}
+          hasDrawing={history.shapes.length > 0}
+          onSaveDrawing={() => canvasRef.current?.saveToFile()}
+          onClose={() => setShowCollaboration(false)}
+        />
+      )}
     </div>
   );
 };
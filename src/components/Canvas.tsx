@@ -1,27 +1,229 @@
 // src/components/Canvas.tsx
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import type { Shape, ShapeType } from '../types/Shapes';
+import React, { useRef, useEffect, useState, useCallback, useImperativeHandle } from 'react';
+import type {
+  EraserMode,
+  PathPoint,
+  RenderMode,
+  Shape,
+  ShapeStyle,
+  ShapeType,
+  SketchOptions,
+  TextAlign,
+  TransformHandle,
+} from '../types/Shapes';
+import TextEditor from './TextEditor';
+import StylePanel from './StylePanel';
+import ZoomControls from './ZoomControls';
+import ImportReportDialog from './ImportReportDialog';
+import type { ImportReport } from './ImportReportDialog';
+import ExportDialog from './ExportDialog';
+import ContextMenu from './ContextMenu';
+import CollaboratorCursors from './CollaboratorCursors';
+import type { Collaborator } from '../types/Collaboration';
+import type { ContextMenuItem } from '../types/Menu';
+import type { ExportOptions } from '../types/Export';
+import type { Viewport } from '../types/Viewport';
+import type { SceneHistory } from '../hooks/useHistory';
+import { useAutosave } from '../hooks/useAutosave';
+import { DEFAULT_FONT_SIZE } from '../utils/text';
+import { DEFAULT_SKETCH_OPTIONS, getSketchOptions } from '../utils/rough';
+import { DEFAULT_BACKGROUND, DocumentError } from '../utils/document';
+import { downloadDrawing, isDrawingFile, parseDrawing } from '../utils/fileFormat';
+import { exportDrawing } from '../utils/exportDrawing';
+import {
+  CLIPBOARD_MIME_TYPE,
+  parseClipboard,
+  readSystemClipboard,
+  serializeClipboard,
+  writeSystemClipboard,
+} from '../utils/clipboard';
+import type { ClipboardContent } from '../utils/clipboard';
+import { findBindTarget } from '../utils/bindings';
+import { getSnapTargets, snapPointTo } from '../utils/snapping';
+import type { SnapGuide, SnapSettings } from '../utils/snapping';
+import { isPointInShape } from '../utils/hitTest';
+import { createStaticLayerCache, drawOverlay, drawShape, getVisibleArea } from '../utils/renderer';
+import type { ShapeRenderOptions } from '../utils/renderer';
+import {
+  applySketchOptions,
+  applyStyle,
+  deleteSelection,
+  duplicateSelection,
+  groupSelection,
+  reorderSelection,
+  selectAll,
+  toggleLock,
+  ungroupSelection,
+} from '../utils/actions';
+import {
+  IDLE,
+  cancelGesture,
+  editConnectorPoint,
+  endGesture,
+  enterGroup,
+  eraseTo,
+  findHandleAt,
+  finishPlacing,
+  getSelectionHandles,
+  isNearAngleStep,
+  moveSelection,
+  placeLinearEnd,
+  placePolylinePoint,
+  selectClicked,
+  selectInBox,
+  sizeDrawnShape,
+  snapSelectionMove,
+  startDrawnShape,
+  transformSelection,
+} from '../utils/gestures';
+import type { Gesture } from '../utils/gestures';
+import { createPointerTracker } from '../utils/pointers';
+import { getShortcutAction } from '../utils/shortcuts';
+import { pasteContent } from '../utils/paste';
+import { commitText, getTextDraft } from '../utils/textEditing';
+import {
+  ZOOM_STEP,
+  fitViewport,
+  panViewport,
+  pinchViewport,
+  toScenePoint,
+  toScreenPoint,
+  zoomViewportAt,
+} from '../utils/viewport';
+import { getCanvasMenuItems, getSelectionMenuItems } from '../utils/contextMenu';
+import type { MenuContext } from '../utils/contextMenu';
+import { isInGroup } from '../utils/groups';
+import {
+  getCommonBounds,
+  getShapeAngle,
+  growBounds,
+  isLinear,
+  normalizeBounds,
+} from '../utils/geometry';
+import { DEFAULT_SHAPE_STYLE, getShapeStyle } from '../utils/style';
+
+// Text inputs (e.g. the inline text editor) handle their own keys and clipboard
+const isTextInput = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return !!element && (element.tagName === 'TEXTAREA' || element.tagName === 'INPUT' || element.isContentEditable);
+};
+
+// Distance in screen pixels within which shapes snap to each other
+const SNAP_DISTANCE = 8;
+
+// Holding Ctrl (Cmd on macOS) while dragging turns snapping off for the moment
+const isSnapDisabled = (e: React.PointerEvent) => e.ctrlKey || e.metaKey;
+
+// Pen points closer than this many screen pixels to the line through their neighbours are dropped
+const PEN_SIMPLIFY_TOLERANCE = 0.75;
+
+// Eraser size in screen pixels
+const ERASER_RADIUS = 8;
+
+// Shapes this far outside the view in scene units are still drawn, since arrowheads, thick strokes
+// and hand-drawn wobble reach past a shape's bounds
+const CULL_MARGIN = 48;
+
+// Grid spacing in scene units; touch screens get a finer grid
+const getGridSize = (isMobile: boolean) => (isMobile ? 15 : 20);
+
+// Resize cursors for handles pointing right, down-right, down and down-left; rotation picks from these
+const RESIZE_CURSORS = ['ew-resize', 'nwse-resize', 'ns-resize', 'nesw-resize'];
+const HANDLE_DIRECTIONS: Partial<Record<TransformHandle, number>> = {
+  e: 0, se: 1, s: 2, sw: 3, w: 4, nw: 5, n: 6, ne: 7,
+};
+
+// Default for the collaborators prop, kept the same between renders so redraws can depend on it
+const NO_COLLABORATORS: Collaborator[] = [];
+
+// Scene actions triggered from outside the canvas (e.g. the toolbar)
+export interface CanvasHandle {
+  saveToFile: () => void;
+  openFile: (file: File) => void;
+  openExportDialog: () => void;
+  insertImage: (file: File) => void;
+}
 
 interface CanvasProps {
-  selectedTool: ShapeType | 'select' | 'arrow' | 'text' | 'pen';
-  onHistoryChange?: (canUndo: boolean, canRedo: boolean, undoFn: () => void, redoFn: () => void) => void;
+  ref?: React.Ref<CanvasHandle>;
+  selectedTool: ShapeType | 'select' | 'arrow' | 'text' | 'pen' | 'eraser';
+  eraserMode?: EraserMode;
+  history: SceneHistory;
+  initialBackground?: string;
+  renderMode?: RenderMode;
+  sketchOptions?: SketchOptions;
+  // Other people in a shared session, with their pointers and selections
+  collaborators?: Collaborator[];
+  onCursorMove?: (point: { x: number; y: number } | null) => void;
 }
 
-const Canvas: React.FC<CanvasProps> = ({ selectedTool, onHistoryChange }) => {
+const Canvas: React.FC<CanvasProps> = ({
+  ref,
+  selectedTool,
+  eraserMode = 'stroke',
+  history,
+  initialBackground = DEFAULT_BACKGROUND,
+  renderMode = 'clean',
+  sketchOptions = DEFAULT_SKETCH_OPTIONS,
+  collaborators = NO_COLLABORATORS,
+  onCursorMove
+}) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [shapes, setShapes] = useState<Shape[]>([]);
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [startX, setStartX] = useState(0);
-  const [startY, setStartY] = useState(0);
-  const [currentShape, setCurrentShape] = useState<Shape | null>(null);
-  const [selectedShapeId, setSelectedShapeId] = useState<string | null>(null);
-  const [offset, setOffset] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
+  // Shapes and selection live in the history so every undo step restores both
+  const {
+    scene,
+    shapes,
+    selectedIds: selectedShapeIds,
+    setSelection: setSelectedShapeIds,
+    commit: commitShapes,
+    removeShapes,
+    undo,
+    redo,
+  } = history;
+  const [background, setBackground] = useState(initialBackground);
+  // What the pointer is doing between pressing and lifting it
+  const [gesture, setGesture] = useState<Gesture>(IDLE);
+  // Pointers pressed on the canvas, for pinch-zoom, long presses and double taps
+  const [pointers] = useState(createPointerTracker);
+  // Group entered by double-clicking it; clicks then select its members instead of the whole group
+  const [editingGroupId, setEditingGroupId] = useState<string | null>(null);
+  const [styleDefaults, setStyleDefaults] = useState<ShapeStyle>(DEFAULT_SHAPE_STYLE);
   const [isShiftPressed, setIsShiftPressed] = useState(false);
-  const [penPath, setPenPath] = useState<{ x: number; y: number }[]>([]);
-  const [history, setHistory] = useState<Shape[][]>([[]]);
-  const [historyIndex, setHistoryIndex] = useState(0);
   const [isMobile, setIsMobile] = useState(false);
-  const [lastTouchTime, setLastTouchTime] = useState(0);
+  const [editingText, setEditingText] = useState<{ shape: Shape; isNew: boolean } | null>(null);
+  const [textDefaults, setTextDefaults] = useState<{ fontSize: number; textAlign: TextAlign }>({
+    fontSize: DEFAULT_FONT_SIZE,
+    textAlign: 'left',
+  });
+  const [viewport, setViewport] = useState<Viewport>({ offsetX: 0, offsetY: 0, zoom: 1 });
+  const [isSpacePressed, setIsSpacePressed] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  // Canvas bitmap size, which follows the window
+  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
+  // Open context menu: screen position, the scene point it was opened at, and whether it's for the selection
+  const [contextMenu, setContextMenu] = useState<{
+    x: number;
+    y: number;
+    point: { x: number; y: number };
+    target: 'selection' | 'canvas';
+  } | null>(null);
+  const closeContextMenu = useCallback(() => setContextMenu(null), []);
+  // Style picked up with "Copy style", applied by "Paste style"
+  const [copiedStyle, setCopiedStyle] = useState<ShapeStyle | null>(null);
+  const [showGrid, setShowGrid] = useState(true);
+  const [gridSnap, setGridSnap] = useState(false);
+  // Alignment and spacing guides for the shape being drawn, moved or resized
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]);
+  // Bumped when an image finishes decoding so the canvas redraws with it
+  const [loadedImageCount, setLoadedImageCount] = useState(0);
+  // Image whose handles crop it instead of resizing it, entered by double-clicking the image
+  const [croppingId, setCroppingId] = useState<string | null>(null);
+  // Last pointer position over the canvas in scene coordinates, where pastes land
+  const lastPointerRef = useRef<{ x: number; y: number } | null>(null);
+  // Background, grid and settled shapes, copied onto the canvas on each redraw
+  const [staticLayer] = useState(() => createStaticLayerCache());
 
   // Detect mobile device
   useEffect(() => {
@@ -37,74 +239,171 @@ const Canvas: React.FC<CanvasProps> = ({ selectedTool, onHistoryChange }) => {
     return () => window.removeEventListener('resize', checkMobile);
   }, []);
 
-  // Save state to history
-  const saveToHistory = useCallback((newShapes: Shape[]) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push([...newShapes]);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
-  }, [history, historyIndex]);
-
-  // Undo function
-  const undo = useCallback(() => {
-    if (historyIndex > 0) {
-      const newIndex = historyIndex - 1;
-      setHistoryIndex(newIndex);
-      setShapes([...history[newIndex]]);
-      setSelectedShapeId(null);
-    }
-  }, [history, historyIndex]);
-
-  // Redo function
-  const redo = useCallback(() => {
-    if (historyIndex < history.length - 1) {
-      const newIndex = historyIndex + 1;
-      setHistoryIndex(newIndex);
-      setShapes([...history[newIndex]]);
-      setSelectedShapeId(null);
+  useAutosave(shapes, background);
+
+  // Cropping ends once the image stops being the only selected shape
+  useEffect(() => {
+    if (croppingId && (selectedShapeIds.length !== 1 || selectedShapeIds[0] !== croppingId)) {
+      setCroppingId(null);
     }
-  }, [history, historyIndex]);
+  }, [croppingId, selectedShapeIds]);
+
+  // Zoom around a fixed screen point so the content under it stays in place
+  const zoomAt = useCallback((getZoom: (zoom: number) => number, screenX: number, screenY: number) => {
+    setViewport((prev) => zoomViewportAt(prev, getZoom(prev.zoom), { x: screenX, y: screenY }));
+  }, []);
 
-  // Check if undo/redo is available
-  const canUndo = historyIndex > 0;
-  const canRedo = historyIndex < history.length - 1;
+  // Zoom buttons and shortcuts anchor at the middle of the screen
+  const zoomAtCenter = useCallback((getZoom: (zoom: number) => number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    zoomAt(getZoom, canvas.width / 2, canvas.height / 2);
+  }, [zoomAt]);
+
+  const fitToContent = useCallback((targetShapes: Shape[] = shapes) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const bounds = targetShapes.length > 0 ? getCommonBounds(targetShapes) : null;
+    setViewport(fitViewport(bounds, canvas.width, canvas.height));
+  }, [shapes]);
 
-  // Notify parent component about history changes
+  // Wheel pans the canvas; ctrl+wheel (and trackpad pinch) zooms at the cursor.
+  // Attached natively because React registers wheel listeners as passive.
   useEffect(() => {
-    if (onHistoryChange) {
-      onHistoryChange(canUndo, canRedo, undo, redo);
-    }
-  }, [canUndo, canRedo, undo, redo, onHistoryChange]);
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      if (e.ctrlKey || e.metaKey) {
+        const rect = canvas.getBoundingClientRect();
+        zoomAt((zoom) => zoom * Math.pow(1.0015, -e.deltaY), e.clientX - rect.left, e.clientY - rect.top);
+        return;
+      }
+
+      const deltaX = e.shiftKey && e.deltaX === 0 ? e.deltaY : e.deltaX;
+      const deltaY = e.shiftKey && e.deltaX === 0 ? 0 : e.deltaY;
+      setViewport((prev) => ({ ...prev, offsetX: prev.offsetX - deltaX, offsetY: prev.offsetY - deltaY }));
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
 
   // Handle keyboard events for modifiers and shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Shift') setIsShiftPressed(true);
+
+      // Let text inputs (e.g. the inline text editor) handle their own keys
+      if (isTextInput(e.target)) {
+        return;
+      }
       
-      // Handle Ctrl+Z (Undo) and Ctrl+Y (Redo)
-      if (e.ctrlKey || e.metaKey) {
-        if (e.key === 'z' && !e.shiftKey) {
-          e.preventDefault();
+      // Hold space to pan with the mouse
+      if (e.code === 'Space') {
+        e.preventDefault();
+        setIsSpacePressed(true);
+        return;
+      }
+
+      const action = getShortcutAction(e);
+      switch (action) {
+        case 'undo':
           undo();
-        } else if ((e.key === 'y') || (e.key === 'z' && e.shiftKey)) {
-          e.preventDefault();
+          break;
+        case 'redo':
           redo();
+          break;
+        case 'zoomIn':
+          zoomAtCenter((zoom) => zoom * ZOOM_STEP);
+          break;
+        case 'zoomOut':
+          zoomAtCenter((zoom) => zoom / ZOOM_STEP);
+          break;
+        case 'resetZoom':
+          zoomAtCenter(() => 1);
+          break;
+        case 'fitToContent':
+          fitToContent();
+          break;
+        case 'save':
+          downloadDrawing(shapes, background);
+          break;
+        case 'export':
+          setShowExportDialog(true);
+          break;
+        case 'selectAll':
+          selectAll(scene);
+          break;
+        case 'duplicate':
+          duplicateSelection(scene);
+          break;
+        case 'delete':
+          deleteSelection(scene);
+          break;
+        case 'toggleLock':
+          toggleLock(scene);
+          break;
+        case 'group':
+          groupSelection(scene, editingGroupId);
+          break;
+        case 'ungroup':
+          ungroupSelection(scene, editingGroupId);
+          break;
+        case 'bringForward':
+          reorderSelection(scene, 'forward');
+          break;
+        case 'sendBackward':
+          reorderSelection(scene, 'backward');
+          break;
+        case 'bringToFront':
+          reorderSelection(scene, 'front');
+          break;
+        case 'sendToBack':
+          reorderSelection(scene, 'back');
+          break;
+        case 'contextMenu': {
+          // Opened over the selection or the middle of the screen
+          const canvas = canvasRef.current;
+          const rect = canvas ? canvas.getBoundingClientRect() : { left: 0, top: 0, width: 0, height: 0 };
+          const selected = shapes.filter((shape) => selectedShapeIds.includes(shape.id));
+          const bounds = selected.length > 0 ? getCommonBounds(selected) : null;
+          const point = bounds
+            ? { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 }
+            : toScenePoint(viewport, { x: rect.width / 2, y: rect.height / 2 });
+          const screen = toScreenPoint(viewport, point);
+          setContextMenu({
+            x: rect.left + screen.x,
+            y: rect.top + screen.y,
+            point,
+            target: bounds ? 'selection' : 'canvas',
+          });
+          break;
         }
+        case 'confirm':
+        case 'cancel':
+          // Enter and Escape finish placing a line or cropping; Escape otherwise clears the selection
+          if (gesture.type === 'polyline') {
+            setGesture(finishPlacing(scene, gesture));
+          } else if (croppingId) {
+            setCroppingId(null);
+          } else if (action === 'cancel') {
+            setSelectedShapeIds([]);
+            setEditingGroupId(null);
+          } else {
+            return;
+          }
+          break;
+        default:
+          return;
       }
-      
-      // Handle Delete/Backspace
-      if (e.key === 'Delete' || e.key === 'Backspace') {
-        if (selectedShapeId) {
-          const newShapes = shapes.filter(shape => shape.id !== selectedShapeId);
-          setShapes(newShapes);
-          saveToHistory(newShapes);
-          setSelectedShapeId(null);
-        }
-      }
+      e.preventDefault();
     };
 
     const handleKeyUp = (e: KeyboardEvent) => {
       if (e.key === 'Shift') setIsShiftPressed(false);
+      if (e.code === 'Space') setIsSpacePressed(false);
     };
 
     if (!isMobile) {
@@ -116,7 +415,136 @@ const Canvas: React.FC<CanvasProps> = ({ selectedTool, onHistoryChange }) => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [selectedShapeId, shapes, undo, redo, saveToHistory, isMobile]);
+  }, [
+    selectedShapeIds,
+    shapes,
+    background,
+    viewport,
+    undo,
+    redo,
+    setSelectedShapeIds,
+    isMobile,
+    zoomAtCenter,
+    fitToContent,
+    scene,
+    editingGroupId,
+    gesture,
+    croppingId,
+  ]);
+
+  // Paste at the given scene point, or at the cursor / middle of the screen. Copied shapes without
+  // a point land just beside their originals. Returns false when there was nothing to paste.
+  const handlePaste = useCallback((content: ClipboardContent, at?: { x: number; y: number }) => {
+    const canvas = canvasRef.current;
+    return pasteContent(scene, content, {
+      point: at ?? lastPointerRef.current,
+      center: toScenePoint(viewport, { x: canvas ? canvas.width / 2 : 0, y: canvas ? canvas.height / 2 : 0 }),
+      style: styleDefaults,
+      text: textDefaults,
+    });
+  }, [scene, viewport, styleDefaults, textDefaults]);
+
+  // Copy, cut and paste through the system clipboard; Ctrl+C/X/V arrive here as clipboard events
+  useEffect(() => {
+    const handleCopy = (e: ClipboardEvent) => {
+      if (isTextInput(e.target) || !e.clipboardData || selectedShapeIds.length === 0) return;
+      e.preventDefault();
+      const data = serializeClipboard(shapes.filter((shape) => selectedShapeIds.includes(shape.id)));
+      e.clipboardData.setData(CLIPBOARD_MIME_TYPE, data);
+      e.clipboardData.setData('text/plain', data);
+    };
+
+    const handleCut = (e: ClipboardEvent) => {
+      handleCopy(e);
+      if (!e.defaultPrevented) return;
+      removeShapes(selectedShapeIds);
+    };
+
+    const handlePasteEvent = (e: ClipboardEvent) => {
+      if (isTextInput(e.target) || !e.clipboardData) return;
+      const data = e.clipboardData;
+      const pasted = handlePaste({
+        shapes: parseClipboard(data.getData(CLIPBOARD_MIME_TYPE)) ?? parseClipboard(data.getData('text/plain')),
+        image: Array.from(data.files).find((file) => file.type.startsWith('image/')) ?? null,
+        text: data.getData('text/plain'),
+      });
+      if (pasted) e.preventDefault();
+    };
+
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('cut', handleCut);
+    document.addEventListener('paste', handlePasteEvent);
+    return () => {
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('cut', handleCut);
+      document.removeEventListener('paste', handlePasteEvent);
+    };
+  }, [shapes, selectedShapeIds, removeShapes, handlePaste]);
+
+  // Replace the scene with a drawing file; the previous scene stays reachable through undo
+  const openFile = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      setImportReport({ fileName: file.name, error: 'The file could not be read', importedCount: 0, issues: [] });
+      return;
+    }
+
+    try {
+      const { document, issues } = parseDrawing(text);
+      setEditingText(null);
+      scene.loadShapes(document.shapes);
+      setBackground(document.background ?? DEFAULT_BACKGROUND);
+      fitToContent(document.shapes);
+      if (issues.length > 0) {
+        setImportReport({ fileName: file.name, importedCount: document.shapes.length, issues });
+      }
+    } catch (error) {
+      const message = error instanceof DocumentError ? error.message : 'The file could not be opened';
+      setImportReport({ fileName: file.name, error: message, importedCount: 0, issues: [] });
+    }
+  };
+
+  useImperativeHandle(ref, () => ({
+    saveToFile: () => downloadDrawing(shapes, background),
+    openFile,
+    openExportDialog: () => setShowExportDialog(true),
+    insertImage: (file: File) => handlePaste({ shapes: null, image: file, text: '' }),
+  }));
+
+  const handleExport = (options: ExportOptions) => {
+    setShowExportDialog(false);
+    exportDrawing(options.onlySelected ? selectedShapes : shapes, options, {
+      background,
+      gridSize: getGridSize(isMobile),
+      renderMode,
+      arrowHeadLength: isMobile ? 20 : 15,
+    });
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFile(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const files = Array.from(e.dataTransfer.files);
+    const file = files.find(isDrawingFile);
+    if (file) {
+      openFile(file);
+      return;
+    }
+    // Dropped images land centered where they were dropped, the same way pasted ones do
+    const image = files.find((candidate) => candidate.type.startsWith('image/'));
+    if (image) {
+      handlePaste({ shapes: null, image, text: '' }, getPointerPos(e));
+    }
+  };
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -129,215 +557,507 @@ const Canvas: React.FC<CanvasProps> = ({ selectedTool, onHistoryChange }) => {
       
       canvas.width = window.innerWidth;
       canvas.height = window.innerHeight;
-      redrawCanvas();
+      setCanvasSize({ width: canvas.width, height: canvas.height });
+    };
+    const handleOrientationChange = () => {
+      setTimeout(updateCanvasSize, 100); // Delay for orientation change
     };
 
     updateCanvasSize();
     window.addEventListener('resize', updateCanvasSize);
-    window.addEventListener('orientationchange', () => {
-      setTimeout(updateCanvasSize, 100); // Delay for orientation change
-    });
+    window.addEventListener('orientationchange', handleOrientationChange);
 
     return () => {
       window.removeEventListener('resize', updateCanvasSize);
-      window.removeEventListener('orientationchange', updateCanvasSize);
+      window.removeEventListener('orientationchange', handleOrientationChange);
     };
   }, []);
 
-  const getPointerPos = (e: React.MouseEvent | React.TouchEvent) => {
+  // Pointer position in screen (canvas element) coordinates
+  const getScreenPos = (e: { clientX: number; clientY: number }) => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
     const rect = canvas.getBoundingClientRect();
-    
-    let clientX, clientY;
-    if ('touches' in e && e.touches.length > 0) {
-      clientX = e.touches[0].clientX;
-      clientY = e.touches[0].clientY;
-    } else if ('changedTouches' in e && e.changedTouches.length > 0) {
-      clientX = e.changedTouches[0].clientX;
-      clientY = e.changedTouches[0].clientY;
-    } else {
-      clientX = (e as React.MouseEvent).clientX;
-      clientY = (e as React.MouseEvent).clientY;
-    }
-    
     return {
-      x: clientX - rect.left,
-      y: clientY - rect.top,
+      x: e.clientX - rect.left,
+      y: e.clientY - rect.top,
     };
   };
 
-  const handlePointerDown = (e: React.MouseEvent | React.TouchEvent) => {
+  // Pointer position in scene coordinates, with the viewport pan and zoom removed
+  const getPointerPos = (e: { clientX: number; clientY: number }) => toScenePoint(viewport, getScreenPos(e));
+
+  // Canvas corner in client coordinates
+  const getCanvasOrigin = () => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    return { x: rect?.left ?? 0, y: rect?.top ?? 0 };
+  };
+
+  // Stop whatever the pointer was doing; a move or transform that already changed something is kept
+  const stopGesture = () => {
+    setGesture(cancelGesture(scene, gesture));
+    setSnapGuides([]);
+  };
+
+  // A second finger turns the gesture into pan/pinch-zoom and cancels any drawing in progress
+  const startPinch = () => {
+    pointers.cancelLongPress();
+    stopGesture();
+    setGesture({ type: 'pinch', start: pointers.getPinch(getCanvasOrigin()), viewport });
+  };
+
+  // Pen samples for a pointer event, including the ones the browser coalesced into it.
+  // Only styluses report a meaningful pressure.
+  const getPenPoints = (e: React.PointerEvent): PathPoint[] => {
+    const coalesced = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    return (coalesced.length > 0 ? coalesced : [e.nativeEvent]).map((event) => ({
+      ...getPointerPos(event),
+      ...(event.pointerType === 'pen' && { pressure: Math.round(event.pressure * 1000) / 1000 }),
+    }));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
     e.preventDefault();
+    // Keep receiving moves when the pointer leaves the canvas mid-gesture
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.press(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    // Clicking away from the inline editor finishes the text being edited
+    if (editingText) {
+      (document.activeElement as HTMLElement | null)?.blur();
+      return;
+    }
+
+    if (e.pointerType === 'touch' && pointers.count() >= 2) {
+      startPinch();
+      return;
+    }
+
+    // The right button opens the context menu instead
+    if (e.button === 2) {
+      return;
+    }
+
+    // Holding a single finger still opens the context menu
+    if (e.pointerType === 'touch') {
+      const { clientX, clientY } = e;
+      pointers.startLongPress(e.pointerId, { x: clientX, y: clientY }, () => {
+        stopGesture();
+        openContextMenu(clientX, clientY);
+      });
+    }
+
+    // Middle mouse button or space+drag pans the canvas
+    if (e.button === 1 || isSpacePressed) {
+      const screen = getScreenPos(e);
+      setGesture({ type: 'pan', start: { ...screen, offsetX: viewport.offsetX, offsetY: viewport.offsetY } });
+      return;
+    }
+
+    // Each click on a line or arrow being placed point by point fixes a point; clicking the last
+    // point again (a double-click or double-tap) or switching tools finishes the line
+    if (gesture.type === 'polyline') {
+      if (selectedTool !== gesture.shape.type) {
+        setGesture(finishPlacing(scene, gesture));
+        return;
+      }
+      const pointer = getPointerPos(e);
+      const placed = placeLineEnd(e, gesture.origin, gesture.shape, getSnappedPoint(e, pointer), pointer);
+      setGesture(placePolylinePoint(scene, { ...gesture, bindTargetId: placed.targetId }, placed.shape, getHitRadius()));
+      return;
+    }
+
     const { x, y } = getPointerPos(e);
-    setStartX(x);
-    setStartY(y);
 
     // Handle double-tap for mobile selection
-    if (isMobile && 'touches' in e) {
-      const currentTime = Date.now();
-      const tapLength = currentTime - lastTouchTime;
-      if (tapLength < 500 && tapLength > 0) {
-        // Double tap - force select mode temporarily
-        handleShapeSelection(x, y);
+    if (isMobile && e.pointerType === 'touch' && pointers.isDoubleTap(Date.now())) {
+      // Double tap edits the points of a selected line, enters a group or edits text, otherwise
+      // force select mode temporarily
+      const textShape = findTextShapeAt(x, y);
+      if (editConnectorPointAt(x, y) || enterGroupAt(x, y)) {
         return;
+      } else if (textShape) {
+        startTextEditing(textShape, false);
+      } else {
+        handleShapeSelection(x, y);
       }
-      setLastTouchTime(currentTime);
+      return;
     }
 
     if (selectedTool === 'select') {
-      handleShapeSelection(x, y);
-    } else if (selectedTool === 'pen') {
-      setIsDrawing(true);
-      setPenPath([{ x, y }]);
-      const newShape: Shape = {
-        id: Date.now().toString(),
-        type: 'pen',
-        x,
-        y,
-        path: [{ x, y }],
-      };
-      setCurrentShape(newShape);
+      const handle = getHandleAt(x, y);
+      if (handle) {
+        setGesture({ type: 'transform', handle, originals: selectedShapes, hasMoved: false, bindTargetId: null });
+        return;
+      }
+      handleShapeSelection(x, y, e.shiftKey);
+      return;
+    }
+
+    setSelectedShapeIds([]);
+    if (selectedTool === 'eraser') {
+      setGesture(eraseTo(scene, { type: 'erase', trail: [], erasingIds: [] }, { x, y }, getEraseOptions()));
+      return;
+    }
+
+    const defaults = { style: styleDefaults, sketch: sketchOptions, text: textDefaults };
+    if (selectedTool === 'pen') {
+      const shape = startDrawnShape('pen', { x, y }, defaults, { path: getPenPoints(e) });
+      setGesture({ type: 'draw', origin: { x, y }, shape, bindTargetId: null });
+    } else if (selectedTool === 'text') {
+      // Drag out a box to wrap text inside it, or just click for auto-sized text
+      const point = getSnappedPoint(e, { x, y });
+      setGesture({ type: 'draw', origin: point, shape: startDrawnShape('text', point, defaults), bindTargetId: null });
     } else {
-      setIsDrawing(true);
-      const newShape: Shape = {
-        id: Date.now().toString(),
-        type: selectedTool as ShapeType,
-        x,
-        y,
-      };
-      setCurrentShape(newShape);
+      // Lines and arrows started on a shape attach to it, anything else starts at the snapped point
+      const start = isLinear(selectedTool) ? findBindTarget(shapes, { x, y }, getBindTolerance()) : null;
+      const point = start ? start.point : getSnappedPoint(e, { x, y });
+      const shape = startDrawnShape(selectedTool as ShapeType, point, defaults, { startBinding: start?.binding });
+      setGesture({ type: 'draw', origin: point, shape, bindTargetId: null });
     }
   };
 
-  const handleShapeSelection = (x: number, y: number) => {
-    // Check if a shape is clicked (reverse order for top-most selection)
-    for (let i = shapes.length - 1; i >= 0; i--) {
-      const shape = shapes[i];
-      if (isInsideShape(x, y, shape)) {
-        setSelectedShapeId(shape.id);
-        setOffset({ x: x - shape.x, y: y - shape.y });
-        return;
-      }
+  const findTextShapeAt = (x: number, y: number): Shape | null =>
+    getShapeAt(x, y, (shape) => shape.type === 'text' && !shape.locked);
+
+  // Double-clicking a selected line or arrow edits its points. Returns whether the line was edited.
+  const editConnectorPointAt = (x: number, y: number): boolean => {
+    const [shape] = selectedShapes;
+    if (selectedShapes.length !== 1 || !isLinear(shape.type) || shape.locked) return false;
+    return editConnectorPoint(scene, shape, { x, y }, getHandleAt(x, y), getHitRadius());
+  };
+
+  // Double-clicking the selected image starts cropping it, and double-clicking it again stops
+  const toggleCropAt = (x: number, y: number): boolean => {
+    const [shape] = selectedShapes;
+    if (selectedShapes.length !== 1 || shape.type !== 'image' || shape.locked || !isInsideShape(x, y, shape)) {
+      return false;
     }
-    setSelectedShapeId(null);
+    setCroppingId(croppingId === shape.id ? null : shape.id);
+    return true;
   };
 
-  const handlePointerMove = (e: React.MouseEvent | React.TouchEvent) => {
-    e.preventDefault();
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    // With the line and arrow tools a double-click finishes the line being placed
+    if (isMobile || editingText || selectedTool === 'line' || selectedTool === 'arrow') return;
     const { x, y } = getPointerPos(e);
+
+    if (editConnectorPointAt(x, y) || toggleCropAt(x, y) || enterGroupAt(x, y)) return;
+
+    const textShape = findTextShapeAt(x, y);
+    if (textShape) {
+      startTextEditing(textShape, false);
+    } else if (selectedTool === 'select') {
+      // Double-clicking empty canvas is a shortcut for placing text
+      const defaults = { style: styleDefaults, sketch: sketchOptions, text: textDefaults };
+      startTextEditing(getTextDraft(startDrawnShape('text', { x, y }, defaults)), true);
+    }
+  };
+
+  // Opening the menu over a shape selects it (keeping a selection it's part of) and offers actions
+  // for the selection; over empty canvas it clears the selection and offers canvas actions
+  const openContextMenu = (clientX: number, clientY: number) => {
+    const canvas = canvasRef.current;
+    const rect = canvas ? canvas.getBoundingClientRect() : { left: 0, top: 0 };
+    const point = toScenePoint(viewport, { x: clientX - rect.left, y: clientY - rect.top });
+
+    const shape = getShapeAt(point.x, point.y);
+    if (!shape) {
+      setSelectedShapeIds([]);
+      setEditingGroupId(null);
+    } else if (!selectedShapeIds.includes(shape.id)) {
+      setEditingGroupId(selectClicked(scene, shape, false, editingGroupId));
+    }
+    setContextMenu({ x: clientX, y: clientY, point, target: shape ? 'selection' : 'canvas' });
+  };
+
+  const handleContextMenu = (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (editingText) return;
+    openContextMenu(e.clientX, e.clientY);
+  };
+
+  // Menu actions can't use clipboard events, so they go through the async clipboard API.
+  // Failures (e.g. permission denied) leave the scene as it is.
+  const copySelection = () => writeSystemClipboard(selectedShapes).catch(() => {});
+
+  const cutSelection = () => {
+    writeSystemClipboard(selectedShapes)
+      .then(() => deleteSelection(scene))
+      .catch(() => {});
+  };
+
+  const pasteFromClipboard = (point: { x: number; y: number }) => {
+    readSystemClipboard()
+      .then((content) => handlePaste(content, point))
+      .catch(() => {});
+  };
+
+  const getContextMenuItems = (menu: NonNullable<typeof contextMenu>): ContextMenuItem[] => {
+    const context: MenuContext = {
+      scene,
+      point: menu.point,
+      handle: getHandleAt(menu.point.x, menu.point.y),
+      hitRadius: getHitRadius(),
+      editingGroupId,
+      croppingId,
+      copiedStyle,
+      showGrid,
+      gridSnap,
+      handlers: {
+        copy: copySelection,
+        cut: cutSelection,
+        paste: () => pasteFromClipboard(menu.point),
+        copyStyle: setCopiedStyle,
+        toggleGrid: () => setShowGrid((show) => !show),
+        toggleGridSnap: () => setGridSnap((snap) => !snap),
+        openExportDialog: () => setShowExportDialog(true),
+        toggleCrop: (id) => setCroppingId(croppingId === id ? null : id),
+      },
+    };
+    return menu.target === 'canvas' ? getCanvasMenuItems(context) : getSelectionMenuItems(context);
+  };
+
+  const startTextEditing = (shape: Shape, isNew: boolean) => {
+    setSelectedShapeIds([]);
+    setEditingText({ shape, isNew });
+  };
+
+  const updateTextEditing = (updates: Partial<Shape>) => {
+    if (!editingText) return;
+    setEditingText({ ...editingText, shape: { ...editingText.shape, ...updates } });
+    if (updates.fontSize !== undefined || updates.textAlign !== undefined) {
+      setTextDefaults((prev) => ({
+        fontSize: updates.fontSize ?? prev.fontSize,
+        textAlign: updates.textAlign ?? prev.textAlign,
+      }));
+    }
+  };
+
+  const commitTextEditing = () => {
+    if (!editingText) return;
+    setEditingText(null);
+    commitText(scene, editingText.shape, editingText.isNew);
+  };
+
+  // Shift-click toggles a shape (or group) in the selection; clicking empty space starts a marquee
+  const handleShapeSelection = (x: number, y: number, additive = false) => {
+    const shape = getShapeAt(x, y);
+    if (shape) {
+      const isDeselecting = additive && selectedShapeIds.includes(shape.id);
+      setEditingGroupId(selectClicked(scene, shape, additive, editingGroupId));
+      if (isDeselecting) return;
+      setGesture({ type: 'move', dragPoint: { x, y }, hasMoved: false });
+      return;
+    }
+
+    const baseIds = additive ? selectedShapeIds : [];
+    setSelectedShapeIds(baseIds);
+    if (!additive) setEditingGroupId(null);
+    setGesture({ type: 'marquee', origin: { x, y }, box: normalizeBounds(x, y, x, y), baseIds });
+  };
+
+  // Double-clicking a group goes one level into it. Returns false when there's no group to enter
+  // at the point.
+  const enterGroupAt = (x: number, y: number): boolean => {
+    const shape = getShapeAt(x, y);
+    const groupId = shape && enterGroup(scene, shape, editingGroupId);
+    if (!groupId) return false;
+    setEditingGroupId(groupId);
+    return true;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
     const canvas = canvasRef.current;
     if (!canvas) return;
+    pointers.move(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (gesture.type === 'pinch') {
+      if (pointers.count() < 2) return;
+      setViewport(pinchViewport(gesture.viewport, gesture.start, pointers.getPinch(getCanvasOrigin())));
+      return;
+    }
+
+    if (gesture.type === 'pan') {
+      const screen = getScreenPos(e);
+      canvas.style.cursor = 'grabbing';
+      setViewport((prev) => panViewport(prev, gesture.start, screen));
+      return;
+    }
+
+    const pointer = getPointerPos(e);
+    const { x, y } = pointer;
+    lastPointerRef.current = pointer;
+    onCursorMove?.(pointer);
 
     // Update cursor based on tool (desktop only)
     if (!isMobile) {
-      canvas.style.cursor = getCursorStyle(selectedTool, x, y);
+      canvas.style.cursor = isSpacePressed ? 'grab' : getCursorStyle(selectedTool, x, y);
     }
 
-    if (selectedTool === 'select' && selectedShapeId && !isDrawing) {
-      // Move the selected shape
-      setShapes((prevShapes) =>
-        prevShapes.map((shape) =>
-          shape.id === selectedShapeId
-            ? { ...shape, x: x - offset.x, y: y - offset.y }
-            : shape
-        )
-      );
-    } else if (isDrawing && currentShape) {
-      let updatedShape = { ...currentShape };
-      
-      switch (selectedTool) {
-        case 'rectangle':
-          let width = x - startX;
-          let height = y - startY;
-          
-          // Perfect square when holding Shift (desktop) or double-tap (mobile)
-          if (isShiftPressed || (isMobile && Math.abs(width - height) < 50)) {
-            const size = Math.max(Math.abs(width), Math.abs(height));
-            width = width < 0 ? -size : size;
-            height = height < 0 ? -size : size;
-          }
-          
-          updatedShape.width = width;
-          updatedShape.height = height;
-          break;
-          
-        case 'circle':
-          const radius = Math.hypot(x - startX, y - startY);
-          updatedShape.radius = radius;
-          break;
-          
-        case 'line':
-          let x2 = x;
-          let y2 = y;
-          
-          // Snap to 45-degree angles when holding Shift or on mobile with similar deltas
-          if (isShiftPressed || (isMobile && shouldSnapToAngle(x - startX, y - startY))) {
-            const dx = x - startX;
-            const dy = y - startY;
-            const angle = Math.atan2(dy, dx);
-            const snapAngle = Math.round(angle / (Math.PI / 4)) * (Math.PI / 4);
-            const distance = Math.hypot(dx, dy);
-            x2 = startX + Math.cos(snapAngle) * distance;
-            y2 = startY + Math.sin(snapAngle) * distance;
-          }
-          
-          updatedShape.x2 = x2;
-          updatedShape.y2 = y2;
-          break;
-          
-        case 'arrow':
-          updatedShape.x2 = x;
-          updatedShape.y2 = y;
-          break;
-          
-        case 'pen':
-          const newPath = [...penPath, { x, y }];
-          setPenPath(newPath);
-          updatedShape.path = newPath;
+    switch (gesture.type) {
+      case 'erase':
+        setGesture(eraseTo(scene, gesture, pointer, getEraseOptions()));
+        break;
+
+      case 'transform': {
+        const { handle } = gesture;
+        const point = handle === 'rotation' ? pointer : getSnappedPoint(e, pointer, selectedShapeIds);
+        const bindTargetId = transformSelection(scene, gesture.originals, handle, point, {
+          keepAspect: e.shiftKey,
+          fromCenter: e.altKey,
+          croppingId,
+          bindTolerance: getBindTolerance(),
+        });
+        setGesture({ ...gesture, hasMoved: true, bindTargetId });
+        break;
+      }
+
+      case 'marquee': {
+        // Select the shapes that lie completely inside the box, along with the rest of their groups
+        const box = normalizeBounds(gesture.origin.x, gesture.origin.y, x, y);
+        setGesture({ ...gesture, box });
+        selectInBox(scene, box, gesture.baseIds, editingGroupId);
+        break;
+      }
+
+      case 'move': {
+        if (selectedShapeIds.length === 0) break;
+        // Move the whole selection by the distance since the last pointer event
+        const { dragPoint } = gesture;
+        const { dx, dy, guides } = snapSelectionMove(scene, x - dragPoint.x, y - dragPoint.y, getSnapSettings(e));
+        setSnapGuides(guides);
+        setGesture({ type: 'move', dragPoint: { x: dragPoint.x + dx, y: dragPoint.y + dy }, hasMoved: true });
+        moveSelection(scene, dx, dy);
+        break;
+      }
+
+      case 'draw':
+      case 'polyline': {
+        const { shape, origin } = gesture;
+        if (shape.type === 'pen') {
+          // Freehand strokes follow the pointer exactly
+          setGesture({ ...gesture, shape: { ...shape, path: [...(shape.path || []), ...getPenPoints(e)] } });
           break;
+        }
+        // Corners and end points snap
+        const point = getSnappedPoint(e, pointer);
+        if (isLinear(shape.type)) {
+          const placed = placeLineEnd(e, origin, shape, point, pointer);
+          setGesture({ ...gesture, shape: placed.shape, bindTargetId: placed.targetId });
+        } else {
+          // Equal width and height when holding Shift (desktop) or when close to it on mobile
+          const square = isShiftPressed || (isMobile && Math.abs((point.x - origin.x) - (point.y - origin.y)) < 50);
+          setGesture({ ...gesture, shape: sizeDrawnShape(shape, origin, point, square) });
+        }
+        break;
       }
-      
-      setCurrentShape(updatedShape);
     }
   };
 
-  const shouldSnapToAngle = (dx: number, dy: number): boolean => {
-    const angle = Math.atan2(dy, dx);
-    const snapAngle = Math.round(angle / (Math.PI / 4)) * (Math.PI / 4);
-    const actualAngle = Math.atan2(dy, dx);
-    return Math.abs(actualAngle - snapAngle) < 0.2; // ~11 degrees tolerance
+  // Move the end of the line or arrow being drawn from `origin` to a snapped point. Lines keep to 45
+  // degree steps from the point before the end when holding Shift, or on mobile when close to one.
+  const placeLineEnd = (
+    e: React.PointerEvent,
+    origin: { x: number; y: number },
+    shape: Shape,
+    point: { x: number; y: number },
+    pointer: { x: number; y: number }
+  ) => {
+    const snapAngle = isShiftPressed ||
+      (isMobile && e.pointerType === 'touch' && isNearAngleStep(point.x - origin.x, point.y - origin.y));
+    return placeLinearEnd(shapes, shape, origin, point, pointer, {
+      snapAngle,
+      bindTolerance: getBindTolerance(),
+    });
+  };
+
+  const getBindTolerance = () => (isMobile ? 16 : 10) / viewport.zoom;
+
+  // Shapes the eraser crosses are marked and removed when it's lifted
+  const getEraseOptions = () => ({
+    mode: eraserMode,
+    radius: ERASER_RADIUS / viewport.zoom,
+    tolerance: getPickTolerance(),
+    simplifyTolerance: PEN_SIMPLIFY_TOLERANCE / viewport.zoom,
+    editingGroupId,
+  });
+
+  // Snapping follows the grid when grid snapping is on, otherwise the edges and centers of other shapes
+  const getSnapSettings = (e: React.PointerEvent): SnapSettings => ({
+    enabled: !isSnapDisabled(e),
+    gridSize: gridSnap ? getGridSize(isMobile) : null,
+    threshold: SNAP_DISTANCE / viewport.zoom,
+  });
+
+  // Snap a point being drawn or dragged, showing the guides it lined up with
+  const getSnappedPoint = (
+    e: React.PointerEvent,
+    point: { x: number; y: number },
+    excludeIds: string[] = []
+  ) => {
+    const snap = snapPointTo(point, getSnapTargets(shapes, excludeIds), getSnapSettings(e));
+    setSnapGuides(snap.guides);
+    return { x: point.x + snap.dx, y: point.y + snap.dy };
   };
 
-  const handlePointerUp = (e: React.MouseEvent | React.TouchEvent) => {
+  const handlePointerUp = (e: React.PointerEvent) => {
     e.preventDefault();
-    
-    if (isDrawing && currentShape) {
-      const newShapes = [...shapes, currentShape];
-      setShapes(newShapes);
-      saveToHistory(newShapes);
-      setCurrentShape(null);
-      setIsDrawing(false);
-      setPenPath([]);
-    } else if (selectedTool === 'select' && selectedShapeId) {
-      // Save history when a shape is moved
-      saveToHistory(shapes);
-    }
-    setSelectedShapeId(null);
+    pointers.release(e.pointerId);
+    pointers.cancelLongPress();
+    setSnapGuides([]);
+
+    const ended = endGesture(scene, gesture, {
+      pressedCount: pointers.count(),
+      hitRadius: getHitRadius(),
+      simplifyTolerance: PEN_SIMPLIFY_TOLERANCE / viewport.zoom,
+    });
+    setGesture(ended.gesture);
+    if (ended.textDraft) startTextEditing(ended.textDraft, true);
+  };
+
+  const selectedShapes = shapes.filter((shape) => selectedShapeIds.includes(shape.id));
+
+  // Style edits apply to the selected shapes and become the defaults for new shapes
+  const handleStyleChange = (updates: Partial<ShapeStyle>, recordHistory = true) => {
+    setStyleDefaults((prev) => ({ ...prev, ...updates }));
+    if (selectedShapes.length === 0) return;
+    applyStyle(scene, updates, { record: recordHistory });
+  };
+
+  // Hand-drawn settings of the selection; new shapes take theirs from the toolbar
+  const handleSketchChange = (updates: Partial<SketchOptions>, recordHistory = true) =>
+    applySketchOptions(scene, updates, { record: recordHistory });
+
+  // Record a continuous edit (slider or color picker) once the user lets go
+  const commitStyle = () => commitShapes();
+
+  // How close a press has to be to a handle or point to count as on it
+  const getHitRadius = () => (isMobile ? 16 : 8) / viewport.zoom;
+
+  const getHandleAt = (x: number, y: number): TransformHandle | null =>
+    findHandleAt(getSelectionHandles(selectedShapes, viewport.zoom), { x, y }, getHitRadius());
+
+  // Resize cursors follow the shape's rotation
+  const getHandleCursor = (handle: TransformHandle) => {
+    const direction = HANDLE_DIRECTIONS[handle];
+    if (direction === undefined) return handle === 'rotation' ? 'grab' : 'move';
+    const angle = selectedShapes.length === 1 ? getShapeAngle(selectedShapes[0]) : 0;
+    const steps = Math.round(direction + angle / (Math.PI / 4));
+    return RESIZE_CURSORS[((steps % 4) + 4) % 4];
   };
 
   const getCursorStyle = (tool: string, x: number, y: number): string => {
     if (isMobile) return 'default'; // Mobile doesn't need cursor changes
     
     switch (tool) {
-      case 'select':
-        // Check if hovering over a shape
-        for (let i = shapes.length - 1; i >= 0; i--) {
-          if (isInsideShape(x, y, shapes[i])) {
-            return 'move';
-          }
-        }
-        return 'default';
+      case 'select': {
+        if (gesture.type === 'transform') return getHandleCursor(gesture.handle);
+        const handle = getHandleAt(x, y);
+        if (handle) return getHandleCursor(handle);
+        return getShapeAt(x, y) ? 'move' : 'default';
+      }
       case 'pen':
         return 'crosshair';
       case 'text':
@@ -347,233 +1067,198 @@ const Canvas: React.FC<CanvasProps> = ({ selectedTool, onHistoryChange }) => {
     }
   };
 
-  const isInsideShape = (x: number, y: number, shape: Shape): boolean => {
-    // Increase touch tolerance for mobile
-    const tolerance = isMobile ? 15 : 8;
-    
-    switch (shape.type) {
-      case 'rectangle':
-        const width = shape.width || 0;
-        const height = shape.height || 0;
-        const minX = width < 0 ? shape.x + width : shape.x;
-        const maxX = width < 0 ? shape.x : shape.x + width;
-        const minY = height < 0 ? shape.y + height : shape.y;
-        const maxY = height < 0 ? shape.y : shape.y + height;
-        return x >= minX - tolerance && x <= maxX + tolerance && 
-               y >= minY - tolerance && y <= maxY + tolerance;
-        
-      case 'circle':
-        const dx = x - shape.x;
-        const dy = y - shape.y;
-        return Math.sqrt(dx * dx + dy * dy) <= (shape.radius || 0) + tolerance;
-        
-      case 'line':
-      case 'arrow':
-        const distance = pointToLineDistance(
-          x, y, shape.x, shape.y, shape.x2 || 0, shape.y2 || 0
-        );
-        return distance < tolerance;
-        
-      case 'pen':
-        if (!shape.path) return false;
-        for (let i = 0; i < shape.path.length - 1; i++) {
-          const dist = pointToLineDistance(
-            x, y, 
-            shape.path[i].x, shape.path[i].y,
-            shape.path[i + 1].x, shape.path[i + 1].y
-          );
-          if (dist < tolerance) return true;
-        }
-        return false;
-        
-      default:
-        return false;
-    }
-  };
+  // Increase touch tolerance for mobile; tolerance is in screen pixels regardless of zoom
+  const getPickTolerance = () => (isMobile ? 15 : 8) / viewport.zoom;
 
-  const pointToLineDistance = (
-    x: number, y: number, x1: number, y1: number, x2: number, y2: number
-  ): number => {
-    const A = x - x1;
-    const B = y - y1;
-    const C = x2 - x1;
-    const D = y2 - y1;
-
-    const dot = A * C + B * D;
-    const len_sq = C * C + D * D;
-    let param = -1;
-    if (len_sq !== 0) param = dot / len_sq;
-
-    let xx, yy;
-    if (param < 0) {
-      xx = x1; yy = y1;
-    } else if (param > 1) {
-      xx = x2; yy = y2;
-    } else {
-      xx = x1 + param * C;
-      yy = y1 + param * D;
-    }
+  const isInsideShape = (x: number, y: number, shape: Shape): boolean =>
+    isPointInShape(shape, { x, y }, getPickTolerance());
 
-    const dx = x - xx;
-    const dy = y - yy;
-    return Math.sqrt(dx * dx + dy * dy);
-  };
+  // Top-most shape under the point that passes `filter`
+  const getShapeAt = (x: number, y: number, filter: (shape: Shape) => boolean = () => true): Shape | null =>
+    scene.getShapeAt({ x, y }, getPickTolerance(), filter);
 
-  const drawAllShapes = (context: CanvasRenderingContext2D) => {
-    shapes.forEach((shape) => drawShape(context, shape, shape.id === selectedShapeId));
-  };
+  // Everything drawing reads is listed below, so the canvas only redraws when one of them changes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
 
-  const drawShape = (context: CanvasRenderingContext2D, shape: Shape, isSelected: boolean = false) => {
-    context.save();
-    
-    // Style settings - adjust for mobile
-    const lineWidth = isMobile ? (isSelected ? 3 : 2) : (isSelected ? 2 : 1.5);
-    context.strokeStyle = isSelected ? '#4285f4' : '#1a1a1a';
-    context.lineWidth = lineWidth;
-    context.lineCap = 'round';
-    context.lineJoin = 'round';
-    
-    if (isSelected) {
-      context.setLineDash([5, 5]);
-    }
+    const renderOptions: ShapeRenderOptions = {
+      renderMode,
+      arrowHeadLength: isMobile ? 20 : 15,
+      fadedIds: gesture.type === 'erase' ? gesture.erasingIds : [],
+      croppingId,
+      onImageLoad: () => {
+        staticLayer.invalidate();
+        setLoadedImageCount((count) => count + 1);
+      },
+    };
 
-    context.beginPath();
-    
-    switch (shape.type) {
-      case 'rectangle':
-        context.rect(shape.x, shape.y, shape.width || 0, shape.height || 0);
-        break;
-        
-      case 'circle':
-        context.arc(shape.x, shape.y, shape.radius || 0, 0, 2 * Math.PI);
-        break;
-        
-      case 'line':
-        context.moveTo(shape.x, shape.y);
-        context.lineTo(shape.x2 || shape.x, shape.y2 || shape.y);
-        break;
-        
-      case 'arrow':
-        const x2 = shape.x2 || shape.x;
-        const y2 = shape.y2 || shape.y;
-        
-        // Draw line
-        context.moveTo(shape.x, shape.y);
-        context.lineTo(x2, y2);
-        
-        // Draw arrowhead - larger for mobile
-        const angle = Math.atan2(y2 - shape.y, x2 - shape.x);
-        const headLength = isMobile ? 20 : 15;
-        
-        context.moveTo(x2, y2);
-        context.lineTo(
-          x2 - headLength * Math.cos(angle - Math.PI / 6),
-          y2 - headLength * Math.sin(angle - Math.PI / 6)
-        );
-        context.moveTo(x2, y2);
-        context.lineTo(
-          x2 - headLength * Math.cos(angle + Math.PI / 6),
-          y2 - headLength * Math.sin(angle + Math.PI / 6)
-        );
-        break;
-        
-      case 'pen':
-        if (shape.path && shape.path.length > 1) {
-          context.moveTo(shape.path[0].x, shape.path[0].y);
-          for (let i = 1; i < shape.path.length; i++) {
-            context.lineTo(shape.path[i].x, shape.path[i].y);
-          }
-        }
-        break;
-    }
-    
-    context.stroke();
-    context.restore();
-  };
+    // Shapes outside the view are skipped; the inline editor renders the text being edited
+    const visibleShapes = scene
+      .getShapesIn(growBounds(getVisibleArea(viewport, canvasSize.width, canvasSize.height), CULL_MARGIN))
+      .filter((shape) => !(editingText && shape.id === editingText.shape.id));
+    const view = {
+      viewport,
+      width: canvas.width,
+      height: canvas.height,
+      background,
+      gridSize: showGrid ? getGridSize(isMobile) : null,
+    };
+    const layer = staticLayer.get(visibleShapes, view, renderOptions, gesture.type === 'move' || gesture.type === 'transform');
 
-  const redrawCanvas = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const context = canvas.getContext('2d');
-    if (!context) return;
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(layer.canvas, 0, 0);
 
-    // Clear canvas with light background
-    context.fillStyle = '#fafafa';
-    context.fillRect(0, 0, canvas.width, canvas.height);
-    
-    // Draw grid - smaller on mobile
-    drawGrid(context, canvas.width, canvas.height);
-    
-    drawAllShapes(context);
-    
-    if (currentShape) {
-      drawShape(context, currentShape);
+    // Everything below is drawn in scene coordinates
+    context.setTransform(viewport.zoom, 0, 0, viewport.zoom, viewport.offsetX, viewport.offsetY);
+    visibleShapes.slice(layer.shapes.length).forEach((shape) => drawShape(context, shape, renderOptions));
+    if (gesture.type === 'draw' || gesture.type === 'polyline') {
+      drawShape(context, gesture.shape, renderOptions);
     }
-  }, [shapes, currentShape, selectedShapeId, isMobile]);
 
-  const drawGrid = (context: CanvasRenderingContext2D, width: number, height: number) => {
-    const gridSize = isMobile ? 15 : 20;
-    context.strokeStyle = '#e5e5e5';
-    context.lineWidth = 0.5;
-    
-    for (let x = 0; x <= width; x += gridSize) {
-      context.beginPath();
-      context.moveTo(x, 0);
-      context.lineTo(x, height);
-      context.stroke();
-    }
-    
-    for (let y = 0; y <= height; y += gridSize) {
-      context.beginPath();
-      context.moveTo(0, y);
-      context.lineTo(width, y);
-      context.stroke();
-    }
-  };
+    const selected = shapes.filter((shape) => selectedShapeIds.includes(shape.id));
+    drawOverlay(context, {
+      zoom: viewport.zoom,
+      touch: isMobile,
+      selectedShapes: selected,
+      handles: getSelectionHandles(selected, viewport.zoom),
+      editingGroup: editingGroupId ? shapes.filter((shape) => isInGroup(shape, editingGroupId)) : [],
+      collaborators: collaborators.map(({ selectedIds, color, idle }) => ({
+        shapes: shapes.filter((shape) => selectedIds.includes(shape.id)),
+        color,
+        idle,
+      })),
+      bindTarget: 'bindTargetId' in gesture ? shapes.find((shape) => shape.id === gesture.bindTargetId) ?? null : null,
+      snapGuides,
+      marquee: gesture.type === 'marquee' ? gesture.box : null,
+      eraserTrail: gesture.type === 'erase' ? gesture.trail : null,
+      eraserRadius: ERASER_RADIUS,
+    });
 
-  useEffect(() => {
-    redrawCanvas();
-  }, [redrawCanvas]);
+    context.setTransform(1, 0, 0, 1, 0, 0);
+  }, [
+    scene,
+    shapes,
+    selectedShapeIds,
+    staticLayer,
+    viewport,
+    canvasSize,
+    background,
+    showGrid,
+    renderMode,
+    isMobile,
+    loadedImageCount,
+    croppingId,
+    editingText,
+    gesture,
+    editingGroupId,
+    collaborators,
+    snapGuides,
+  ]);
 
   return (
-    <div style={{ 
-      width: '100vw', 
-      height: '100vh', 
-      overflow: 'hidden',
-      position: 'relative'
-    }}>
+    <div
+      style={{ 
+        width: '100vw', 
+        height: '100vh', 
+        overflow: 'hidden',
+        position: 'relative'
+      }}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDraggingFile(false)}
+      onDrop={handleDrop}
+    >
       <canvas
         ref={canvasRef}
         style={{ 
           display: 'block',
-          background: '#fafafa',
+          background,
           touchAction: 'none', // Prevent touch scrolling and zooming
           WebkitTouchCallout: 'none', // Prevent iOS touch callout
           WebkitUserSelect: 'none', // Prevent text selection
           userSelect: 'none'
         }}
-        // Mouse events
-        onMouseDown={handlePointerDown}
-        onMouseMove={handlePointerMove}
-        onMouseUp={handlePointerUp}
-        onMouseLeave={() => {
-          if (isDrawing) {
-            handlePointerUp({} as React.MouseEvent);
-          }
-        }}
-        // Touch events
-        onTouchStart={handlePointerDown}
-        onTouchMove={handlePointerMove}
-        onTouchEnd={handlePointerUp}
-        onTouchCancel={() => {
-          if (isDrawing) {
-            handlePointerUp({} as React.TouchEvent);
-          }
+        // Pointer events cover mouse, touch and stylus
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => {
+          lastPointerRef.current = null;
+          onCursorMove?.(null);
         }}
+        onDoubleClick={handleDoubleClick}
+        onContextMenu={handleContextMenu}
       />
       
+      {collaborators.length > 0 && <CollaboratorCursors collaborators={collaborators} viewport={viewport} />}
+
+      {editingText && (
+        <TextEditor
+          viewport={viewport}
+          shape={editingText.shape}
+          onChange={updateTextEditing}
+          onCommit={commitTextEditing}
+        />
+      )}
+
+      {(selectedShapes.length > 0 || (selectedTool !== 'select' && selectedTool !== 'eraser')) && (
+        <StylePanel
+          shapeTypes={selectedShapes.length > 0 ? selectedShapes.map((shape) => shape.type) : [selectedTool as ShapeType]}
+          style={selectedShapes.length > 0 ? getShapeStyle(selectedShapes[0]) : styleDefaults}
+          onChange={handleStyleChange}
+          onChangeComplete={commitStyle}
+          sketchOptions={renderMode === 'sketchy' && selectedShapes.length > 0 ? getSketchOptions(selectedShapes[0]) : undefined}
+          onSketchChange={handleSketchChange}
+        />
+      )}
+
+      <ZoomControls
+        zoom={viewport.zoom}
+        onZoomIn={() => zoomAtCenter((zoom) => zoom * ZOOM_STEP)}
+        onZoomOut={() => zoomAtCenter((zoom) => zoom / ZOOM_STEP)}
+        onReset={() => zoomAtCenter(() => 1)}
+        onFitToContent={() => fitToContent()}
+      />
+
+      {showExportDialog && (
+        <ExportDialog
+          hasSelection={selectedShapeIds.length > 0}
+          onExport={handleExport}
+          onClose={() => setShowExportDialog(false)}
+        />
+      )}
+
+      {contextMenu && (
+        <ContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          items={getContextMenuItems(contextMenu)}
+          onClose={closeContextMenu}
+        />
+      )}
+
+      {importReport && (
+        <ImportReportDialog report={importReport} onClose={() => setImportReport(null)} />
+      )}
+
+      {/* Drop target highlight while dragging a file over the canvas */}
+      {isDraggingFile && (
+        <div style={{
+          position: 'absolute',
+          inset: '12px',
+          border: '2px dashed #4285f4',
+          borderRadius: '16px',
+          background: 'rgba(66, 133, 244, 0.06)',
+          pointerEvents: 'none',
+          zIndex: 900
+        }} />
+      )}
+
       {/* Mobile indicator for selected shapes */}
-      {isMobile && selectedShapeId && (
+      {isMobile && selectedShapeIds.length > 0 && (
         <div style={{
           position: 'absolute',
           top: '10px',
@@ -588,7 +1273,7 @@ const Canvas: React.FC<CanvasProps> = ({ selectedTool, onHistoryChange }) => {
           zIndex: 1000,
           pointerEvents: 'none'
         }}>
-          Shape Selected - Double tap to deselect
+          {selectedShapeIds.length > 1 ? `${selectedShapeIds.length} Shapes Selected` : 'Shape Selected'} - Double tap to deselect
         </div>
       )}
     </div>
@@ -0,0 +1,266 @@
+// src/components/CollaborationDialog.tsx
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faTimes } from '@fortawesome/free-solid-svg-icons';
+import { COLLABORATOR_COLORS } from '../hooks/useCollaboration';
+import type { Collaboration } from '../hooks/useCollaboration';
+import type { CollaborationStatus } from '../types/Collaboration';
+
+interface CollaborationDialogProps {
+  collaboration: Collaboration;
+  // Whether there's a local drawing that joining a room with content of its own would replace
+  hasDrawing: boolean;
+  onSaveDrawing: () => void;
+  onClose: () => void;
+}
+
+const DEFAULT_RELAY_URL = `ws://${window.location.hostname || 'localhost'}:8787`;
+
+const statusLabels: Record<CollaborationStatus, string> = {
+  offline: 'Not connected',
+  connecting: 'Connecting…',
+  connected: 'Connected',
+  reconnecting: 'Connection lost, reconnecting…',
+};
+
+const CollaborationDialog: React.FC<CollaborationDialogProps> = ({ collaboration, hasDrawing, onSaveDrawing, onClose }) => {
+  const { status, session, join, leave, profile, setProfile } = collaboration;
+  const [relayUrl, setRelayUrl] = useState(session?.relayUrl ?? DEFAULT_RELAY_URL);
+  const [room, setRoom] = useState(session?.room ?? '');
+  // Set while asking whether to join with a drawing the room's scene may replace
+  const [confirming, setConfirming] = useState(false);
+  const canJoin = relayUrl.trim() !== '' && room.trim() !== '';
+
+  const joinRoom = () => {
+    setConfirming(false);
+    join({ relayUrl: relayUrl.trim(), room: room.trim() });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Collaborate</h2>
+          <button className="close-button" onClick={onClose}>
+            <FontAwesomeIcon icon={faTimes} />
+          </button>
+        </div>
+        <div className="modal-body">
+          <p className="collab-hint">
+            Everyone who joins the same room on the same relay edits one shared scene. Start the relay
+            with <code>npm run relay</code>.
+          </p>
+
+          <label className="collab-row">
+            <span className="collab-label">Relay</span>
+            <input
+              className="collab-input"
+              value={relayUrl}
+              onChange={(e) => setRelayUrl(e.target.value)}
+              disabled={!!session}
+            />
+          </label>
+
+          <label className="collab-row">
+            <span className="collab-label">Room</span>
+            <input
+              className="collab-input"
+              value={room}
+              placeholder="e.g. team-sketch"
+              onChange={(e) => setRoom(e.target.value)}
+              disabled={!!session}
+            />
+          </label>
+
+          <label className="collab-row">
+            <span className="collab-label">Name</span>
+            <input
+              className="collab-input"
+              value={profile.name}
+              maxLength={40}
+              onChange={(e) => setProfile({ ...profile, name: e.target.value })}
+            />
+          </label>
+
+          <div className="collab-row">
+            <span className="collab-label">Color</span>
+            <div className="collab-colors">
+              {COLLABORATOR_COLORS.map((color) => (
+                <button
+                  key={color}
+                  className={`collab-color ${profile.color === color ? 'active' : ''}`}
+                  style={{ background: color }}
+                  onClick={() => setProfile({ ...profile, color })}
+                  title={color}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className={`collab-status ${status}`}>{statusLabels[status]}</div>
+
+          {session ? (
+            <button className="collab-submit leave" onClick={leave}>
+              Leave room
+            </button>
+          ) : confirming ? (
+            <div className="collab-confirm">
+              <p>
+                If this room already has a drawing, it replaces yours, and that can't be undone. Save a
+                copy of your drawing first to keep it.
+              </p>
+              <div className="collab-confirm-actions">
+                <button className="collab-secondary" onClick={onSaveDrawing}>
+                  Save a copy
+                </button>
+                <button className="collab-secondary" onClick={() => setConfirming(false)}>
+                  Cancel
+                </button>
+                <button className="collab-submit" onClick={joinRoom}>
+                  Join anyway
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              className="collab-submit"
+              onClick={() => (hasDrawing ? setConfirming(true) : joinRoom())}
+              disabled={!canJoin}
+            >
+              Join room
+            </button>
+          )}
+        </div>
+      </div>
+
+      <style>{`
+        .collab-hint {
+          margin: 0 0 16px;
+          color: #5f6368;
+          font-size: 13px;
+          line-height: 1.5;
+        }
+
+        .collab-row {
+          display: flex;
+          align-items: center;
+          gap: 12px;
+          margin-bottom: 12px;
+          color: #202124;
+          font-size: 14px;
+        }
+
+        .collab-label {
+          width: 64px;
+          color: #5f6368;
+        }
+
+        .collab-input {
+          flex: 1;
+          padding: 6px 10px;
+          border: 1px solid #e1e5e9;
+          border-radius: 6px;
+          font-size: 13px;
+        }
+
+        .collab-input:disabled {
+          background: #f8f9fa;
+          color: #5f6368;
+        }
+
+        .collab-colors {
+          display: flex;
+          gap: 6px;
+        }
+
+        .collab-color {
+          width: 22px;
+          height: 22px;
+          border: 2px solid transparent;
+          border-radius: 50%;
+          cursor: pointer;
+        }
+
+        .collab-color.active {
+          box-shadow: 0 0 0 2px #ffffff, 0 0 0 4px #202124;
+        }
+
+        .collab-status {
+          margin-bottom: 16px;
+          font-size: 13px;
+          color: #5f6368;
+        }
+
+        .collab-status.connected {
+          color: #188038;
+        }
+
+        .collab-status.reconnecting {
+          color: #b06000;
+        }
+
+        .collab-submit {
+          width: 100%;
+          padding: 10px;
+          border: none;
+          border-radius: 8px;
+          background: #4285f4;
+          color: white;
+          font-size: 14px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.15s ease;
+        }
+
+        .collab-submit:hover:not(:disabled) {
+          background: #3367d6;
+        }
+
+        .collab-submit:disabled {
+          opacity: 0.4;
+          cursor: not-allowed;
+        }
+
+        .collab-confirm p {
+          margin: 0 0 12px;
+          color: #b06000;
+          font-size: 13px;
+          line-height: 1.5;
+        }
+
+        .collab-confirm-actions {
+          display: flex;
+          gap: 8px;
+        }
+
+        .collab-confirm-actions .collab-submit {
+          flex: 1;
+        }
+
+        .collab-secondary {
+          padding: 10px 12px;
+          border: 1px solid #e1e5e9;
+          border-radius: 8px;
+          background: white;
+          color: #202124;
+          font-size: 14px;
+          cursor: pointer;
+        }
+
+        .collab-secondary:hover {
+          background: #f8f9fa;
+        }
+
+        .collab-submit.leave {
+          background: #5f6368;
+        }
+
+        .collab-submit.leave:hover {
+          background: #3c4043;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default CollaborationDialog;
@@ -0,0 +1,64 @@
+// src/components/CollaboratorCursors.tsx
+import React from 'react';
+import type { Collaborator } from '../types/Collaboration';
+import type { Viewport } from '../types/Viewport';
+
+interface CollaboratorCursorsProps {
+  collaborators: Collaborator[];
+  viewport: Viewport;
+}
+
+// Everyone else's pointer with their name, drawn over the canvas in their color
+const CollaboratorCursors: React.FC<CollaboratorCursorsProps> = ({ collaborators, viewport }) => (
+  <div className="collaborator-cursors">
+    {collaborators.map(({ clientId, name, color, cursor, idle }) => cursor && (
+      <div
+        key={clientId}
+        className={`collaborator-cursor ${idle ? 'idle' : ''}`}
+        style={{
+          transform: `translate(${cursor.x * viewport.zoom + viewport.offsetX}px, ${cursor.y * viewport.zoom + viewport.offsetY}px)`,
+        }}
+      >
+        <svg width="18" height="18" viewBox="0 0 18 18">
+          <path d="M2 2 L2 15 L6 11 L9 17 L11.5 16 L8.5 10 L14 10 Z" fill={color} stroke="#ffffff" strokeWidth="1.5" strokeLinejoin="round" />
+        </svg>
+        <span className="collaborator-name" style={{ background: color }}>{name}</span>
+      </div>
+    ))}
+
+    <style>{`
+      .collaborator-cursors {
+        position: absolute;
+        inset: 0;
+        overflow: hidden;
+        pointer-events: none;
+        z-index: 800;
+      }
+
+      .collaborator-cursor {
+        position: absolute;
+        top: 0;
+        left: 0;
+        transition: transform 0.08s linear, opacity 0.6s ease;
+      }
+
+      .collaborator-cursor.idle {
+        opacity: 0.25;
+      }
+
+      .collaborator-name {
+        position: absolute;
+        top: 16px;
+        left: 12px;
+        padding: 2px 6px;
+        border-radius: 4px;
+        color: white;
+        font-size: 11px;
+        font-weight: 500;
+        white-space: nowrap;
+      }
+    `}</style>
+  </div>
+);
+
+export default CollaboratorCursors;
@@ -0,0 +1,179 @@
+// src/components/ContextMenu.tsx
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { ContextMenuItem } from '../types/Menu';
+
+interface ContextMenuProps {
+  x: number; // screen position the menu opens at
+  y: number;
+  items: ContextMenuItem[];
+  onClose: () => void;
+}
+
+const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, items, onClose }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [position, setPosition] = useState({ x, y });
+
+  // Keep the menu on screen when opened near the right or bottom edge
+  useLayoutEffect(() => {
+    const menu = menuRef.current;
+    if (!menu) return;
+    const { width, height } = menu.getBoundingClientRect();
+    setPosition({
+      x: Math.max(0, Math.min(x, window.innerWidth - width - 4)),
+      y: Math.max(0, Math.min(y, window.innerHeight - height - 4)),
+    });
+  }, [x, y]);
+
+  // Focus the first item so the menu can be used from the keyboard right away
+  useEffect(() => {
+    menuRef.current?.querySelector<HTMLButtonElement>('.context-menu-item:not(:disabled)')?.focus();
+  }, []);
+
+  // Close on any press outside the menu, or when the window changes
+  useEffect(() => {
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) onClose();
+    };
+
+    window.addEventListener('pointerdown', handlePointerDown, true);
+    window.addEventListener('resize', onClose);
+    window.addEventListener('blur', onClose);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown, true);
+      window.removeEventListener('resize', onClose);
+      window.removeEventListener('blur', onClose);
+    };
+  }, [onClose]);
+
+  // Arrow keys, Home and End move between the enabled items; Enter or Space picks one.
+  // Keys stop here so the canvas shortcuts don't act on the selection behind the menu.
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === 'Escape' || e.key === 'Tab') {
+      e.preventDefault();
+      onClose();
+      return;
+    }
+
+    const buttons = Array.from(
+      menuRef.current?.querySelectorAll<HTMLButtonElement>('.context-menu-item:not(:disabled)') ?? []
+    );
+    if (buttons.length === 0) return;
+    const current = buttons.indexOf(document.activeElement as HTMLButtonElement);
+
+    let next: number;
+    switch (e.key) {
+      case 'ArrowDown':
+        next = (current + 1) % buttons.length;
+        break;
+      case 'ArrowUp':
+        next = current <= 0 ? buttons.length - 1 : current - 1;
+        break;
+      case 'Home':
+        next = 0;
+        break;
+      case 'End':
+        next = buttons.length - 1;
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+    buttons[next].focus();
+  };
+
+  return (
+    <div
+      ref={menuRef}
+      className="context-menu"
+      role="menu"
+      style={{ left: position.x, top: position.y }}
+      onKeyDown={handleKeyDown}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {items.map((item, index) =>
+        item === 'separator' ? (
+          <div key={index} className="context-menu-separator" role="separator" />
+        ) : (
+          <button
+            key={index}
+            className="context-menu-item"
+            role={item.checked === undefined ? 'menuitem' : 'menuitemcheckbox'}
+            aria-checked={item.checked}
+            disabled={item.disabled}
+            onClick={() => {
+              item.onSelect();
+              onClose();
+            }}
+          >
+            <span>
+              {item.checked !== undefined && <span className="context-menu-check">{item.checked ? '✓' : ''}</span>}
+              {item.label}
+            </span>
+            {item.shortcut && <kbd>{item.shortcut}</kbd>}
+          </button>
+        )
+      )}
+
+      <style>{`
+        .context-menu {
+          position: fixed;
+          z-index: 1100;
+          min-width: 200px;
+          padding: 4px;
+          background: #ffffff;
+          border: 1px solid #e1e5e9;
+          border-radius: 10px;
+          box-shadow: 0 4px 16px rgba(0, 0, 0, 0.12);
+          user-select: none;
+        }
+
+        .context-menu-item {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: 24px;
+          width: 100%;
+          padding: 6px 10px;
+          border: none;
+          border-radius: 6px;
+          background: transparent;
+          color: #202124;
+          font-size: 13px;
+          text-align: left;
+          cursor: pointer;
+        }
+
+        .context-menu-item:hover:not(:disabled),
+        .context-menu-item:focus-visible {
+          background: #f8f9fa;
+          outline: none;
+        }
+
+        .context-menu-check {
+          display: inline-block;
+          width: 16px;
+        }
+
+        .context-menu-item:disabled {
+          opacity: 0.4;
+          cursor: default;
+        }
+
+        .context-menu-item kbd {
+          color: #5f6368;
+          font-family: inherit;
+          font-size: 12px;
+        }
+
+        .context-menu-separator {
+          height: 1px;
+          margin: 4px 6px;
+          background: #e1e5e9;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default ContextMenu;
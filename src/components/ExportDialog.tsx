@@ -0,0 +1,187 @@
+// src/components/ExportDialog.tsx
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faTimes } from '@fortawesome/free-solid-svg-icons';
+import type { ExportFormat, ExportOptions } from '../types/Export';
+
+interface ExportDialogProps {
+  hasSelection: boolean;
+  onExport: (options: ExportOptions) => void;
+  onClose: () => void;
+}
+
+const formats: { id: ExportFormat; label: string }[] = [
+  { id: 'png', label: 'PNG' },
+  { id: 'svg', label: 'SVG' },
+];
+
+const scales = [1, 2, 3];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ hasSelection, onExport, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>({
+    format: 'png',
+    scale: 2,
+    transparentBackground: false,
+    includeGrid: false,
+    onlySelected: hasSelection,
+  });
+
+  const update = (updates: Partial<ExportOptions>) => setOptions((prev) => ({ ...prev, ...updates }));
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Export image</h2>
+          <button className="close-button" onClick={onClose}>
+            <FontAwesomeIcon icon={faTimes} />
+          </button>
+        </div>
+        <div className="modal-body">
+          <div className="export-row">
+            <span className="export-label">Format</span>
+            <div className="export-options">
+              {formats.map(({ id, label }) => (
+                <button
+                  key={id}
+                  className={`export-option ${options.format === id ? 'active' : ''}`}
+                  onClick={() => update({ format: id })}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {options.format === 'png' && (
+            <div className="export-row">
+              <span className="export-label">Scale</span>
+              <div className="export-options">
+                {scales.map((scale) => (
+                  <button
+                    key={scale}
+                    className={`export-option ${options.scale === scale ? 'active' : ''}`}
+                    onClick={() => update({ scale })}
+                  >
+                    {scale}x
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="export-row">
+            <span className="export-label">Area</span>
+            <div className="export-options">
+              <button
+                className={`export-option ${!options.onlySelected ? 'active' : ''}`}
+                onClick={() => update({ onlySelected: false })}
+              >
+                Whole scene
+              </button>
+              <button
+                className={`export-option ${options.onlySelected ? 'active' : ''}`}
+                onClick={() => update({ onlySelected: true })}
+                disabled={!hasSelection}
+                title={hasSelection ? undefined : 'Select shapes to export only them'}
+              >
+                Selection
+              </button>
+            </div>
+          </div>
+
+          <label className="export-row export-checkbox">
+            <input
+              type="checkbox"
+              checked={options.transparentBackground}
+              onChange={(e) => update({ transparentBackground: e.target.checked })}
+            />
+            <span>Transparent background</span>
+          </label>
+
+          <label className="export-row export-checkbox">
+            <input
+              type="checkbox"
+              checked={options.includeGrid}
+              onChange={(e) => update({ includeGrid: e.target.checked })}
+            />
+            <span>Include grid</span>
+          </label>
+
+          <button className="export-submit" onClick={() => onExport(options)}>
+            Export {options.format.toUpperCase()}
+          </button>
+        </div>
+      </div>
+
+      <style>{`
+        .export-row {
+          display: flex;
+          align-items: center;
+          gap: 12px;
+          margin-bottom: 16px;
+          color: #202124;
+          font-size: 14px;
+        }
+
+        .export-label {
+          width: 64px;
+          color: #5f6368;
+        }
+
+        .export-options {
+          display: flex;
+          gap: 4px;
+        }
+
+        .export-option {
+          padding: 6px 12px;
+          border: 1px solid #e1e5e9;
+          border-radius: 6px;
+          background: transparent;
+          cursor: pointer;
+          font-size: 13px;
+          transition: all 0.15s ease;
+        }
+
+        .export-option:hover:not(:disabled) {
+          background: #f8f9fa;
+        }
+
+        .export-option.active {
+          background: #5f6368;
+          border-color: #5f6368;
+          color: white;
+        }
+
+        .export-option:disabled {
+          opacity: 0.4;
+          cursor: not-allowed;
+        }
+
+        .export-checkbox {
+          cursor: pointer;
+        }
+
+        .export-submit {
+          width: 100%;
+          padding: 10px;
+          border: none;
+          border-radius: 8px;
+          background: #4285f4;
+          color: white;
+          font-size: 14px;
+          font-weight: 600;
+          cursor: pointer;
+          transition: all 0.15s ease;
+        }
+
+        .export-submit:hover {
+          background: #3367d6;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default ExportDialog;
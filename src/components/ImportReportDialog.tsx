@@ -0,0 +1,110 @@
+// src/components/ImportReportDialog.tsx
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faTimes } from '@fortawesome/free-solid-svg-icons';
+import type { DocumentIssue } from '../types/Document';
+
+export interface ImportReport {
+  fileName: string;
+  error?: string; // the file could not be opened at all
+  importedCount: number;
+  issues: DocumentIssue[];
+}
+
+interface ImportReportDialogProps {
+  report: ImportReport;
+  onClose: () => void;
+}
+
+const describeShape = (issue: DocumentIssue) =>
+  issue.shapeId ? `Shape #${issue.shapeIndex + 1} (${issue.shapeId})` : `Shape #${issue.shapeIndex + 1}`;
+
+const ImportReportDialog: React.FC<ImportReportDialogProps> = ({ report, onClose }) => {
+  const rejectedShapes = report.issues.filter((issue) => !issue.field);
+  const droppedFields = report.issues.filter((issue) => issue.field);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{report.error ? 'Could not open file' : 'File opened with problems'}</h2>
+          <button className="close-button" onClick={onClose}>
+            <FontAwesomeIcon icon={faTimes} />
+          </button>
+        </div>
+        <div className="modal-body">
+          <p className="import-summary">
+            <strong>{report.fileName}</strong>
+            {report.error
+              ? `: ${report.error}`
+              : ` - ${report.importedCount} shape(s) loaded.`}
+          </p>
+
+          {rejectedShapes.length > 0 && (
+            <div className="tutorial-section">
+              <h3>Rejected shapes</h3>
+              <ul className="import-issues">
+                {rejectedShapes.map((issue, index) => (
+                  <li key={index}>
+                    <span>{describeShape(issue)}</span>
+                    <span className="import-issue-message">{issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {droppedFields.length > 0 && (
+            <div className="tutorial-section">
+              <h3>Ignored fields</h3>
+              <ul className="import-issues">
+                {droppedFields.map((issue, index) => (
+                  <li key={index}>
+                    <span>{describeShape(issue)}: <code>{issue.field}</code></span>
+                    <span className="import-issue-message">{issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <style>{`
+        .import-summary {
+          margin: 0 0 16px 0;
+          color: #5f6368;
+          line-height: 1.5;
+          word-break: break-word;
+        }
+
+        .import-issues {
+          margin: 0;
+          padding: 0;
+          list-style: none;
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+        }
+
+        .import-issues li {
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+          padding: 8px;
+          background: #f8f9fa;
+          border-radius: 8px;
+          font-size: 13px;
+          color: #202124;
+        }
+
+        .import-issue-message {
+          color: #d93025;
+          font-size: 12px;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default ImportReportDialog;
@@ -0,0 +1,81 @@
+// src/components/PresenceList.tsx
+import React from 'react';
+import type { Collaborator, CollaboratorProfile } from '../types/Collaboration';
+
+interface PresenceListProps {
+  profile: CollaboratorProfile;
+  collaborators: Collaborator[];
+}
+
+// Avatars beyond this many are summed up as "+N"
+const MAX_AVATARS = 5;
+
+const getInitials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map((word) => word[0].toUpperCase()).join('') || '?';
+
+// Avatars of everyone in the room, ourselves first
+const PresenceList: React.FC<PresenceListProps> = ({ profile, collaborators }) => {
+  const shown = collaborators.slice(0, MAX_AVATARS - 1);
+  const hidden = collaborators.slice(MAX_AVATARS - 1);
+
+  return (
+    <div className="presence-list">
+      <div className="presence-avatar self" style={{ background: profile.color }} title={`${profile.name} (you)`}>
+        {getInitials(profile.name)}
+      </div>
+      {shown.map(({ clientId, name, color, idle }) => (
+        <div
+          key={clientId}
+          className={`presence-avatar ${idle ? 'idle' : ''}`}
+          style={{ background: color }}
+          title={idle ? `${name} (idle)` : name}
+        >
+          {getInitials(name)}
+        </div>
+      ))}
+      {hidden.length > 0 && (
+        <div className="presence-avatar more" title={hidden.map(({ name }) => name).join(', ')}>
+          +{hidden.length}
+        </div>
+      )}
+
+      <style>{`
+        .presence-list {
+          display: flex;
+          align-items: center;
+        }
+
+        .presence-avatar {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          width: 32px;
+          height: 32px;
+          margin-left: -6px;
+          border: 2px solid #ffffff;
+          border-radius: 50%;
+          color: white;
+          font-size: 12px;
+          font-weight: 600;
+          box-shadow: 0 1px 4px rgba(0, 0, 0, 0.15);
+          transition: opacity 0.6s ease;
+          user-select: none;
+        }
+
+        .presence-avatar:first-child {
+          margin-left: 0;
+        }
+
+        .presence-avatar.idle {
+          opacity: 0.35;
+        }
+
+        .presence-avatar.more {
+          background: #5f6368;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default PresenceList;
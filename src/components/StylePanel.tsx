@@ -0,0 +1,435 @@
+// src/components/StylePanel.tsx
+import React from 'react';
+import type { Arrowhead, ConnectorRouting, DashStyle, FillStyle, ShapeStyle, ShapeType, SketchOptions } from '../types/Shapes';
+import {
+  FILL_COLORS,
+  STROKE_COLORS,
+  STROKE_WIDTHS,
+  hasArrowheads,
+  hasCornerRadius,
+  hasFill,
+  hasRouting,
+  hasSides,
+  hasStroke,
+  hasStrokeColor,
+  isTransparent,
+} from '../utils/style';
+import { MAX_SIDES, MIN_SIDES } from '../utils/outlines';
+import { isSketched } from '../utils/rough';
+
+interface StylePanelProps {
+  shapeTypes: ShapeType[]; // a section shows when any of the styled shapes supports it
+  style: ShapeStyle;
+  // Continuous inputs (sliders, color pickers) pass recordHistory = false and call onChangeComplete when done
+  onChange: (updates: Partial<ShapeStyle>, recordHistory?: boolean) => void;
+  onChangeComplete: () => void;
+  // Hand-drawn settings, shown when given; continuous inputs work the same way as onChange
+  sketchOptions?: SketchOptions;
+  onSketchChange?: (updates: Partial<SketchOptions>, recordHistory?: boolean) => void;
+}
+
+const dashStyles: { id: DashStyle; label: string; preview: string }[] = [
+  { id: 'solid', label: 'Solid', preview: '' },
+  { id: 'dashed', label: 'Dashed', preview: '6 4' },
+  { id: 'dotted', label: 'Dotted', preview: '1 4' },
+];
+
+const routings: { id: ConnectorRouting; label: string; preview: string }[] = [
+  { id: 'straight', label: 'Straight', preview: 'M4 20 L20 4' },
+  { id: 'elbow', label: 'Elbow', preview: 'M4 20 H12 V4 H20' },
+  { id: 'curved', label: 'Curved', preview: 'M4 20 C12 20 12 4 20 4' },
+];
+
+// Previews point right; the start row mirrors them
+const arrowheads: { id: Arrowhead; label: string; preview: string }[] = [
+  { id: 'none', label: 'None', preview: '' },
+  { id: 'triangle', label: 'Triangle', preview: 'M20 12 L13 8 L13 16 Z' },
+  { id: 'bar', label: 'Bar', preview: 'M20 6 V18' },
+  { id: 'dot', label: 'Dot', preview: 'M14 12 A3 3 0 1 0 20 12 A3 3 0 1 0 14 12 Z' },
+  { id: 'diamond', label: 'Diamond', preview: 'M20 12 L16 9 L12 12 L16 15 Z' },
+];
+
+const fillStyles: { id: FillStyle; label: string; preview: string }[] = [
+  { id: 'hachure', label: 'Hachure', preview: 'M5 13 L13 5 M5 19 L19 5 M11 19 L19 11' },
+  { id: 'cross-hatch', label: 'Cross-hatch', preview: 'M5 13 L13 5 M5 19 L19 5 M11 19 L19 11 M5 11 L13 19 M5 5 L19 19 M11 5 L19 13' },
+  { id: 'solid', label: 'Solid', preview: '' },
+];
+
+const colorUpdate = (key: 'strokeColor' | 'fillColor', color: string): Partial<ShapeStyle> =>
+  key === 'strokeColor' ? { strokeColor: color } : { fillColor: color };
+
+const StylePanel: React.FC<StylePanelProps> = ({
+  shapeTypes,
+  style,
+  onChange,
+  onChangeComplete,
+  sketchOptions,
+  onSketchChange,
+}) => {
+  const renderSwatches = (colors: string[], value: string, key: 'strokeColor' | 'fillColor') => (
+    <div className="style-swatches">
+      {colors.map((color) => (
+        <button
+          key={color}
+          className={`style-swatch ${value === color ? 'active' : ''} ${isTransparent(color) ? 'transparent' : ''}`}
+          style={isTransparent(color) ? undefined : { background: color }}
+          onClick={() => onChange(colorUpdate(key, color))}
+          title={isTransparent(color) ? 'No fill' : color}
+        />
+      ))}
+      <input
+        type="color"
+        className="style-color-input"
+        value={isTransparent(value) ? '#ffffff' : value}
+        onChange={(e) => onChange(colorUpdate(key, e.target.value), false)}
+        onBlur={onChangeComplete}
+        title="Custom color"
+      />
+    </div>
+  );
+
+  const isTextOnly = shapeTypes.every((type) => type === 'text');
+  const isStarsOnly = shapeTypes.every((type) => type === 'star');
+
+  return (
+    <div className="style-panel">
+      {shapeTypes.some(hasStrokeColor) && (
+        <div className="style-section">
+          <h4>{isTextOnly ? 'Text color' : 'Stroke'}</h4>
+          {renderSwatches(STROKE_COLORS, style.strokeColor, 'strokeColor')}
+        </div>
+      )}
+
+      {shapeTypes.some(hasFill) && (
+        <div className="style-section">
+          <h4>Fill</h4>
+          {renderSwatches(FILL_COLORS, style.fillColor, 'fillColor')}
+        </div>
+      )}
+
+      {shapeTypes.some(hasStroke) && (
+        <>
+          <div className="style-section">
+            <h4>Stroke width</h4>
+            <div className="style-options">
+              {STROKE_WIDTHS.map(({ label, width }) => (
+                <button
+                  key={width}
+                  className={`style-option ${style.strokeWidth === width ? 'active' : ''}`}
+                  onClick={() => onChange({ strokeWidth: width })}
+                  title={label}
+                >
+                  <svg width="24" height="24" viewBox="0 0 24 24">
+                    <line x1="4" y1="12" x2="20" y2="12" stroke="currentColor" strokeWidth={width} strokeLinecap="round" />
+                  </svg>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="style-section">
+            <h4>Stroke style</h4>
+            <div className="style-options">
+              {dashStyles.map(({ id, label, preview }) => (
+                <button
+                  key={id}
+                  className={`style-option ${style.dashStyle === id ? 'active' : ''}`}
+                  onClick={() => onChange({ dashStyle: id })}
+                  title={label}
+                >
+                  <svg width="24" height="24" viewBox="0 0 24 24">
+                    <line x1="3" y1="12" x2="21" y2="12" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeDasharray={preview || undefined} />
+                  </svg>
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
+      {shapeTypes.some(hasRouting) && (
+        <div className="style-section">
+          <h4>Routing</h4>
+          <div className="style-options">
+            {routings.map(({ id, label, preview }) => (
+              <button
+                key={id}
+                className={`style-option ${style.routing === id ? 'active' : ''}`}
+                onClick={() => onChange({ routing: id })}
+                title={label}
+              >
+                <svg width="24" height="24" viewBox="0 0 24 24">
+                  <path d={preview} fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                </svg>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {shapeTypes.some(hasArrowheads) && (['startArrowhead', 'endArrowhead'] as const).map((key) => (
+        <div key={key} className="style-section">
+          <h4>{key === 'startArrowhead' ? 'Start arrowhead' : 'End arrowhead'}</h4>
+          <div className="style-options">
+            {arrowheads.map(({ id, label, preview }) => (
+              <button
+                key={id}
+                className={`style-option ${style[key] === id ? 'active' : ''}`}
+                onClick={() => onChange(key === 'startArrowhead' ? { startArrowhead: id } : { endArrowhead: id })}
+                title={label}
+              >
+                <svg width="24" height="24" viewBox="0 0 24 24">
+                  <g transform={key === 'startArrowhead' ? 'matrix(-1 0 0 1 24 0)' : undefined}>
+                    <path d="M4 12 H20" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
+                    {preview && (
+                      <path d={preview} fill="currentColor" stroke="currentColor" strokeWidth="2" strokeLinejoin="round" />
+                    )}
+                  </g>
+                </svg>
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {shapeTypes.some(hasCornerRadius) && (
+        <div className="style-section">
+          <h4>Corner radius</h4>
+          <div className="style-range">
+            <input
+              type="range"
+              min={0}
+              max={48}
+              step={2}
+              value={style.cornerRadius}
+              onChange={(e) => onChange({ cornerRadius: Number(e.target.value) }, false)}
+              onPointerUp={onChangeComplete}
+              onKeyUp={onChangeComplete}
+            />
+            <span>{style.cornerRadius}</span>
+          </div>
+        </div>
+      )}
+
+      {shapeTypes.some(hasSides) && (
+        <div className="style-section">
+          <h4>{isStarsOnly ? 'Points' : 'Sides'}</h4>
+          <div className="style-range">
+            <input
+              type="range"
+              min={MIN_SIDES}
+              max={MAX_SIDES}
+              step={1}
+              value={style.sides}
+              onChange={(e) => onChange({ sides: Number(e.target.value) }, false)}
+              onPointerUp={onChangeComplete}
+              onKeyUp={onChangeComplete}
+            />
+            <span>{style.sides}</span>
+          </div>
+        </div>
+      )}
+
+      {sketchOptions && onSketchChange && shapeTypes.some(isSketched) && (
+        <>
+          <div className="style-section">
+            <h4>Roughness</h4>
+            <div className="style-range">
+              <input
+                type="range"
+                min={0}
+                max={3}
+                step={0.5}
+                value={sketchOptions.roughness}
+                onChange={(e) => onSketchChange({ roughness: Number(e.target.value) }, false)}
+                onPointerUp={onChangeComplete}
+                onKeyUp={onChangeComplete}
+              />
+              <span>{sketchOptions.roughness}</span>
+            </div>
+          </div>
+
+          <div className="style-section">
+            <h4>Bowing</h4>
+            <div className="style-range">
+              <input
+                type="range"
+                min={0}
+                max={5}
+                step={0.5}
+                value={sketchOptions.bowing}
+                onChange={(e) => onSketchChange({ bowing: Number(e.target.value) }, false)}
+                onPointerUp={onChangeComplete}
+                onKeyUp={onChangeComplete}
+              />
+              <span>{sketchOptions.bowing}</span>
+            </div>
+          </div>
+        </>
+      )}
+
+      {sketchOptions && onSketchChange && shapeTypes.some(hasFill) && (
+        <div className="style-section">
+          <h4>Fill pattern</h4>
+          <div className="style-options">
+            {fillStyles.map(({ id, label, preview }) => (
+              <button
+                key={id}
+                className={`style-option ${sketchOptions.fillStyle === id ? 'active' : ''}`}
+                onClick={() => onSketchChange({ fillStyle: id })}
+                title={label}
+              >
+                <svg width="24" height="24" viewBox="0 0 24 24">
+                  <rect x="5" y="5" width="14" height="14" rx="2" fill={preview ? 'none' : 'currentColor'} stroke="currentColor" strokeWidth="1.5" />
+                  {preview && <path d={preview} stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" />}
+                </svg>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="style-section">
+        <h4>Opacity</h4>
+        <div className="style-range">
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={Math.round(style.opacity * 100)}
+            onChange={(e) => onChange({ opacity: Number(e.target.value) / 100 }, false)}
+            onPointerUp={onChangeComplete}
+            onKeyUp={onChangeComplete}
+          />
+          <span>{Math.round(style.opacity * 100)}</span>
+        </div>
+      </div>
+
+      <style>{`
+        .style-panel {
+          position: fixed;
+          top: 80px;
+          left: 20px;
+          z-index: 1000;
+          width: 200px;
+          padding: 12px;
+          background: #ffffff;
+          border: 1px solid #e1e5e9;
+          border-radius: 12px;
+          box-shadow:
+            0 2px 8px rgba(0, 0, 0, 0.1),
+            0 0 0 1px rgba(0, 0, 0, 0.05);
+          font-size: 12px;
+          color: #202124;
+          user-select: none;
+        }
+
+        .style-section + .style-section {
+          margin-top: 12px;
+        }
+
+        .style-section h4 {
+          margin: 0 0 6px 0;
+          font-size: 12px;
+          font-weight: 600;
+          color: #5f6368;
+        }
+
+        .style-swatches {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 4px;
+        }
+
+        .style-swatch {
+          width: 22px;
+          height: 22px;
+          padding: 0;
+          border: 1px solid #dadce0;
+          border-radius: 6px;
+          cursor: pointer;
+        }
+
+        .style-swatch.transparent {
+          background:
+            linear-gradient(45deg, transparent 45%, #e03131 45%, #e03131 55%, transparent 55%),
+            #ffffff;
+        }
+
+        .style-swatch.active {
+          outline: 2px solid #4285f4;
+          outline-offset: 1px;
+        }
+
+        .style-color-input {
+          width: 22px;
+          height: 22px;
+          padding: 0;
+          border: 1px solid #dadce0;
+          border-radius: 6px;
+          background: none;
+          cursor: pointer;
+        }
+
+        .style-options {
+          display: flex;
+          gap: 4px;
+        }
+
+        .style-option {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          width: 36px;
+          height: 32px;
+          border: 1px solid #e1e5e9;
+          border-radius: 6px;
+          background: transparent;
+          color: #202124;
+          cursor: pointer;
+          transition: all 0.15s ease;
+        }
+
+        .style-option:hover {
+          background: #f8f9fa;
+        }
+
+        .style-option.active {
+          background: #5f6368;
+          border-color: #5f6368;
+          color: white;
+        }
+
+        .style-range {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+        }
+
+        .style-range input {
+          flex: 1;
+        }
+
+        .style-range span {
+          width: 24px;
+          text-align: right;
+          font-variant-numeric: tabular-nums;
+        }
+
+        @media (max-width: 768px) {
+          .style-panel {
+            top: auto;
+            bottom: 64px;
+            left: 10px;
+            width: 180px;
+            max-height: 50vh;
+            overflow-y: auto;
+          }
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default StylePanel;
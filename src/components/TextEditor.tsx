@@ -0,0 +1,159 @@
+// src/components/TextEditor.tsx
+import React, { useEffect, useRef } from 'react';
+import { FormatAlignLeft, FormatAlignCenter, FormatAlignRight } from '@mui/icons-material';
+import type { Shape, TextAlign } from '../types/Shapes';
+import type { Viewport } from '../types/Viewport';
+import { DEFAULT_FONT_SIZE, FONT_SIZES, TEXT_FONT_FAMILY, TEXT_LINE_HEIGHT, layoutText } from '../utils/text';
+import { getShapeStyle } from '../utils/style';
+
+interface TextEditorProps {
+  shape: Shape;
+  viewport: Viewport;
+  onChange: (updates: Partial<Shape>) => void;
+  onCommit: () => void;
+}
+
+const alignments: { id: TextAlign; icon: React.ReactNode; label: string }[] = [
+  { id: 'left', icon: <FormatAlignLeft fontSize="small" />, label: 'Align left' },
+  { id: 'center', icon: <FormatAlignCenter fontSize="small" />, label: 'Align center' },
+  { id: 'right', icon: <FormatAlignRight fontSize="small" />, label: 'Align right' },
+];
+
+const TextEditor: React.FC<TextEditorProps> = ({ shape, viewport, onChange, onCommit }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fontSize = shape.fontSize || DEFAULT_FONT_SIZE;
+  const textAlign = shape.textAlign || 'left';
+  const layout = layoutText(shape);
+  const isAutoSize = shape.autoSize !== false;
+  const style = getShapeStyle(shape);
+  const centerX = layout.width / 2;
+  const centerY = layout.height / 2;
+
+  // Focus the editor and put the caret at the end of any existing text
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Escape' || (e.key === 'Enter' && (e.ctrlKey || e.metaKey))) {
+      e.preventDefault();
+      // Committing happens on blur, so every way of leaving the editor goes through one path
+      e.currentTarget.blur();
+    }
+  };
+
+  // Keep focus in the textarea while using the controls so it doesn't commit on blur
+  const keepFocus = (e: React.MouseEvent) => e.preventDefault();
+
+  return (
+    <div style={{
+      position: 'absolute',
+      left: `${shape.x * viewport.zoom + viewport.offsetX}px`,
+      top: `${shape.y * viewport.zoom + viewport.offsetY}px`,
+      zIndex: 500
+    }}>
+      <div
+        onMouseDown={keepFocus}
+        style={{
+          position: 'absolute',
+          bottom: '100%',
+          left: 0,
+          marginBottom: '8px',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '2px',
+          padding: '4px',
+          background: '#ffffff',
+          border: '1px solid #e1e5e9',
+          borderRadius: '8px',
+          boxShadow: '0 2px 8px rgba(0, 0, 0, 0.1)',
+          whiteSpace: 'nowrap'
+        }}
+      >
+        {FONT_SIZES.map(({ label, size }) => (
+          <button
+            key={size}
+            title={`Font size ${size}px`}
+            onClick={() => onChange({ fontSize: size })}
+            style={{
+              ...controlButtonStyle,
+              background: fontSize === size ? '#5f6368' : 'transparent',
+              color: fontSize === size ? 'white' : '#202124'
+            }}
+          >
+            {label}
+          </button>
+        ))}
+        <div style={{ width: '1px', height: '20px', background: '#e1e5e9', margin: '0 4px' }} />
+        {alignments.map(({ id, icon, label }) => (
+          <button
+            key={id}
+            title={label}
+            onClick={() => onChange({ textAlign: id })}
+            style={{
+              ...controlButtonStyle,
+              background: textAlign === id ? '#5f6368' : 'transparent',
+              color: textAlign === id ? 'white' : '#202124'
+            }}
+          >
+            {icon}
+          </button>
+        ))}
+      </div>
+
+      {/* The textarea is laid out in scene units, scaled to match the canvas zoom and turned around its center */}
+      <div style={{
+        transform: `scale(${viewport.zoom}) translate(${centerX}px, ${centerY}px) rotate(${shape.angle || 0}rad) translate(${-centerX}px, ${-centerY}px)`,
+        transformOrigin: 'top left'
+      }}>
+        <textarea
+          ref={textareaRef}
+          value={shape.text || ''}
+          onChange={(e) => onChange({ text: e.target.value })}
+          onKeyDown={handleKeyDown}
+          onBlur={onCommit}
+          wrap={isAutoSize ? 'off' : 'soft'}
+          spellCheck={false}
+          style={{
+            display: 'block',
+            width: `${isAutoSize ? Math.max(layout.width, fontSize) + 4 : layout.width}px`,
+            height: `${layout.height}px`,
+            margin: 0,
+            padding: 0,
+            border: 'none',
+            outline: '1px dashed #4285f4',
+            outlineOffset: '4px',
+            background: 'transparent',
+            color: style.strokeColor,
+            opacity: style.opacity,
+            font: `${fontSize}px ${TEXT_FONT_FAMILY}`,
+            lineHeight: TEXT_LINE_HEIGHT,
+            textAlign,
+            whiteSpace: isAutoSize ? 'pre' : 'pre-wrap',
+            overflow: 'hidden',
+            resize: 'none'
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+const controlButtonStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  minWidth: '28px',
+  height: '28px',
+  padding: '0 6px',
+  border: 'none',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontSize: '12px',
+  fontWeight: 600
+};
+
+export default TextEditor;
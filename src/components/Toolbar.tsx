@@ -1,11 +1,20 @@
 // src/components/Toolbar.tsx
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faArrowPointer, faQuestionCircle, faTimes } from '@fortawesome/free-solid-svg-icons';
+import { faArrowPointer, faQuestionCircle, faTimes, faDownload, faFolderOpen, faImage, faEraser, faUserGroup } from '@fortawesome/free-solid-svg-icons';
 import { faGithub } from '@fortawesome/free-brands-svg-icons';
-import { CropSquare, RadioButtonUnchecked, ShowChart, ArrowForward, Create } from '@mui/icons-material';
-
-type ToolType = 'select' | 'rectangle' | 'circle' | 'line' | 'arrow' | 'text' | 'pen';
+import {
+  CropSquare, RadioButtonUnchecked, ShowChart, ArrowForward, Create, TextFields, Gesture, Tune,
+  PanoramaFishEye, CropDin, ChangeHistory, HexagonOutlined, StarBorder, AddPhotoAlternateOutlined,
+} from '@mui/icons-material';
+import type { Collaborator, CollaboratorProfile, CollaborationStatus } from '../types/Collaboration';
+import type { EraserMode, FillStyle, RenderMode, SketchOptions } from '../types/Shapes';
+import { FILE_EXTENSION, FILE_MIME_TYPE } from '../utils/fileFormat';
+import PresenceList from './PresenceList';
+
+type ToolType =
+  | 'select' | 'rectangle' | 'circle' | 'ellipse' | 'diamond' | 'triangle' | 'polygon' | 'star'
+  | 'line' | 'arrow' | 'text' | 'pen' | 'eraser';
 
 interface ToolbarProps {
   setTool: (tool: ToolType) => void;
@@ -13,17 +22,89 @@ interface ToolbarProps {
   onRedo?: () => void;
   canUndo?: boolean;
   canRedo?: boolean;
+  renderMode?: RenderMode;
+  onRenderModeChange?: (mode: RenderMode) => void;
+  sketchOptions?: SketchOptions;
+  onSketchOptionsChange?: (options: SketchOptions) => void;
+  eraserMode?: EraserMode;
+  onEraserModeChange?: (mode: EraserMode) => void;
+  onSaveFile?: () => void;
+  onOpenFile?: (file: File) => void;
+  onExport?: () => void;
+  onInsertImage?: (file: File) => void;
+  collaborationStatus?: CollaborationStatus;
+  onCollaborate?: () => void;
+  profile?: CollaboratorProfile;
+  collaborators?: Collaborator[];
 }
 
+const fillStyles: { id: FillStyle; label: string }[] = [
+  { id: 'hachure', label: 'Hachure' },
+  { id: 'cross-hatch', label: 'Cross-hatch' },
+  { id: 'solid', label: 'Solid' },
+];
+
+const eraserModes: { id: EraserMode; label: string }[] = [
+  { id: 'stroke', label: 'Whole shapes' },
+  { id: 'partial', label: 'Partial' },
+];
+
 const Toolbar: React.FC<ToolbarProps> = ({ 
   setTool, 
   onUndo, 
   onRedo, 
   canUndo = false, 
-  canRedo = false 
+  canRedo = false,
+  renderMode = 'clean',
+  onRenderModeChange,
+  sketchOptions,
+  onSketchOptionsChange,
+  eraserMode = 'stroke',
+  onEraserModeChange,
+  onSaveFile,
+  onOpenFile,
+  onExport,
+  onInsertImage,
+  collaborationStatus = 'offline',
+  onCollaborate,
+  profile,
+  collaborators = []
 }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
   const [activeTool, setActiveTool] = useState<ToolType>('select');
   const [showTutorial, setShowTutorial] = useState(false);
+  const [showSketchOptions, setShowSketchOptions] = useState(false);
+  const isSketchy = renderMode === 'sketchy';
+
+  const handleRenderModeToggle = () => {
+    const nextMode: RenderMode = isSketchy ? 'clean' : 'sketchy';
+    if (nextMode === 'clean') setShowSketchOptions(false);
+    onRenderModeChange?.(nextMode);
+  };
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && onOpenFile) {
+      onOpenFile(file);
+    }
+    // Reset so picking the same file again still fires a change
+    e.target.value = '';
+  };
+
+  const handleImageSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && onInsertImage) {
+      onInsertImage(file);
+    }
+    e.target.value = '';
+  };
+
+  const updateSketchOptions = (updates: Partial<SketchOptions>) => {
+    if (sketchOptions && onSketchOptionsChange) {
+      onSketchOptionsChange({ ...sketchOptions, ...updates });
+    }
+  };
 
   const handleToolSelect = (tool: ToolType) => {
     setActiveTool(tool);
@@ -46,9 +127,16 @@ const Toolbar: React.FC<ToolbarProps> = ({
     { id: 'select', icon:<FontAwesomeIcon icon={faArrowPointer} />, label: 'Select' },
     { id: 'rectangle', icon: <CropSquare />, label: 'Rectangle' },
     { id: 'circle', icon: <RadioButtonUnchecked />, label: 'Circle' },
+    { id: 'ellipse', icon: <PanoramaFishEye style={{ transform: 'scaleY(0.7)' }} />, label: 'Ellipse' },
+    { id: 'diamond', icon: <CropDin style={{ transform: 'rotate(45deg) scale(0.85)' }} />, label: 'Diamond' },
+    { id: 'triangle', icon: <ChangeHistory />, label: 'Triangle' },
+    { id: 'polygon', icon: <HexagonOutlined />, label: 'Polygon' },
+    { id: 'star', icon: <StarBorder />, label: 'Star' },
     { id: 'line', icon: <ShowChart />, label: 'Line' },
     { id: 'arrow', icon: <ArrowForward />, label: 'Arrow' },
     { id: 'pen', icon: <Create />, label: 'Draw' },
+    { id: 'text', icon: <TextFields />, label: 'Text' },
+    { id: 'eraser', icon: <FontAwesomeIcon icon={faEraser} />, label: 'Eraser' },
   ];
 
   return (
@@ -85,11 +173,149 @@ const Toolbar: React.FC<ToolbarProps> = ({
           >
             <span className="tool-icon">↷</span>
           </button>
+
+          <div className="toolbar-divider" />
+
+          {/* Hand-drawn render mode */}
+          <button
+            className={`tool-button ${isSketchy ? 'active' : ''}`}
+            onClick={handleRenderModeToggle}
+            title="Hand-drawn style"
+          >
+            <span className="tool-icon"><Gesture /></span>
+          </button>
+          {isSketchy && sketchOptions && (
+            <button
+              className={`tool-button ${showSketchOptions ? 'active' : ''}`}
+              onClick={() => setShowSketchOptions(!showSketchOptions)}
+              title="Sketch options"
+            >
+              <span className="tool-icon"><Tune /></span>
+            </button>
+          )}
+
+          <div className="toolbar-divider" />
+
+          {/* File actions */}
+          <button
+            className="tool-button"
+            onClick={() => onSaveFile?.()}
+            title="Save as file (Ctrl+S)"
+          >
+            <span className="tool-icon"><FontAwesomeIcon icon={faDownload} /></span>
+          </button>
+          <button
+            className="tool-button"
+            onClick={() => fileInputRef.current?.click()}
+            title="Open file"
+          >
+            <span className="tool-icon"><FontAwesomeIcon icon={faFolderOpen} /></span>
+          </button>
+          <button
+            className="tool-button"
+            onClick={() => onExport?.()}
+            title="Export image (Ctrl+Shift+E)"
+          >
+            <span className="tool-icon"><FontAwesomeIcon icon={faImage} /></span>
+          </button>
+          <button
+            className={`tool-button ${collaborationStatus !== 'offline' ? 'active' : ''}`}
+            onClick={() => onCollaborate?.()}
+            title={collaborationStatus === 'offline' ? 'Collaborate' : `Collaborate (${collaborationStatus})`}
+          >
+            <span className="tool-icon"><FontAwesomeIcon icon={faUserGroup} /></span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`${FILE_EXTENSION},.json,${FILE_MIME_TYPE},application/json`}
+            onChange={handleFileSelected}
+            style={{ display: 'none' }}
+          />
+          <button
+            className="tool-button"
+            onClick={() => imageInputRef.current?.click()}
+            title="Insert image"
+          >
+            <span className="tool-icon"><AddPhotoAlternateOutlined /></span>
+          </button>
+          <input
+            ref={imageInputRef}
+            type="file"
+            accept="image/*"
+            onChange={handleImageSelected}
+            style={{ display: 'none' }}
+          />
         </div>
+
+        {isSketchy && sketchOptions && showSketchOptions && (
+          <div className="sketch-panel">
+            <label className="sketch-field">
+              <span>Roughness</span>
+              <input
+                type="range"
+                min={0}
+                max={3}
+                step={0.5}
+                value={sketchOptions.roughness}
+                onChange={(e) => updateSketchOptions({ roughness: Number(e.target.value) })}
+              />
+              <span className="sketch-value">{sketchOptions.roughness}</span>
+            </label>
+            <label className="sketch-field">
+              <span>Bowing</span>
+              <input
+                type="range"
+                min={0}
+                max={5}
+                step={0.5}
+                value={sketchOptions.bowing}
+                onChange={(e) => updateSketchOptions({ bowing: Number(e.target.value) })}
+              />
+              <span className="sketch-value">{sketchOptions.bowing}</span>
+            </label>
+            <div className="sketch-field">
+              <span>Fill</span>
+              <div className="sketch-fill-options">
+                {fillStyles.map((fill) => (
+                  <button
+                    key={fill.id}
+                    className={`sketch-fill-button ${sketchOptions.fillStyle === fill.id ? 'active' : ''}`}
+                    onClick={() => updateSketchOptions({ fillStyle: fill.id })}
+                  >
+                    {fill.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {activeTool === 'eraser' && (
+          <div className="sketch-panel">
+            <div className="sketch-field">
+              <span>Erase</span>
+              <div className="sketch-fill-options">
+                {eraserModes.map((mode) => (
+                  <button
+                    key={mode.id}
+                    className={`sketch-fill-button ${eraserMode === mode.id ? 'active' : ''}`}
+                    onClick={() => onEraserModeChange?.(mode.id)}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Tutorial Button - Top Right */}
       <div className="tutorial-button-container">
+        {collaborationStatus !== 'offline' && profile && (
+          <PresenceList profile={profile} collaborators={collaborators} />
+        )}
         <button 
           className="tutorial-button"
           onClick={() => setShowTutorial(true)}
@@ -136,7 +362,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
                 <div className="tool-guide">
                   <div className="tool-item">
                     <FontAwesomeIcon icon={faArrowPointer} />
-                    <span><strong>Select:</strong> Click and drag to select objects</span>
+                    <span><strong>Select:</strong> Click a shape to select it, shift-click to add more, or drag on empty space to select everything inside a box. Drag the handles of a selected shape to resize or rotate it (Shift keeps proportions, Alt resizes from the center). Clicking a grouped shape selects its group; double-click to edit the shapes inside</span>
                   </div>
                   <div className="tool-item">
                     <CropSquare />
@@ -146,18 +372,46 @@ const Toolbar: React.FC<ToolbarProps> = ({
                     <RadioButtonUnchecked />
                     <span><strong>Circle:</strong> Click and drag to draw circles</span>
                   </div>
+                  <div className="tool-item">
+                    <PanoramaFishEye />
+                    <span><strong>Ellipse, diamond, triangle:</strong> Click and drag a box to draw the shape inside it; hold Shift to keep width and height equal</span>
+                  </div>
+                  <div className="tool-item">
+                    <HexagonOutlined />
+                    <span><strong>Polygon and star:</strong> Drawn the same way; set the number of sides or points in the style panel</span>
+                  </div>
                   <div className="tool-item">
                     <ShowChart />
-                    <span><strong>Line:</strong> Click and drag to draw straight lines</span>
+                    <span><strong>Line:</strong> Click and drag to draw straight lines, or click point by point and finish with a double-click or Enter. Start or end on a shape to attach the line to it. Double-click a selected line to add or remove points; right-click it to curve segments</span>
                   </div>
                   <div className="tool-item">
                     <ArrowForward />
-                    <span><strong>Arrow:</strong> Click and drag to draw arrows</span>
+                    <span><strong>Arrow:</strong> Click and drag to draw arrows. Arrows started or ended on a shape stay attached when it moves; pick the routing and the arrowheads at either end in the style panel</span>
                   </div>
                   <div className="tool-item">
                     <Create />
                     <span><strong>Draw:</strong> Free-hand drawing tool</span>
                   </div>
+                  <div className="tool-item">
+                    <TextFields />
+                    <span><strong>Text:</strong> Click to type, or drag a box to wrap text inside it. Double-click text to edit it</span>
+                  </div>
+                  <div className="tool-item">
+                    <FontAwesomeIcon icon={faEraser} />
+                    <span><strong>Eraser:</strong> Drag over shapes to erase them; they fade until you let go. In partial mode the eraser cuts through pen strokes instead of removing them whole</span>
+                  </div>
+                  <div className="tool-item">
+                    <Gesture />
+                    <span><strong>Hand-drawn:</strong> Toggle a sketchy look. New shapes use the roughness, bowing and fill from the sketch options; the style panel changes them for selected shapes</span>
+                  </div>
+                  <div className="tool-item">
+                    <AddPhotoAlternateOutlined />
+                    <span><strong>Image:</strong> Insert an image from a file, or drop or paste one onto the canvas. Images keep their proportions when resized unless you hold Shift; double-click one to crop it by dragging its handles</span>
+                  </div>
+                  <div className="tool-item">
+                    <FontAwesomeIcon icon={faUserGroup} />
+                    <span><strong>Collaborate:</strong> Join a room on a relay server to edit the scene with others in real time. Undo only reverts your own changes</span>
+                  </div>
                 </div>
               </div>
               
@@ -172,6 +426,66 @@ const Toolbar: React.FC<ToolbarProps> = ({
                     <kbd>Ctrl+Y</kbd>
                     <span>Redo last action</span>
                   </div>
+                  <div className="shortcut-item">
+                    <kbd>Ctrl+A</kbd>
+                    <span>Select all shapes (Esc clears the selection)</span>
+                  </div>
+                  <div className="shortcut-item">
+                    <kbd>Ctrl+C / X / V</kbd>
+                    <span>Copy, cut and paste shapes (pasting text or an image adds it to the canvas)</span>
+                  </div>
+                  <div className="shortcut-item">
+                    <kbd>Ctrl+D</kbd>
+                    <span>Duplicate the selected shapes</span>
+                  </div>
+                  <div className="shortcut-item">
+                    <kbd>Ctrl+] / [</kbd>
+                    <span>Bring the selection forward or send it backward (add Shift to go to the front or back)</span>
+                  </div>
+                  <div className="shortcut-item">
+                    <kbd>Ctrl+G</kbd>
+                    <span>Group the selected shapes (Ctrl+Shift+G ungroups)</span>
+                  </div>
+                  <div className="shortcut-item">
+                    <kbd>Ctrl+Shift+L</kbd>
+                    <span>Lock or unlock the selection so it can't be moved or deleted</span>
+                  </div>
+                  <div className="shortcut-item">
+                    <kbd>Right-click</kbd>
+                    <span>Open the context menu (long-press on touch screens, Shift+F10 from the keyboard)</span>
+                  </div>
+                  <div className="shortcut-item">
+                    <kbd>Ctrl+S</kbd>
+                    <span>Save the drawing as a file (drop a file on the canvas to open it)</span>
+                  </div>
+                  <div className="shortcut-item">
+                    <kbd>Ctrl+Shift+E</kbd>
+                    <span>Export the scene or selection as PNG or SVG</span>
+                  </div>
+                  <div className="shortcut-item">
+                    <kbd>Ctrl+Enter</kbd>
+                    <span>Finish editing text</span>
+                  </div>
+                  <div className="shortcut-item">
+                    <kbd>Ctrl+Drag</kbd>
+                    <span>Draw, move or resize without snapping to other shapes or the grid (grid snapping is in the right-click menu)</span>
+                  </div>
+                  <div className="shortcut-item">
+                    <kbd>Space+Drag</kbd>
+                    <span>Pan the canvas (or drag with the middle mouse button / two fingers)</span>
+                  </div>
+                  <div className="shortcut-item">
+                    <kbd>Ctrl+Wheel</kbd>
+                    <span>Zoom at the cursor (or pinch on touch screens)</span>
+                  </div>
+                  <div className="shortcut-item">
+                    <kbd>Shift+1</kbd>
+                    <span>Zoom to fit all shapes</span>
+                  </div>
+                  <div className="shortcut-item">
+                    <kbd>Ctrl+0</kbd>
+                    <span>Reset zoom to 100%</span>
+                  </div>
                 </div>
               </div>
             </div>
@@ -273,12 +587,76 @@ const Toolbar: React.FC<ToolbarProps> = ({
           margin: 0 6px;
         }
 
+        /* Sketch options panel */
+        .sketch-panel {
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+          margin-top: 8px;
+          padding: 12px;
+          background: #ffffff;
+          border: 1px solid #e1e5e9;
+          border-radius: 12px;
+          box-shadow: 0 2px 8px rgba(0, 0, 0, 0.1);
+          font-size: 13px;
+          color: #202124;
+        }
+
+        .sketch-field {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+        }
+
+        .sketch-field > span:first-child {
+          width: 72px;
+          color: #5f6368;
+        }
+
+        .sketch-field input[type="range"] {
+          flex: 1;
+        }
+
+        .sketch-value {
+          width: 24px;
+          text-align: right;
+          font-variant-numeric: tabular-nums;
+        }
+
+        .sketch-fill-options {
+          display: flex;
+          gap: 4px;
+        }
+
+        .sketch-fill-button {
+          padding: 4px 8px;
+          border: 1px solid #e1e5e9;
+          border-radius: 6px;
+          background: transparent;
+          cursor: pointer;
+          font-size: 12px;
+          transition: all 0.15s ease;
+        }
+
+        .sketch-fill-button:hover {
+          background: #f8f9fa;
+        }
+
+        .sketch-fill-button.active {
+          background: #5f6368;
+          border-color: #5f6368;
+          color: white;
+        }
+
         /* Tutorial Button - Top Right */
         .tutorial-button-container {
           position: fixed;
           top: 20px;
           right: 20px;
           z-index: 1000;
+          display: flex;
+          align-items: center;
+          gap: 12px;
         }
 
         .tutorial-button {
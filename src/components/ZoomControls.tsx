@@ -0,0 +1,98 @@
+// src/components/ZoomControls.tsx
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faMinus, faPlus, faExpand } from '@fortawesome/free-solid-svg-icons';
+
+interface ZoomControlsProps {
+  zoom: number;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onReset: () => void;
+  onFitToContent: () => void;
+}
+
+const ZoomControls: React.FC<ZoomControlsProps> = ({ zoom, onZoomIn, onZoomOut, onReset, onFitToContent }) => {
+  return (
+    <div className="zoom-controls">
+      <button className="zoom-button" onClick={onZoomOut} title="Zoom out (Ctrl+-)">
+        <FontAwesomeIcon icon={faMinus} />
+      </button>
+      <button className="zoom-level" onClick={onReset} title="Reset to 100% (Ctrl+0)">
+        {Math.round(zoom * 100)}%
+      </button>
+      <button className="zoom-button" onClick={onZoomIn} title="Zoom in (Ctrl++)">
+        <FontAwesomeIcon icon={faPlus} />
+      </button>
+      <div className="zoom-divider" />
+      <button className="zoom-button" onClick={onFitToContent} title="Fit to content (Shift+1)">
+        <FontAwesomeIcon icon={faExpand} />
+      </button>
+
+      <style>{`
+        .zoom-controls {
+          position: fixed;
+          bottom: 20px;
+          left: 20px;
+          z-index: 1000;
+          display: flex;
+          align-items: center;
+          gap: 2px;
+          padding: 4px;
+          background: #ffffff;
+          border: 1px solid #e1e5e9;
+          border-radius: 10px;
+          box-shadow: 0 2px 8px rgba(0, 0, 0, 0.1);
+          user-select: none;
+        }
+
+        .zoom-button,
+        .zoom-level {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          height: 32px;
+          border: none;
+          border-radius: 6px;
+          background: transparent;
+          color: #202124;
+          cursor: pointer;
+          transition: all 0.15s ease;
+        }
+
+        .zoom-button {
+          width: 32px;
+          font-size: 12px;
+        }
+
+        .zoom-level {
+          min-width: 52px;
+          padding: 0 6px;
+          font-size: 12px;
+          font-weight: 500;
+          font-variant-numeric: tabular-nums;
+        }
+
+        .zoom-button:hover,
+        .zoom-level:hover {
+          background: #f8f9fa;
+        }
+
+        .zoom-divider {
+          width: 1px;
+          height: 20px;
+          background: #e1e5e9;
+          margin: 0 4px;
+        }
+
+        @media (max-width: 768px) {
+          .zoom-controls {
+            bottom: 10px;
+            left: 10px;
+          }
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default ZoomControls;
@@ -0,0 +1,30 @@
+// src/hooks/useAutosave.ts
+import { useEffect, useRef } from 'react';
+import type { Shape } from '../types/Shapes';
+import { AUTOSAVE_DELAY, saveScene } from '../utils/storage';
+
+// Save the scene to local storage once edits settle, and flush any pending save when the page
+// goes away
+export const useAutosave = (shapes: Shape[], background: string) => {
+  const latestSceneRef = useRef({ shapes, background });
+
+  useEffect(() => {
+    latestSceneRef.current = { shapes, background };
+    const timeout = window.setTimeout(() => saveScene(shapes, background), AUTOSAVE_DELAY);
+    return () => window.clearTimeout(timeout);
+  }, [shapes, background]);
+
+  useEffect(() => {
+    const flush = () => saveScene(latestSceneRef.current.shapes, latestSceneRef.current.background);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+
+    window.addEventListener('beforeunload', flush);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('beforeunload', flush);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+};
@@ -0,0 +1,250 @@
+// src/hooks/useCollaboration.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SceneHistory } from './useHistory';
+import type {
+  ClientMessage,
+  Collaborator,
+  CollaboratorProfile,
+  CollaborationStatus,
+  Presence,
+  RelayMessage,
+  ShapeOperation,
+} from '../types/Collaboration';
+import type { SceneFile } from '../types/Document';
+import type { Shape } from '../types/Shapes';
+import { applyOperations, patchesToOperations } from '../utils/operations';
+import { addFiles, getFilesFor } from '../utils/files';
+import { diffShapes } from '../utils/patches';
+import { loadProfile, saveProfile } from '../utils/storage';
+
+// Reconnecting waits this long at first, doubling up to the maximum
+const RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 16000;
+
+// Presence goes out at most this often; cursor moves in between are merged
+const PRESENCE_INTERVAL = 50;
+// Collaborators fade out after this long without an update
+const IDLE_AFTER = 30000;
+const IDLE_CHECK_INTERVAL = 5000;
+
+export const COLLABORATOR_COLORS = ['#e8710a', '#d93025', '#795548', '#9334e6', '#1a73e8', '#12b5cb', '#188038', '#f538a0'];
+
+export interface CollaborationSession {
+  relayUrl: string;
+  room: string;
+}
+
+export interface Collaboration {
+  status: CollaborationStatus;
+  session: CollaborationSession | null;
+  join: (session: CollaborationSession) => void;
+  leave: () => void;
+  profile: CollaboratorProfile;
+  setProfile: (profile: CollaboratorProfile) => void;
+  collaborators: Collaborator[];
+  // Where our pointer is in the scene, or null when it left the canvas
+  setCursor: (cursor: Presence['cursor']) => void;
+}
+
+interface PendingBatch {
+  batch: number;
+  operations: ShapeOperation[];
+  files: Record<string, SceneFile>; // data of images the batch adds
+}
+
+const createClientId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const createProfile = (): CollaboratorProfile => ({
+  name: `Guest ${Math.floor(Math.random() * 900) + 100}`,
+  color: COLLABORATOR_COLORS[Math.floor(Math.random() * COLLABORATOR_COLORS.length)],
+});
+
+// Shares the scene with everyone in a relay room. Local changes show up right away and go to the
+// relay in numbered batches; the relay puts everyone's batches in one order and sends them back
+// to all clients. The scene shown is what the relay has confirmed with our own batches it hasn't
+// confirmed yet applied on top, so concurrent edits settle the same way everywhere.
+export const useCollaboration = (history: SceneHistory): Collaboration => {
+  const { shapes, selectedIds, localChanges, takeLocalChanges, applyRemote, clearHistory } = history;
+  const [status, setStatus] = useState<CollaborationStatus>('offline');
+  const [session, setSession] = useState<CollaborationSession | null>(null);
+  const [clientId] = useState(createClientId);
+  const [profile, setProfileState] = useState(() => loadProfile() ?? createProfile());
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const lastSeenRef = useRef(new Map<string, number>());
+  const presenceRef = useRef<Presence>({ ...profile, cursor: null, selectedIds: [] });
+  const presenceTimerRef = useRef(0);
+  const presenceSentRef = useRef(0);
+  const socketRef = useRef<WebSocket | null>(null); // set once the relay has sent its snapshot
+  const confirmedRef = useRef<Shape[]>([]);
+  const pendingRef = useRef<PendingBatch[]>([]);
+  const visibleRef = useRef<Shape[]>([]); // the scene as last handed to the history
+  const batchRef = useRef(0);
+
+  const join = useCallback((next: CollaborationSession) => {
+    confirmedRef.current = shapes;
+    visibleRef.current = shapes;
+    pendingRef.current = [];
+    setStatus('connecting');
+    setSession(next);
+  }, [shapes]);
+
+  const leave = useCallback(() => {
+    pendingRef.current = [];
+    setStatus('offline');
+    setSession(null);
+  }, []);
+
+  const setProfile = useCallback((next: CollaboratorProfile) => {
+    saveProfile(next);
+    setProfileState(next);
+  }, []);
+
+  const flushPresence = useCallback(() => {
+    presenceTimerRef.current = 0;
+    presenceSentRef.current = Date.now();
+    const message: ClientMessage = { type: 'presence', presence: presenceRef.current };
+    socketRef.current?.send(JSON.stringify(message));
+  }, []);
+
+  // Send right away unless something went out less than PRESENCE_INTERVAL ago; then the
+  // latest state goes out once the interval is over
+  const queuePresence = useCallback((changes: Partial<Presence>) => {
+    presenceRef.current = { ...presenceRef.current, ...changes };
+    if (presenceTimerRef.current) return;
+    const wait = presenceSentRef.current + PRESENCE_INTERVAL - Date.now();
+    if (wait <= 0) flushPresence();
+    else presenceTimerRef.current = window.setTimeout(flushPresence, wait);
+  }, [flushPresence]);
+
+  const setCursor = useCallback((cursor: Presence['cursor']) => queuePresence({ cursor }), [queuePresence]);
+
+  useEffect(() => {
+    queuePresence({ ...profile, selectedIds });
+  }, [profile, selectedIds, queuePresence]);
+
+  useEffect(() => () => window.clearTimeout(presenceTimerRef.current), []);
+
+  // Local changes become a batch of operations, sent right away when connected and kept until
+  // the relay confirms them
+  useEffect(() => {
+    if (localChanges.length === 0) return;
+    takeLocalChanges(localChanges[localChanges.length - 1].id);
+    if (!session) return;
+
+    const operations = localChanges.flatMap(({ patches }) => patchesToOperations(patches));
+    const added = operations.flatMap((operation) => (operation.type === 'add' ? [operation.shape] : []));
+    const pending = { batch: ++batchRef.current, operations, files: getFilesFor(added) };
+    pendingRef.current = [...pendingRef.current, pending];
+    visibleRef.current = applyOperations(visibleRef.current, operations);
+    const message: ClientMessage = { type: 'operations', ...pending };
+    socketRef.current?.send(JSON.stringify(message));
+  }, [localChanges, takeLocalChanges, session]);
+
+  useEffect(() => {
+    if (!session) return;
+    let socket: WebSocket | null = null;
+    let retryTimer = 0;
+    let delay = RECONNECT_DELAY;
+    let closed = false;
+    let joined = false;
+
+    const send = (message: ClientMessage) => socket?.send(JSON.stringify(message));
+
+    // Show the confirmed scene with our unconfirmed batches on top, passing only the difference on
+    const refresh = () => {
+      const visible = pendingRef.current.reduce(
+        (current, { operations }) => applyOperations(current, operations),
+        confirmedRef.current
+      );
+      applyRemote(diffShapes(visibleRef.current, visible));
+      visibleRef.current = visible;
+    };
+
+    const handleMessage = (message: RelayMessage) => {
+      // Image data comes before the shapes that use it
+      if ((message.type === 'snapshot' || message.type === 'operations') && message.files) addFiles(message.files);
+      if (message.type === 'snapshot') {
+        confirmedRef.current = message.shapes;
+        pendingRef.current = pendingRef.current.filter(({ batch }) => batch > message.ackedBatch);
+        refresh();
+        // Steps from before joining would replay local edits into the room; after a reconnect
+        // the steps are our own edits in the room and stay
+        if (!joined) clearHistory();
+        joined = true;
+        // Batches the relay never got, e.g. made while offline, go out again
+        pendingRef.current.forEach((pending) => send({ type: 'operations', ...pending }));
+        socketRef.current = socket;
+        flushPresence();
+        setStatus('connected');
+      } else if (message.type === 'presence') {
+        if (message.clientId === clientId) return;
+        lastSeenRef.current.set(message.clientId, Date.now());
+        const collaborator = { ...message.presence, clientId: message.clientId, idle: false };
+        setCollaborators((prev) =>
+          prev.some((other) => other.clientId === message.clientId)
+            ? prev.map((other) => (other.clientId === message.clientId ? collaborator : other))
+            : [...prev, collaborator]
+        );
+      } else if (message.type === 'left') {
+        setCollaborators((prev) => prev.filter((other) => other.clientId !== message.clientId));
+      } else if (message.type === 'operations') {
+        confirmedRef.current = applyOperations(confirmedRef.current, message.operations);
+        if (message.clientId === clientId) {
+          pendingRef.current = pendingRef.current.filter(({ batch }) => batch > message.batch);
+        }
+        refresh();
+      }
+    };
+
+    const connect = () => {
+      const current = new WebSocket(`${session.relayUrl.replace(/\/+$/, '')}/${encodeURIComponent(session.room)}`);
+      socket = current;
+      current.onopen = () => {
+        delay = RECONNECT_DELAY;
+        send({ type: 'join', clientId, shapes: visibleRef.current, files: getFilesFor(visibleRef.current) });
+      };
+      current.onmessage = (event) => {
+        try {
+          handleMessage(JSON.parse(event.data));
+        } catch (error) {
+          console.warn('Ignoring a message from the relay', error);
+        }
+      };
+      current.onclose = () => {
+        if (socketRef.current === current) socketRef.current = null;
+        // Whoever is still there shows up again after reconnecting
+        setCollaborators([]);
+        if (closed) return;
+        setStatus('reconnecting');
+        retryTimer = window.setTimeout(connect, delay);
+        delay = Math.min(delay * 2, MAX_RECONNECT_DELAY);
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      window.clearTimeout(retryTimer);
+      socketRef.current = null;
+      socket?.close();
+      setCollaborators([]);
+    };
+  }, [session, clientId, applyRemote, clearHistory, flushPresence]);
+
+  useEffect(() => {
+    if (!session) return;
+    const timer = window.setInterval(() => {
+      const now = Date.now();
+      setCollaborators((prev) => {
+        const next = prev.map((collaborator) => {
+          const idle = now - (lastSeenRef.current.get(collaborator.clientId) ?? 0) > IDLE_AFTER;
+          return idle === collaborator.idle ? collaborator : { ...collaborator, idle };
+        });
+        return next.some((collaborator, index) => collaborator !== prev[index]) ? next : prev;
+      });
+    }, IDLE_CHECK_INTERVAL);
+    return () => window.clearInterval(timer);
+  }, [session]);
+
+  return { status, session, join, leave, profile, setProfile, collaborators, setCursor };
+};
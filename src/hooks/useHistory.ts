@@ -0,0 +1,19 @@
+// src/hooks/useHistory.ts
+import { useState, useSyncExternalStore } from 'react';
+import type { Shape } from '../types/Shapes';
+import type { Scene, SceneState } from '../utils/scene';
+import { createScene } from '../utils/scene';
+
+export type { LocalChange, ShapesChange } from '../utils/scene';
+
+export interface SceneHistory extends SceneState, Omit<Scene, 'getState' | 'subscribe'> {
+  // The scene itself, for code outside React that reads or changes it
+  scene: Scene;
+}
+
+// Scene shapes and selection with a patch-based undo stack, re-rendering on every change
+export const useHistory = (initialShapes: Shape[]): SceneHistory => {
+  const [scene] = useState(() => createScene(initialShapes));
+  const state = useSyncExternalStore(scene.subscribe, scene.getState);
+  return { ...scene, ...state, scene };
+};
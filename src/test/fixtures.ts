@@ -0,0 +1,24 @@
+// src/test/fixtures.ts
+//
+// Shapes, scenes and stand-ins shared by the tests under src/utils.
+import { vi } from 'vitest';
+import type { Shape } from '../types/Shapes';
+import { createScene } from '../utils/scene';
+
+// A 100 by 100 rectangle with its top-left corner at x, y
+export const rect = (id: string, x = 0, y = 0): Shape => ({ id, type: 'rectangle', x, y, width: 100, height: 100 });
+
+export const sceneWith = (shapes: Shape[], selectedIds: string[]) => {
+  const scene = createScene(shapes);
+  scene.setSelection(selectedIds);
+  return scene;
+};
+
+// Text is measured on a canvas; a fixed width per character stands in for it. Undo with
+// vi.unstubAllGlobals().
+export const stubTextMeasuring = (widthPerCharacter = 10) =>
+  vi.stubGlobal('document', {
+    createElement: () => ({
+      getContext: () => ({ font: '', measureText: (text: string) => ({ width: text.length * widthPerCharacter }) }),
+    }),
+  });
@@ -0,0 +1,47 @@
+// src/types/Collaboration.ts
+import type { SceneFile } from './Document';
+import type { Shape } from './Shapes';
+
+// One change to the shared scene. Updates carry only the fields that changed; null removes a
+// field, since JSON has no undefined.
+export type ShapeOperation =
+  | { type: 'add'; index: number; shape: Shape }
+  | { type: 'remove'; id: string }
+  | { type: 'update'; id: string; fields: Record<string, unknown> }
+  // Draw order by id; shapes missing from the list keep their place
+  | { type: 'reorder'; order: string[] };
+
+// How a participant shows up to the others
+export interface CollaboratorProfile {
+  name: string;
+  color: string;
+}
+
+// What each participant shares about where they are, sent separately from scene changes
+export interface Presence extends CollaboratorProfile {
+  cursor: { x: number; y: number } | null; // scene coordinates; null when off the canvas
+  selectedIds: string[];
+}
+
+// Someone else in the room; idle once nothing was heard from them for a while
+export interface Collaborator extends Presence {
+  clientId: string;
+  idle: boolean;
+}
+
+// Sent by clients. `shapes` on join seed the room when nobody has used it yet. `files` carry the
+// data of images the shapes refer to.
+export type ClientMessage =
+  | { type: 'join'; clientId: string; shapes: Shape[]; files?: Record<string, SceneFile> }
+  | { type: 'operations'; batch: number; operations: ShapeOperation[]; files?: Record<string, SceneFile> }
+  | { type: 'presence'; presence: Presence };
+
+// Sent by the relay. `ackedBatch` is the last batch the relay applied from the joining client,
+// so it knows which of its batches to send again after reconnecting.
+export type RelayMessage =
+  | { type: 'snapshot'; shapes: Shape[]; files: Record<string, SceneFile>; ackedBatch: number }
+  | { type: 'operations'; clientId: string; batch: number; operations: ShapeOperation[]; files?: Record<string, SceneFile> }
+  | { type: 'presence'; clientId: string; presence: Presence }
+  | { type: 'left'; clientId: string };
+
+export type CollaborationStatus = 'offline' | 'connecting' | 'connected' | 'reconnecting';
@@ -0,0 +1,24 @@
+// src/types/Document.ts
+import type { Shape } from './Shapes';
+
+// Image data embedded in a document, stored once under an id derived from the content
+export interface SceneFile {
+  mimeType: string;
+  dataUrl: string;
+}
+
+// Versioned wrapper around the scene, used for anything that outlives the page
+export interface SceneDocument {
+  version: number;
+  shapes: Shape[];
+  background?: string;
+  files?: Record<string, SceneFile>; // by file id, only those image shapes use
+}
+
+// Something that was dropped while reading a document
+export interface DocumentIssue {
+  shapeIndex: number;
+  shapeId?: string;
+  field?: string; // unset when the whole shape was rejected
+  message: string;
+}
@@ -0,0 +1,11 @@
+// src/types/Export.ts
+
+export type ExportFormat = 'png' | 'svg';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  scale: number; // PNG only
+  transparentBackground: boolean;
+  includeGrid: boolean;
+  onlySelected: boolean;
+}
@@ -0,0 +1,19 @@
+// src/types/History.ts
+import type { Shape } from './Shapes';
+
+// One reversible change to the shape list
+export type ShapePatch =
+  | { type: 'add'; index: number; shape: Shape }
+  | { type: 'remove'; index: number; shape: Shape }
+  // Only the fields that changed; a field missing from the shape is recorded as undefined
+  | { type: 'update'; id: string; before: Partial<Shape>; after: Partial<Shape> }
+  // Draw order by id, before and after
+  | { type: 'reorder'; before: string[]; after: string[] };
+
+// One undo step, with the selection to restore on either side of it
+export interface HistoryEntry {
+  patches: ShapePatch[];
+  selectionBefore: string[];
+  selectionAfter: string[];
+  weight: number; // rough memory cost, see getPatchWeight
+}
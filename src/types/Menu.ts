@@ -0,0 +1,6 @@
+// src/types/Menu.ts
+
+// An entry of a context menu, or a line between groups of entries
+export type ContextMenuItem =
+  | { label: string; shortcut?: string; disabled?: boolean; checked?: boolean; onSelect: () => void }
+  | 'separator';
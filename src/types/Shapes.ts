@@ -1,5 +1,93 @@
 // src/types/Shape.ts
-export type ShapeType = 'rectangle' | 'circle' | 'line' | 'select' | 'arrow' | 'pen' | 'text';
+export type ShapeType =
+  | 'rectangle' | 'circle' | 'ellipse' | 'diamond' | 'triangle' | 'polygon' | 'star'
+  | 'line' | 'select' | 'arrow' | 'pen' | 'text' | 'image';
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export type FillStyle = 'hachure' | 'cross-hatch' | 'solid';
+
+export type DashStyle = 'solid' | 'dashed' | 'dotted';
+
+// How a line or arrow travels between its end points
+export type ConnectorRouting = 'straight' | 'elbow' | 'curved';
+
+// Mark drawn at either end of an arrow
+export type Arrowhead = 'none' | 'triangle' | 'bar' | 'dot' | 'diamond';
+
+// Visual properties edited in the style panel
+export interface ShapeStyle {
+  strokeColor: string;
+  fillColor: string; // 'transparent' for no fill
+  strokeWidth: number;
+  dashStyle: DashStyle;
+  opacity: number; // 0 - 1
+  cornerRadius: number; // rectangles only
+  sides: number; // polygon sides or star points
+  routing: ConnectorRouting; // lines and arrows only
+  startArrowhead: Arrowhead; // arrows only
+  endArrowhead: Arrowhead;
+}
+
+export type RenderMode = 'clean' | 'sketchy';
+
+// Axis-aligned box in scene coordinates
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Handles on the selection overlay: box sides and corners, rotation, line end points, the points
+// in between them (numbered from 0) and the control points of curved segments (1 near the
+// segment's start, 2 near its end)
+export type TransformHandle =
+  | 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw' | 'rotation' | 'start' | 'end'
+  | `point-${number}` | `control-${number}-${1 | 2}`;
+
+// Draw order changes for the selection; the shapes array is drawn first to last
+export type ZOrderAction = 'forward' | 'backward' | 'front' | 'back';
+
+// End point of a line or arrow attached to another shape. The attachment point is stored as a
+// fraction of the bound shape's unrotated width and height, so it follows moves, resizes and rotation.
+export interface ShapeBinding {
+  shapeId: string;
+  x: number;
+  y: number;
+}
+
+// Control points of a curved line segment, stored as offsets from the segment's start (c1) and
+// end (c2) so the curve keeps its form when the points move
+export interface SegmentCurve {
+  c1: { x: number; y: number };
+  c2: { x: number; y: number };
+}
+
+// Part of an image that is shown, as fractions of the whole image's width and height
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Pen stroke sample; pressure (0 to 1) is only recorded for styluses
+export interface PathPoint {
+  x: number;
+  y: number;
+  pressure?: number;
+}
+
+// Stroke mode removes whole shapes; partial mode cuts pen strokes where the eraser passes
+export type EraserMode = 'stroke' | 'partial';
+
+// Hand-drawn settings applied to newly drawn shapes
+export interface SketchOptions {
+  roughness: number;
+  bowing: number;
+  fillStyle: FillStyle;
+}
 
 export interface Shape {
   id: string;
@@ -11,5 +99,38 @@ export interface Shape {
   radius?: number;
   x2?: number;
   y2?: number;
-path?: { x: number; y: number }[];
+path?: PathPoint[];
+  angle?: number; // rotation in radians around the center of the unrotated bounds
+  locked?: boolean; // can't be moved, transformed or deleted until unlocked
+  groupIds?: string[]; // groups the shape belongs to, innermost first
+  // Lines and arrows - end points attached to other shapes
+  startBinding?: ShapeBinding;
+  endBinding?: ShapeBinding;
+  // Lines and arrows - points between the ends, and the curve of each segment (null for straight)
+  waypoints?: { x: number; y: number }[];
+  curves?: (SegmentCurve | null)[];
+  // Text shapes
+  text?: string;
+  fontSize?: number;
+  textAlign?: TextAlign;
+  autoSize?: boolean; // grow with the content instead of wrapping inside `width`
+  // Image shapes - the cropped part of the image is drawn stretched to width x height
+  fileId?: string; // key into the document's files
+  crop?: ImageCrop; // unset shows the whole image
+  // Hand-drawn rendering - the seed keeps the sketch identical between redraws
+  seed?: number;
+  roughness?: number;
+  bowing?: number;
+  fillStyle?: FillStyle; // pattern used for the fill color, hachure when unset
+  // Style - unset fields fall back to DEFAULT_SHAPE_STYLE
+  strokeColor?: string;
+  fillColor?: string;
+  strokeWidth?: number;
+  dashStyle?: DashStyle;
+  opacity?: number;
+  cornerRadius?: number;
+  sides?: number;
+  routing?: ConnectorRouting;
+  startArrowhead?: Arrowhead;
+  endArrowhead?: Arrowhead;
 }
@@ -0,0 +1,8 @@
+// src/types/Viewport.ts
+
+// Maps scene coordinates to the screen: screen = scene * zoom + offset
+export interface Viewport {
+  offsetX: number;
+  offsetY: number;
+  zoom: number;
+}
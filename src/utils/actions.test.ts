@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { rect, sceneWith } from '../test/fixtures';
+import type { Shape } from '../types/Shapes';
+import {
+  applySketchOptions,
+  applyStyle,
+  deleteSelection,
+  duplicateSelection,
+  groupSelection,
+  reorderSelection,
+  selectAll,
+  toggleLock,
+} from './actions';
+
+describe('selection actions', () => {
+  it('duplicates the selection beside the originals and selects the copies', () => {
+    const scene = sceneWith([rect('a'), rect('b', 200)], ['a']);
+    duplicateSelection(scene);
+    const { shapes, selectedIds } = scene.getState();
+    expect(shapes).toHaveLength(3);
+    expect(selectedIds).toEqual([shapes[2].id]);
+    expect(shapes[2].x).toBeGreaterThan(0);
+  });
+
+  it('deletes the selection as one undo step', () => {
+    const scene = sceneWith([rect('a'), rect('b', 200)], ['a', 'b']);
+    deleteSelection(scene);
+    expect(scene.getState().shapes).toEqual([]);
+    scene.undo();
+    expect(scene.getState().shapes).toHaveLength(2);
+  });
+
+  it('selects everything and reorders the selection', () => {
+    const scene = sceneWith([rect('a'), rect('b', 200), rect('c', 400)], ['a']);
+    reorderSelection(scene, 'front');
+    expect(scene.getState().shapes.map((shape) => shape.id)).toEqual(['b', 'c', 'a']);
+
+    selectAll(scene);
+    expect(scene.getState().selectedIds).toEqual(['b', 'c', 'a']);
+  });
+
+  it('only groups two or more shapes', () => {
+    const scene = sceneWith([rect('a'), rect('b', 200)], ['a']);
+    groupSelection(scene, null);
+    expect(scene.getState().canUndo).toBe(false);
+
+    scene.setSelection(['a', 'b']);
+    groupSelection(scene, null);
+    const [a, b] = scene.getState().shapes;
+    expect(a.groupIds).toHaveLength(1);
+    expect(b.groupIds).toEqual(a.groupIds);
+  });
+
+  it('locks a partly locked selection and unlocks a fully locked one', () => {
+    const scene = sceneWith([{ ...rect('a'), locked: true }, rect('b', 200)], ['a', 'b']);
+    toggleLock(scene);
+    expect(scene.getState().shapes.every((shape) => shape.locked)).toBe(true);
+    toggleLock(scene);
+    expect(scene.getState().shapes.some((shape) => shape.locked)).toBe(false);
+  });
+
+  it('applies only the style fields a shape has', () => {
+    const text: Shape = { id: 't', type: 'text', x: 0, y: 0, text: 'hi' };
+    const scene = sceneWith([rect('a'), text], ['a', 't']);
+    applyStyle(scene, { strokeColor: '#ff0000', cornerRadius: 8 });
+    const [a, t] = scene.getState().shapes;
+    expect(a).toMatchObject({ strokeColor: '#ff0000', cornerRadius: 8 });
+    expect(t.cornerRadius).toBeUndefined();
+  });
+
+  it('leaves live style and sketch edits out of the history until committed', () => {
+    const scene = sceneWith([rect('a')], ['a']);
+    applySketchOptions(scene, { roughness: 2 }, { record: false });
+    expect(scene.getState().shapes[0].roughness).toBe(2);
+    expect(scene.getState().canUndo).toBe(false);
+
+    scene.commit();
+    expect(scene.getState().canUndo).toBe(true);
+  });
+});
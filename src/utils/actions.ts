@@ -0,0 +1,63 @@
+// src/utils/actions.ts
+//
+// Actions on the selected shapes of a scene, shared by the keyboard shortcuts, the context menu and
+// the style panel. Each one that changes shapes records one undo step, except style edits passed
+// `record: false` while a slider is being dragged.
+import type { Shape, ShapeStyle, SketchOptions, ZOrderAction } from '../types/Shapes';
+import { PASTE_OFFSET, cloneShapes, newShapeId } from './clipboard';
+import { pickSketchOptionsFor } from './rough';
+import type { ChangeOptions, Scene } from './scene';
+import { pickStyleFor } from './style';
+
+export const getSelectedShapes = (scene: Scene): Shape[] => {
+  const { shapes, selectedIds } = scene.getState();
+  return shapes.filter((shape) => selectedIds.includes(shape.id));
+};
+
+export const selectAll = (scene: Scene) => scene.setSelection(scene.getState().shapes.map((shape) => shape.id));
+
+// Copies land just beside the originals and become the selection
+export const duplicateSelection = (scene: Scene) => {
+  const selected = getSelectedShapes(scene);
+  if (selected.length === 0) return;
+  scene.addShapes(cloneShapes(selected, PASTE_OFFSET, PASTE_OFFSET));
+};
+
+export const deleteSelection = (scene: Scene) => {
+  const { selectedIds } = scene.getState();
+  if (selectedIds.length === 0) return;
+  scene.removeShapes(selectedIds);
+};
+
+export const reorderSelection = (scene: Scene, action: ZOrderAction) =>
+  scene.reorderShapes(scene.getState().selectedIds, action);
+
+export const groupSelection = (scene: Scene, editingGroupId: string | null) => {
+  const { selectedIds } = scene.getState();
+  if (selectedIds.length < 2) return;
+  scene.groupShapes(selectedIds, newShapeId(), editingGroupId);
+};
+
+export const ungroupSelection = (scene: Scene, editingGroupId: string | null) =>
+  scene.ungroupShapes(scene.getState().selectedIds, editingGroupId);
+
+// Unlocks the selection when all of it is locked, otherwise locks all of it
+export const toggleLock = (scene: Scene) => {
+  const selected = getSelectedShapes(scene);
+  if (selected.length === 0) return;
+  const locked = !selected.every((shape) => shape.locked);
+  scene.editShapes(Object.fromEntries(selected.map((shape) => [shape.id, { locked: locked || undefined }])));
+};
+
+// Each shape only takes the style fields that apply to its type
+export const applyStyle = (scene: Scene, updates: Partial<ShapeStyle>, options?: ChangeOptions) =>
+  scene.editShapes(
+    Object.fromEntries(getSelectedShapes(scene).map((shape) => [shape.id, pickStyleFor(shape.type, updates)])),
+    options
+  );
+
+export const applySketchOptions = (scene: Scene, updates: Partial<SketchOptions>, options?: ChangeOptions) =>
+  scene.editShapes(
+    Object.fromEntries(getSelectedShapes(scene).map((shape) => [shape.id, pickSketchOptionsFor(shape.type, updates)])),
+    options
+  );
@@ -0,0 +1,52 @@
+// src/utils/arrowheads.ts
+//
+// Arrowheads as simple outlines, so the canvas, the hand-drawn renderer and SVG export all draw
+// the same marks. Polygons and dots are filled with the stroke color.
+import type { Arrowhead, Shape } from '../types/Shapes';
+import { getConnectorEndAngle, getConnectorVertices } from './geometry';
+import { getShapeStyle, hasArrowheads } from './style';
+
+type Point = { x: number; y: number };
+
+export type ArrowheadPart =
+  | { kind: 'polygon'; points: Point[] }
+  | { kind: 'line'; from: Point; to: Point }
+  | { kind: 'dot'; center: Point; radius: number };
+
+// Outline of one arrowhead whose tip is at `tip`, pointing along `angle`
+const getArrowheadPart = (arrowhead: Arrowhead, tip: Point, angle: number, length: number): ArrowheadPart | null => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  // `back` units behind the tip and `side` units to its left
+  const at = (back: number, side: number): Point => ({
+    x: tip.x - cos * back + sin * side,
+    y: tip.y - sin * back - cos * side,
+  });
+
+  switch (arrowhead) {
+    case 'triangle':
+      return {
+        kind: 'polygon',
+        points: [tip, at(length * Math.cos(Math.PI / 6), length / 2), at(length * Math.cos(Math.PI / 6), -length / 2)],
+      };
+    case 'diamond':
+      return { kind: 'polygon', points: [tip, at(length / 2, length / 3), at(length, 0), at(length / 2, -length / 3)] };
+    case 'bar':
+      return { kind: 'line', from: at(0, length / 2), to: at(0, -length / 2) };
+    case 'dot':
+      return { kind: 'dot', center: at(length / 3, 0), radius: length / 3 };
+    default:
+      return null;
+  }
+};
+
+// Arrowheads at both ends of an arrow; `length` is how far a head reaches back along the line
+export const getArrowheadParts = (shape: Shape, length: number): ArrowheadPart[] => {
+  if (!hasArrowheads(shape.type)) return [];
+  const { startArrowhead, endArrowhead } = getShapeStyle(shape);
+  const vertices = getConnectorVertices(shape);
+  return [
+    getArrowheadPart(startArrowhead, vertices[0], getConnectorEndAngle(shape, 'start'), length),
+    getArrowheadPart(endArrowhead, vertices[vertices.length - 1], getConnectorEndAngle(shape, 'end'), length),
+  ].filter((part): part is ArrowheadPart => part !== null);
+};
@@ -0,0 +1,163 @@
+// src/utils/bindings.ts
+//
+// Lines and arrows whose end points are attached to other shapes.
+import type { Shape, ShapeBinding, ShapeType } from '../types/Shapes';
+import { getShapeAngle, getShapeCenter, getUnrotatedBounds, rotatePoint } from './geometry';
+import { getClosestOutlinePoint, isInsideOutline, isOutlineShape } from './outlines';
+
+type Point = { x: number; y: number };
+
+export const canBind = (type: ShapeType) =>
+  type === 'rectangle' || type === 'circle' || type === 'text' || type === 'image' || isOutlineShape(type);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const toFraction = (value: number, min: number, max: number) => (max > min ? (value - min) / (max - min) : 0.5);
+
+// Nearest point on the shape's outline, in its unrotated frame
+const getOutlinePoint = (shape: Shape, local: Point): Point => {
+  if (shape.type === 'circle') {
+    const radius = shape.radius || 0;
+    const angle = Math.atan2(local.y - shape.y, local.x - shape.x);
+    return { x: shape.x + Math.cos(angle) * radius, y: shape.y + Math.sin(angle) * radius };
+  }
+  if (isOutlineShape(shape.type)) {
+    return getClosestOutlinePoint(shape, local);
+  }
+
+  const bounds = getUnrotatedBounds(shape);
+  const x = clamp(local.x, bounds.minX, bounds.maxX);
+  const y = clamp(local.y, bounds.minY, bounds.maxY);
+  if (x !== local.x || y !== local.y) return { x, y };
+
+  // Inside the box - push out to the closest edge
+  const edges = [
+    { distance: x - bounds.minX, point: { x: bounds.minX, y } },
+    { distance: bounds.maxX - x, point: { x: bounds.maxX, y } },
+    { distance: y - bounds.minY, point: { x, y: bounds.minY } },
+    { distance: bounds.maxY - y, point: { x, y: bounds.maxY } },
+  ];
+  return edges.reduce((closest, edge) => (edge.distance < closest.distance ? edge : closest)).point;
+};
+
+// How far the point is outside the shape, zero when it's inside (unrotated frame)
+const getDistanceOutside = (shape: Shape, local: Point): number => {
+  if (shape.type === 'circle') {
+    return Math.max(0, Math.hypot(local.x - shape.x, local.y - shape.y) - (shape.radius || 0));
+  }
+  if (isOutlineShape(shape.type)) {
+    if (isInsideOutline(shape, local)) return 0;
+    const outline = getClosestOutlinePoint(shape, local);
+    return Math.hypot(local.x - outline.x, local.y - outline.y);
+  }
+  const bounds = getUnrotatedBounds(shape);
+  const dx = Math.max(bounds.minX - local.x, 0, local.x - bounds.maxX);
+  const dy = Math.max(bounds.minY - local.y, 0, local.y - bounds.maxY);
+  return Math.hypot(dx, dy);
+};
+
+export const getBindingPoint = (target: Shape, binding: ShapeBinding): Point => {
+  const bounds = getUnrotatedBounds(target);
+  const local = {
+    x: bounds.minX + (bounds.maxX - bounds.minX) * binding.x,
+    y: bounds.minY + (bounds.maxY - bounds.minY) * binding.y,
+  };
+  return rotatePoint(local, getShapeCenter(target), getShapeAngle(target));
+};
+
+// Topmost bindable shape within `tolerance` of the point, with the binding and the snapped end point
+export const findBindTarget = (
+  shapes: Shape[],
+  point: Point,
+  tolerance: number
+): { binding: ShapeBinding; point: Point } | null => {
+  for (let i = shapes.length - 1; i >= 0; i--) {
+    const shape = shapes[i];
+    if (!canBind(shape.type)) continue;
+
+    const local = rotatePoint(point, getShapeCenter(shape), -getShapeAngle(shape));
+    if (getDistanceOutside(shape, local) > tolerance) continue;
+
+    const outline = getOutlinePoint(shape, local);
+    const bounds = getUnrotatedBounds(shape);
+    const binding = {
+      shapeId: shape.id,
+      x: toFraction(outline.x, bounds.minX, bounds.maxX),
+      y: toFraction(outline.y, bounds.minY, bounds.maxY),
+    };
+    return { binding, point: getBindingPoint(shape, binding) };
+  }
+  return null;
+};
+
+// Attach a line or arrow end point to the shape under the pointer, or release it. Returns the
+// shape it attached to as well, for highlighting.
+export const attachEndpoint = (
+  shapes: Shape[],
+  shape: Shape,
+  end: 'start' | 'end',
+  pointer: Point,
+  tolerance: number
+): { shape: Shape; targetId: string | null } => {
+  const target = findBindTarget(shapes.filter((other) => other.id !== shape.id), pointer, tolerance);
+  const targetId = target ? target.binding.shapeId : null;
+  if (end === 'start') {
+    return target
+      ? { shape: { ...shape, x: target.point.x, y: target.point.y, startBinding: target.binding }, targetId }
+      : { shape: { ...shape, startBinding: undefined }, targetId };
+  }
+  return target
+    ? { shape: { ...shape, x2: target.point.x, y2: target.point.y, endBinding: target.binding }, targetId }
+    : { shape: { ...shape, endBinding: undefined }, targetId };
+};
+
+// Move bound end points onto their shapes and drop bindings to shapes that no longer exist.
+// Untouched shapes keep their identity so render caches and history snapshots stay valid.
+export const updateBoundConnectors = (shapes: Shape[]): Shape[] => {
+  const byId = new Map(shapes.map((shape) => [shape.id, shape]));
+  let changed = false;
+
+  const updated = shapes.map((shape) => {
+    if (!shape.startBinding && !shape.endBinding) return shape;
+
+    const start = shape.startBinding && byId.get(shape.startBinding.shapeId);
+    const end = shape.endBinding && byId.get(shape.endBinding.shapeId);
+    const startPoint = start && shape.startBinding ? getBindingPoint(start, shape.startBinding) : { x: shape.x, y: shape.y };
+    const endPoint = end && shape.endBinding
+      ? getBindingPoint(end, shape.endBinding)
+      : { x: shape.x2 ?? shape.x, y: shape.y2 ?? shape.y };
+
+    if (
+      !!start === !!shape.startBinding && !!end === !!shape.endBinding &&
+      startPoint.x === shape.x && startPoint.y === shape.y &&
+      endPoint.x === shape.x2 && endPoint.y === shape.y2
+    ) {
+      return shape;
+    }
+
+    changed = true;
+    return {
+      ...shape,
+      x: startPoint.x,
+      y: startPoint.y,
+      x2: endPoint.x,
+      y2: endPoint.y,
+      startBinding: start ? shape.startBinding : undefined,
+      endBinding: end ? shape.endBinding : undefined,
+    };
+  });
+
+  return changed ? updated : shapes;
+};
+
+// Let go of shapes outside `keepIds`, e.g. when a connector is dragged away on its own
+export const detachConnector = (shape: Shape, keepIds: string[]): Shape => {
+  const keepStart = !shape.startBinding || keepIds.includes(shape.startBinding.shapeId);
+  const keepEnd = !shape.endBinding || keepIds.includes(shape.endBinding.shapeId);
+  if (keepStart && keepEnd) return shape;
+  return {
+    ...shape,
+    startBinding: keepStart ? shape.startBinding : undefined,
+    endBinding: keepEnd ? shape.endBinding : undefined,
+  };
+};
@@ -0,0 +1,102 @@
+// src/utils/clipboard.ts
+//
+// Shapes on the system clipboard. The custom MIME type lets other tabs of the app recognise
+// the data; the same JSON also goes on text/plain for browsers that drop custom types.
+import type { Shape, ShapeBinding } from '../types/Shapes';
+import { createDocument, readDocument } from './document';
+import { addFiles, getFilesFor } from './files';
+import { moveShape } from './geometry';
+
+export const CLIPBOARD_TYPE = 'excil-draw/clipboard';
+export const CLIPBOARD_MIME_TYPE = 'application/vnd.excil-draw.clipboard+json';
+
+// Distance between a copy and its original when it isn't placed at the cursor
+export const PASTE_OFFSET = 20;
+
+export const serializeClipboard = (shapes: Shape[]): string =>
+  JSON.stringify({ type: CLIPBOARD_TYPE, ...createDocument(shapes, undefined, getFilesFor(shapes)) });
+
+// Shapes copied from this app, or null when the text is anything else. Images that came along
+// are added to the file store.
+export const parseClipboard = (text: string): Shape[] | null => {
+  if (!text) return null;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw !== 'object' || (raw as { type?: unknown }).type !== CLIPBOARD_TYPE) {
+    return null;
+  }
+
+  try {
+    const { document } = readDocument(raw);
+    addFiles(document.files);
+    return document.shapes;
+  } catch {
+    return null;
+  }
+};
+
+let idCounter = 0;
+// Random per session, so two collaborators creating shapes in the same millisecond get different ids
+const idPrefix = Math.random().toString(36).slice(2, 8);
+
+// Ids that stay unique when many shapes are created within the same millisecond
+export const newShapeId = () => `${Date.now()}-${idPrefix}-${(idCounter++).toString(36)}`;
+
+// Copies with fresh ids, moved by the given distance. Bindings between copied shapes
+// point at the copies; bindings to shapes that weren't copied are dropped. Copied groups
+// get fresh ids too, so the copies form groups of their own.
+export const cloneShapes = (shapes: Shape[], dx: number, dy: number): Shape[] => {
+  const newIds = new Map(shapes.map((shape) => [shape.id, newShapeId()]));
+  const rebind = (binding?: ShapeBinding) => {
+    const shapeId = binding && newIds.get(binding.shapeId);
+    return binding && shapeId ? { ...binding, shapeId } : undefined;
+  };
+
+  const newGroupIds = new Map<string, string>();
+  const regroup = (groupIds?: string[]) =>
+    groupIds?.map((groupId) => {
+      if (!newGroupIds.has(groupId)) newGroupIds.set(groupId, newShapeId());
+      return newGroupIds.get(groupId)!;
+    });
+
+  return shapes.map((shape) => ({
+    ...moveShape(shape, dx, dy),
+    id: newIds.get(shape.id)!,
+    startBinding: rebind(shape.startBinding),
+    endBinding: rebind(shape.endBinding),
+    groupIds: regroup(shape.groupIds),
+  }));
+};
+
+// What can be pasted onto the canvas: shapes copied from this app, an image, or plain text
+export interface ClipboardContent {
+  shapes: Shape[] | null;
+  image: Blob | null;
+  text: string;
+}
+
+// For menu actions, which have no clipboard event to read from or write to. The async API
+// only exposes plain text and images, so shapes travel as their text/plain copy.
+export const writeSystemClipboard = (shapes: Shape[]): Promise<void> =>
+  navigator.clipboard.writeText(serializeClipboard(shapes));
+
+export const readSystemClipboard = async (): Promise<ClipboardContent> => {
+  const content: ClipboardContent = { shapes: null, image: null, text: '' };
+  if (!navigator.clipboard.read) {
+    content.text = await navigator.clipboard.readText();
+  } else {
+    for (const item of await navigator.clipboard.read()) {
+      const imageType = item.types.find((type) => type.startsWith('image/'));
+      if (imageType && !content.image) content.image = await item.getType(imageType);
+      if (item.types.includes('text/plain') && !content.text) {
+        content.text = await (await item.getType('text/plain')).text();
+      }
+    }
+  }
+  content.shapes = parseClipboard(content.text);
+  return content;
+};
@@ -0,0 +1,176 @@
+// src/utils/connectors.ts
+//
+// Editing the points of lines and arrows: dragging waypoints and curve control points, adding and
+// removing waypoints, and turning segments into curves and back.
+import type { SegmentCurve, Shape, TransformHandle } from '../types/Shapes';
+import {
+  distanceToSegment,
+  getConnectorSegments,
+  getConnectorVertices,
+  getSegmentPoints,
+  isRoutedConnector,
+  snapLineAngle,
+} from './geometry';
+
+type Point = { x: number; y: number };
+
+// How far a new curve's control points sit to the side, relative to the segment's length
+const CURVE_BULGE = 0.25;
+
+type ConnectorHandle = { kind: 'point'; index: number } | { kind: 'control'; index: number; end: 1 | 2 };
+
+// The waypoint or control point behind a handle, if it is one
+export const parseConnectorHandle = (handle: TransformHandle): ConnectorHandle | null => {
+  const point = /^point-(\d+)$/.exec(handle);
+  if (point) return { kind: 'point', index: Number(point[1]) };
+  const control = /^control-(\d+)-([12])$/.exec(handle);
+  if (control) return { kind: 'control', index: Number(control[1]), end: control[2] === '1' ? 1 : 2 };
+  return null;
+};
+
+// A routed line with its elbows or curve written out as waypoints and curves, so points can be
+// added to it without changing how it looks
+const toExplicitRoute = (shape: Shape): Shape => {
+  if (!isRoutedConnector(shape) || !shape.routing || shape.routing === 'straight') return shape;
+  const segments = getConnectorSegments(shape);
+  return {
+    ...shape,
+    routing: undefined,
+    waypoints: segments.length > 1 ? segments.slice(1).map(({ from }) => from) : undefined,
+    curves: segments.map(({ from, to, controls }) => controls
+      ? {
+          c1: { x: controls[0].x - from.x, y: controls[0].y - from.y },
+          c2: { x: controls[1].x - to.x, y: controls[1].y - to.y },
+        }
+      : null),
+  };
+};
+
+// Drop trailing straight entries and the list itself once nothing is curved
+const tidyCurves = (curves: (SegmentCurve | null)[]) => {
+  const trimmed = [...curves];
+  while (trimmed.length > 0 && !trimmed[trimmed.length - 1]) trimmed.pop();
+  return trimmed.length > 0 ? trimmed : undefined;
+};
+
+// Drag a waypoint or control point. Snapping keeps a waypoint at 45 degree steps from the point
+// before it; control points move freely.
+export const moveConnectorHandle = (original: Shape, handle: TransformHandle, pointer: Point, snap: boolean): Shape => {
+  const parsed = parseConnectorHandle(handle);
+  if (!parsed) return original;
+  const vertices = getConnectorVertices(original);
+
+  if (parsed.kind === 'point') {
+    const point = snap ? snapLineAngle(vertices[parsed.index], pointer) : pointer;
+    return {
+      ...original,
+      waypoints: (original.waypoints || []).map((waypoint, i) => (i === parsed.index ? point : waypoint)),
+    };
+  }
+
+  const curve = original.curves?.[parsed.index];
+  if (!curve) return original;
+  const anchor = parsed.end === 1 ? vertices[parsed.index] : vertices[parsed.index + 1];
+  const offset = { x: pointer.x - anchor.x, y: pointer.y - anchor.y };
+  const curves = [...(original.curves || [])];
+  curves[parsed.index] = parsed.end === 1 ? { ...curve, c1: offset } : { ...curve, c2: offset };
+  return { ...original, curves };
+};
+
+// Index of the segment passing within `tolerance` of the point (routed lines count as one
+// segment), or -1
+export const findConnectorSegment = (shape: Shape, point: Point, tolerance: number): number => {
+  const segments = getConnectorSegments(toExplicitRoute(shape));
+  return segments.findIndex((segment) => {
+    const points = getSegmentPoints(segment);
+    return points.slice(1).some((to, i) => distanceToSegment(point, points[i], to) <= tolerance);
+  });
+};
+
+const lerp = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+// Add a waypoint on the segment under the point. A curved segment is split where the point is
+// closest to it, so both halves keep following the same curve. Returns null when the point is
+// off the line.
+export const insertWaypoint = (shape: Shape, point: Point, tolerance: number): Shape | null => {
+  const explicit = toExplicitRoute(shape);
+  const index = findConnectorSegment(explicit, point, tolerance);
+  if (index < 0) return null;
+
+  const { from, to, controls } = getConnectorSegments(explicit)[index];
+  const waypoints = [...(explicit.waypoints || [])];
+  const curves = [...(explicit.curves || [])];
+
+  if (!controls) {
+    waypoints.splice(index, 0, point);
+    if (curves.length > index) curves.splice(index, 0, null);
+    return { ...explicit, waypoints, curves: tidyCurves(curves) };
+  }
+
+  // De Casteljau split at the nearest sample
+  const samples = getSegmentPoints({ from, to, controls });
+  let nearest = 0;
+  samples.forEach((sample, i) => {
+    if (Math.hypot(sample.x - point.x, sample.y - point.y) < Math.hypot(samples[nearest].x - point.x, samples[nearest].y - point.y)) {
+      nearest = i;
+    }
+  });
+  const t = Math.min(Math.max(nearest / (samples.length - 1), 0.05), 0.95);
+  const a = lerp(from, controls[0], t);
+  const b = lerp(controls[0], controls[1], t);
+  const c = lerp(controls[1], to, t);
+  const ab = lerp(a, b, t);
+  const bc = lerp(b, c, t);
+  const split = lerp(ab, bc, t);
+
+  waypoints.splice(index, 0, split);
+  curves.splice(
+    index,
+    1,
+    { c1: { x: a.x - from.x, y: a.y - from.y }, c2: { x: ab.x - split.x, y: ab.y - split.y } },
+    { c1: { x: bc.x - split.x, y: bc.y - split.y }, c2: { x: c.x - to.x, y: c.y - to.y } }
+  );
+  return { ...explicit, waypoints, curves: tidyCurves(curves) };
+};
+
+// Remove a waypoint, joining the segments on either side. The joined segment keeps the outer
+// control points when either half was curved.
+export const removeWaypoint = (shape: Shape, index: number): Shape => {
+  const waypoints = (shape.waypoints || []).filter((_, i) => i !== index);
+  const curves = [...(shape.curves || [])];
+  const before = curves[index];
+  const after = curves[index + 1];
+  const joined = before || after
+    ? { c1: before ? before.c1 : { x: 0, y: 0 }, c2: after ? after.c2 : { x: 0, y: 0 } }
+    : null;
+  curves.splice(index, 2, joined);
+  return { ...shape, waypoints: waypoints.length > 0 ? waypoints : undefined, curves: tidyCurves(curves) };
+};
+
+// Turn one segment (or every segment when `index` is null) into a curve or back into a straight
+// line. New curves bow out to one side with their control points a third of the way along.
+export const setSegmentsCurved = (shape: Shape, index: number | null, curved: boolean): Shape => {
+  const explicit = toExplicitRoute(shape);
+  const vertices = getConnectorVertices(explicit);
+  const curves = vertices.slice(1).map((to, i): SegmentCurve | null => {
+    const current = explicit.curves?.[i] ?? null;
+    if (index !== null && i !== index) return current;
+    if (!curved) return null;
+    if (current) return current;
+
+    const from = vertices[i];
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const side = { x: -dy * CURVE_BULGE, y: dx * CURVE_BULGE };
+    return {
+      c1: { x: dx / 3 + side.x, y: dy / 3 + side.y },
+      c2: { x: -dx / 3 + side.x, y: -dy / 3 + side.y },
+    };
+  });
+  return { ...explicit, curves: tidyCurves(curves) };
+};
+
+// Whether each segment is curved, counting a routed line's elbows as separate segments the same
+// way findConnectorSegment does
+export const getCurvedSegments = (shape: Shape): boolean[] =>
+  getConnectorSegments(toExplicitRoute(shape)).map(({ controls }) => !!controls);
@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+import { rect } from '../test/fixtures';
+import type { ContextMenuItem } from '../types/Menu';
+import type { Shape } from '../types/Shapes';
+import { getCanvasMenuItems, getSelectionMenuItems } from './contextMenu';
+import type { MenuContext } from './contextMenu';
+import { createScene } from './scene';
+import type { Scene } from './scene';
+import { DEFAULT_SHAPE_STYLE } from './style';
+
+const createContext = (scene: Scene, overrides: Partial<MenuContext> = {}): MenuContext => ({
+  scene,
+  point: { x: 0, y: 0 },
+  handle: null,
+  hitRadius: 8,
+  editingGroupId: null,
+  croppingId: null,
+  copiedStyle: null,
+  showGrid: false,
+  gridSnap: false,
+  handlers: {
+    copy: vi.fn(),
+    cut: vi.fn(),
+    paste: vi.fn(),
+    copyStyle: vi.fn(),
+    toggleGrid: vi.fn(),
+    toggleGridSnap: vi.fn(),
+    openExportDialog: vi.fn(),
+    toggleCrop: vi.fn(),
+  },
+  ...overrides,
+});
+
+const find = (items: ContextMenuItem[], label: string) => {
+  const item = items.find((entry) => entry !== 'separator' && entry.label === label);
+  if (!item || item === 'separator') throw new Error(`No "${label}" entry`);
+  return item;
+};
+
+describe('getCanvasMenuItems', () => {
+  it('selects everything through the scene and shows the grid settings', () => {
+    const scene = createScene([rect('a'), rect('b', 200)]);
+    const items = getCanvasMenuItems(createContext(scene, { gridSnap: true }));
+
+    find(items, 'Select all').onSelect();
+    expect(scene.getState().selectedIds).toEqual(['a', 'b']);
+    expect(find(items, 'Show grid').checked).toBe(false);
+    expect(find(items, 'Snap to grid').checked).toBe(true);
+  });
+});
+
+describe('getSelectionMenuItems', () => {
+  it('disables edits that locked or single shapes cannot take', () => {
+    const scene = createScene([{ ...rect('a'), locked: true }]);
+    scene.setSelection(['a']);
+    const items = getSelectionMenuItems(createContext(scene));
+
+    expect(find(items, 'Cut').disabled).toBe(true);
+    expect(find(items, 'Delete').disabled).toBe(true);
+    expect(find(items, 'Group').disabled).toBe(true);
+    expect(find(items, 'Unlock').disabled).toBeFalsy();
+    expect(find(items, 'Paste style').disabled).toBe(true);
+  });
+
+  it('pastes a copied style onto the selection as one undoable change', () => {
+    const scene = createScene([rect('a'), rect('b', 200)]);
+    scene.setSelection(['a', 'b']);
+    find(getSelectionMenuItems(createContext(scene, { copiedStyle: { ...DEFAULT_SHAPE_STYLE, strokeColor: '#ff0000' } })), 'Paste style').onSelect();
+
+    expect(scene.getState().shapes.map((shape) => shape.strokeColor)).toEqual(['#ff0000', '#ff0000']);
+    scene.undo();
+    expect(scene.getState().shapes.map((shape) => shape.strokeColor)).toEqual([undefined, undefined]);
+  });
+
+  it('edits the points of a selected line where the menu was opened', () => {
+    const line: Shape = { id: 'line', type: 'line', x: 0, y: 0, x2: 100, y2: 0 };
+    const scene = createScene([line]);
+    scene.setSelection(['line']);
+    const items = getSelectionMenuItems(createContext(scene, { point: { x: 50, y: 2 } }));
+
+    expect(find(items, 'Remove point').disabled).toBe(true);
+    find(items, 'Add point').onSelect();
+    expect(scene.getState().shapes[0].waypoints).toHaveLength(1);
+    expect(scene.getState().canUndo).toBe(true);
+  });
+});
@@ -0,0 +1,156 @@
+// src/utils/contextMenu.ts
+//
+// Entries of the canvas context menu. Entries that edit shapes act on the scene directly; the
+// clipboard, the grid, dialogs and cropping belong to the canvas and are reached through handlers.
+import type { ContextMenuItem } from '../types/Menu';
+import type { Shape, ShapeStyle, TransformHandle } from '../types/Shapes';
+import {
+  applyStyle,
+  deleteSelection,
+  duplicateSelection,
+  getSelectedShapes,
+  groupSelection,
+  reorderSelection,
+  selectAll,
+  toggleLock,
+  ungroupSelection,
+} from './actions';
+import {
+  findConnectorSegment,
+  getCurvedSegments,
+  insertWaypoint,
+  parseConnectorHandle,
+  removeWaypoint,
+  setSegmentsCurved,
+} from './connectors';
+import { resetCrop } from './crop';
+import { isLinear } from './geometry';
+import { getSelectionGroupId } from './groups';
+import type { Scene } from './scene';
+import { getShapeStyle } from './style';
+
+type Point = { x: number; y: number };
+
+export interface MenuHandlers {
+  copy: () => void;
+  cut: () => void;
+  paste: () => void;
+  copyStyle: (style: ShapeStyle) => void;
+  toggleGrid: () => void;
+  toggleGridSnap: () => void;
+  openExportDialog: () => void;
+  toggleCrop: (id: string) => void;
+}
+
+export interface MenuContext {
+  scene: Scene;
+  point: Point; // scene point the menu was opened at
+  handle: TransformHandle | null; // selection handle under that point
+  hitRadius: number; // how close the point has to be to a line to count as on it
+  editingGroupId: string | null;
+  croppingId: string | null;
+  copiedStyle: ShapeStyle | null;
+  showGrid: boolean;
+  gridSnap: boolean;
+  handlers: MenuHandlers;
+}
+
+const getPasteItem = ({ handlers }: MenuContext): ContextMenuItem =>
+  ({ label: 'Paste', shortcut: 'Ctrl+V', onSelect: handlers.paste });
+
+// Opened over empty canvas
+export const getCanvasMenuItems = (context: MenuContext): ContextMenuItem[] => {
+  const { scene, handlers } = context;
+  return [
+    getPasteItem(context),
+    { label: 'Select all', shortcut: 'Ctrl+A', onSelect: () => selectAll(scene) },
+    'separator',
+    { label: 'Show grid', checked: context.showGrid, onSelect: handlers.toggleGrid },
+    { label: 'Snap to grid', checked: context.gridSnap, onSelect: handlers.toggleGridSnap },
+    { label: 'Export image...', shortcut: 'Ctrl+Shift+E', onSelect: handlers.openExportDialog },
+  ];
+};
+
+// Point and curve editing for a line or arrow, acting on the point or segment the menu was
+// opened over, or on every segment when it wasn't opened over one
+const getConnectorMenuItems = (shape: Shape, context: MenuContext): ContextMenuItem[] => {
+  const { scene, point, hitRadius } = context;
+  const replace = (edited: Shape) => scene.replaceShapes([edited]);
+  const parsed = context.handle && parseConnectorHandle(context.handle);
+  const waypointIndex = parsed && parsed.kind === 'point' ? parsed.index : null;
+  const segment = findConnectorSegment(shape, point, hitRadius);
+  const index = segment >= 0 ? segment : null;
+  const curved = getCurvedSegments(shape);
+  const affected = index === null ? curved : [curved[index]];
+
+  return [
+    {
+      label: 'Add point',
+      disabled: index === null || waypointIndex !== null,
+      onSelect: () => {
+        const edited = insertWaypoint(shape, point, hitRadius);
+        if (edited) replace(edited);
+      },
+    },
+    {
+      label: 'Remove point',
+      disabled: waypointIndex === null,
+      onSelect: () => waypointIndex !== null && replace(removeWaypoint(shape, waypointIndex)),
+    },
+    {
+      label: index === null ? 'Curve all segments' : 'Curve segment',
+      disabled: affected.every(Boolean),
+      onSelect: () => replace(setSegmentsCurved(shape, index, true)),
+    },
+    {
+      label: index === null ? 'Straighten all segments' : 'Straighten segment',
+      disabled: !affected.some(Boolean),
+      onSelect: () => replace(setSegmentsCurved(shape, index, false)),
+    },
+  ];
+};
+
+const getImageMenuItems = (shape: Shape, context: MenuContext): ContextMenuItem[] => [
+  {
+    label: 'Crop image',
+    checked: context.croppingId === shape.id,
+    onSelect: () => context.handlers.toggleCrop(shape.id),
+  },
+  { label: 'Reset crop', disabled: !shape.crop, onSelect: () => context.scene.replaceShapes([resetCrop(shape)]) },
+];
+
+// Opened over a shape, acting on the selection
+export const getSelectionMenuItems = (context: MenuContext): ContextMenuItem[] => {
+  const { scene, handlers, editingGroupId, copiedStyle } = context;
+  const selected = getSelectedShapes(scene);
+  const allLocked = selected.length > 0 && selected.every((shape) => shape.locked);
+  const isGrouped = selected.some((shape) => getSelectionGroupId(shape, editingGroupId));
+  const [single] = selected;
+  const isSingleUnlocked = selected.length === 1 && !single.locked;
+
+  return [
+    { label: 'Copy', shortcut: 'Ctrl+C', onSelect: handlers.copy },
+    { label: 'Cut', shortcut: 'Ctrl+X', disabled: allLocked, onSelect: handlers.cut },
+    getPasteItem(context),
+    { label: 'Duplicate', shortcut: 'Ctrl+D', onSelect: () => duplicateSelection(scene) },
+    { label: 'Delete', shortcut: 'Del', disabled: allLocked, onSelect: () => deleteSelection(scene) },
+    'separator',
+    { label: 'Bring forward', shortcut: 'Ctrl+]', onSelect: () => reorderSelection(scene, 'forward') },
+    { label: 'Send backward', shortcut: 'Ctrl+[', onSelect: () => reorderSelection(scene, 'backward') },
+    { label: 'Bring to front', shortcut: 'Ctrl+Shift+]', onSelect: () => reorderSelection(scene, 'front') },
+    { label: 'Send to back', shortcut: 'Ctrl+Shift+[', onSelect: () => reorderSelection(scene, 'back') },
+    'separator',
+    { label: 'Group', shortcut: 'Ctrl+G', disabled: selected.length < 2, onSelect: () => groupSelection(scene, editingGroupId) },
+    { label: 'Ungroup', shortcut: 'Ctrl+Shift+G', disabled: !isGrouped, onSelect: () => ungroupSelection(scene, editingGroupId) },
+    { label: allLocked ? 'Unlock' : 'Lock', shortcut: 'Ctrl+Shift+L', onSelect: () => toggleLock(scene) },
+    'separator',
+    {
+      label: 'Copy style',
+      disabled: selected.length !== 1,
+      onSelect: () => handlers.copyStyle(getShapeStyle(single)),
+    },
+    { label: 'Paste style', disabled: !copiedStyle, onSelect: () => copiedStyle && applyStyle(scene, copiedStyle) },
+    ...(isSingleUnlocked && isLinear(single.type) ? ['separator' as const, ...getConnectorMenuItems(single, context)] : []),
+    ...(isSingleUnlocked && single.type === 'image' ? ['separator' as const, ...getImageMenuItems(single, context)] : []),
+  ];
+};
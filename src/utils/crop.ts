@@ -0,0 +1,73 @@
+// src/utils/crop.ts
+//
+// Cropping image shapes. A crop is the part of the image that is shown, in fractions of the whole
+// image, so it doesn't change when the image is resized. Everything here works in the shape's
+// unrotated frame.
+import type { Bounds, ImageCrop, Shape, TransformHandle } from '../types/Shapes';
+import { getShapeAngle, getShapeCenter, getUnrotatedBounds, rotatePoint } from './geometry';
+
+type Point = { x: number; y: number };
+
+const FULL_CROP: ImageCrop = { x: 0, y: 0, width: 1, height: 1 };
+
+// Smallest box a crop can shrink an image to, in scene units
+const MIN_CROP_SIZE = 8;
+
+export const getImageCrop = (shape: Shape): ImageCrop => shape.crop ?? FULL_CROP;
+
+// Box the whole image takes up at the shape's current scale, with the shown part where the shape is
+export const getUncroppedBounds = (shape: Shape): Bounds => {
+  const crop = getImageCrop(shape);
+  const bounds = getUnrotatedBounds(shape);
+  const fullWidth = (bounds.maxX - bounds.minX) / crop.width;
+  const fullHeight = (bounds.maxY - bounds.minY) / crop.height;
+  const minX = bounds.minX - crop.x * fullWidth;
+  const minY = bounds.minY - crop.y * fullHeight;
+  return { minX, minY, maxX: minX + fullWidth, maxY: minY + fullHeight };
+};
+
+// Show the part of the image inside `box`. The box's center is turned with the shape, so edges
+// that didn't move stay still on screen for rotated images.
+const showArea = (original: Shape, box: Bounds, full: Bounds): Shape => {
+  const center = getShapeCenter(original);
+  const localCenter = { x: (box.minX + box.maxX) / 2, y: (box.minY + box.maxY) / 2 };
+  const rotatedCenter = rotatePoint(localCenter, center, getShapeAngle(original));
+  const fullWidth = full.maxX - full.minX;
+  const fullHeight = full.maxY - full.minY;
+  const crop = {
+    x: (box.minX - full.minX) / fullWidth,
+    y: (box.minY - full.minY) / fullHeight,
+    width: (box.maxX - box.minX) / fullWidth,
+    height: (box.maxY - box.minY) / fullHeight,
+  };
+  const isFull = crop.x <= 0 && crop.y <= 0 && crop.width >= 1 && crop.height >= 1;
+  return {
+    ...original,
+    x: box.minX + rotatedCenter.x - localCenter.x,
+    y: box.minY + rotatedCenter.y - localCenter.y,
+    width: box.maxX - box.minX,
+    height: box.maxY - box.minY,
+    crop: isFull ? undefined : crop,
+  };
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Drag a crop handle: the edges it moves follow the pointer, but stay inside the image and
+// keep a minimum size
+export const cropImage = (original: Shape, handle: TransformHandle, pointer: Point): Shape => {
+  const local = rotatePoint(pointer, getShapeCenter(original), -getShapeAngle(original));
+  const full = getUncroppedBounds(original);
+  const box = { ...getUnrotatedBounds(original) };
+  if (handle.includes('w')) box.minX = clamp(local.x, full.minX, box.maxX - MIN_CROP_SIZE);
+  if (handle.includes('e')) box.maxX = clamp(local.x, box.minX + MIN_CROP_SIZE, full.maxX);
+  if (handle.startsWith('n')) box.minY = clamp(local.y, full.minY, box.maxY - MIN_CROP_SIZE);
+  if (handle.startsWith('s')) box.maxY = clamp(local.y, box.minY + MIN_CROP_SIZE, full.maxY);
+  return showArea(original, box, full);
+};
+
+// Show the whole image again, growing the shape around the part that was shown
+export const resetCrop = (shape: Shape): Shape => {
+  const full = getUncroppedBounds(shape);
+  return showArea(shape, full, full);
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { rect } from '../test/fixtures';
+import { DEFAULT_BACKGROUND, DOCUMENT_VERSION, DocumentError, getFileId, readDocument, validateShapes } from './document';
+
+const PNG = 'data:image/png;base64,aGVsbG8=';
+
+describe('validateShapes', () => {
+  it('drops unknown and invalid optional fields, reporting each', () => {
+    const { shapes, issues } = validateShapes([{ ...rect('a'), color: 'red', opacity: 'high', strokeWidth: 2 }]);
+    expect(shapes).toEqual([{ ...rect('a'), strokeWidth: 2 }]);
+    expect(issues.map((issue) => issue.field)).toEqual(['color', 'opacity']);
+  });
+
+  it('rejects shapes missing a required field, and duplicate ids', () => {
+    const { shapes, issues } = validateShapes([{ id: 'a', type: 'rectangle', x: 0 }, rect('b'), rect('b', 200), null]);
+    expect(shapes.map((shape) => shape.id)).toEqual(['b']);
+    expect(issues.map((issue) => [issue.shapeIndex, issue.message])).toEqual([
+      [0, 'Missing or invalid required field "y"'],
+      [2, 'Duplicate shape id'],
+      [3, 'Not a shape object'],
+    ]);
+  });
+
+  it('removes bindings to shapes that are not in the document', () => {
+    const arrow = { id: 'arrow', type: 'arrow', x: 0, y: 0, x2: 50, y2: 0, endBinding: { shapeId: 'gone', x: 0, y: 0.5 } };
+    const { shapes, issues } = validateShapes([arrow]);
+    expect(shapes[0].endBinding).toBeUndefined();
+    expect(issues[0]).toMatchObject({ shapeId: 'arrow', field: 'endBinding' });
+  });
+});
+
+describe('readDocument', () => {
+  it('moves version 1 image data off the shapes into files', () => {
+    const { document, issues } = readDocument({
+      version: 1,
+      shapes: [{ id: 'i', type: 'image', x: 0, y: 0, width: 10, height: 10, src: PNG }],
+    });
+    const fileId = getFileId(PNG);
+    expect(document.version).toBe(DOCUMENT_VERSION);
+    expect(document.shapes[0]).toEqual({ id: 'i', type: 'image', x: 0, y: 0, width: 10, height: 10, fileId });
+    expect(document.files).toEqual({ [fileId]: { mimeType: 'image/png', dataUrl: PNG } });
+    expect(issues).toEqual([]);
+  });
+
+  it('keeps images whose data is missing and reports them', () => {
+    const { document, issues } = readDocument({
+      version: 2,
+      shapes: [{ id: 'i', type: 'image', x: 0, y: 0, fileId: 'missing' }],
+      background: 42,
+    });
+    expect(document.shapes).toHaveLength(1);
+    expect(document.background).toBe(DEFAULT_BACKGROUND);
+    expect(issues).toEqual([{ shapeIndex: 0, shapeId: 'i', field: 'fileId', message: 'Image data not found' }]);
+  });
+
+  it('leaves out files no shape uses', () => {
+    const { document } = readDocument({ version: 2, shapes: [rect('a')], files: { x: { mimeType: 'image/png', dataUrl: PNG } } });
+    expect(document.files).toBeUndefined();
+  });
+
+  it('refuses documents it cannot read', () => {
+    expect(() => readDocument({ shapes: [] })).toThrow(DocumentError);
+    expect(() => readDocument({ version: DOCUMENT_VERSION + 1, shapes: [] })).toThrow(/newer/);
+    expect(() => readDocument([])).toThrow('Not a drawing document');
+  });
+});
+
+describe('getFileId', () => {
+  it('gives the same id for the same data and different ids otherwise', () => {
+    expect(getFileId(PNG)).toBe(getFileId(`${PNG}`));
+    expect(getFileId(PNG)).not.toBe(getFileId('data:image/png;base64,aGVsbG9=='));
+    expect(getFileId(PNG)).toMatch(/^[0-9a-f]{16}-[0-9a-z]+$/);
+  });
+});
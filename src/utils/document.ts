@@ -0,0 +1,331 @@
+// src/utils/document.ts
+import type { DocumentIssue, SceneDocument, SceneFile } from '../types/Document';
+import type { Shape } from '../types/Shapes';
+
+// Bump this and add a migration below whenever the stored shape format changes
+export const DOCUMENT_VERSION = 2;
+
+export const DEFAULT_BACKGROUND = '#fafafa';
+
+type FieldSpec =
+  | { kind: 'number' | 'string' | 'boolean'; required?: boolean }
+  | { kind: 'enum'; values: readonly string[]; required?: boolean }
+  | { kind: 'points' }
+  | { kind: 'curves' }
+  | { kind: 'crop' }
+  | { kind: 'strings' }
+  | { kind: 'binding' };
+
+// Schema for every Shape field - keyed by keyof Shape so new fields can't be forgotten here
+const SHAPE_SCHEMA: Record<keyof Shape, FieldSpec> = {
+  id: { kind: 'string', required: true },
+  type: {
+    kind: 'enum',
+    values: ['rectangle', 'circle', 'ellipse', 'diamond', 'triangle', 'polygon', 'star', 'line', 'arrow', 'pen', 'text', 'image'],
+    required: true,
+  },
+  x: { kind: 'number', required: true },
+  y: { kind: 'number', required: true },
+  width: { kind: 'number' },
+  height: { kind: 'number' },
+  radius: { kind: 'number' },
+  x2: { kind: 'number' },
+  y2: { kind: 'number' },
+  path: { kind: 'points' },
+  angle: { kind: 'number' },
+  locked: { kind: 'boolean' },
+  groupIds: { kind: 'strings' },
+  startBinding: { kind: 'binding' },
+  endBinding: { kind: 'binding' },
+  waypoints: { kind: 'points' },
+  curves: { kind: 'curves' },
+  text: { kind: 'string' },
+  fontSize: { kind: 'number' },
+  textAlign: { kind: 'enum', values: ['left', 'center', 'right'] },
+  autoSize: { kind: 'boolean' },
+  fileId: { kind: 'string' },
+  crop: { kind: 'crop' },
+  seed: { kind: 'number' },
+  roughness: { kind: 'number' },
+  bowing: { kind: 'number' },
+  fillStyle: { kind: 'enum', values: ['hachure', 'cross-hatch', 'solid'] },
+  strokeColor: { kind: 'string' },
+  fillColor: { kind: 'string' },
+  strokeWidth: { kind: 'number' },
+  dashStyle: { kind: 'enum', values: ['solid', 'dashed', 'dotted'] },
+  opacity: { kind: 'number' },
+  cornerRadius: { kind: 'number' },
+  sides: { kind: 'number' },
+  routing: { kind: 'enum', values: ['straight', 'elbow', 'curved'] },
+  startArrowhead: { kind: 'enum', values: ['none', 'triangle', 'bar', 'dot', 'diamond'] },
+  endArrowhead: { kind: 'enum', values: ['none', 'triangle', 'bar', 'dot', 'diamond'] },
+};
+
+// File ids are a hash of the content (64 bits plus the length), so the same image added twice
+// is stored once. This lives here rather than with the file store because migrations need it.
+export const getFileId = (dataUrl: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < dataUrl.length; i++) {
+    const code = dataUrl.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const hex = (value: number) => (value >>> 0).toString(16).padStart(8, '0');
+  return `${hex(h2)}${hex(h1)}-${dataUrl.length.toString(36)}`;
+};
+
+export const createSceneFile = (dataUrl: string): { id: string; file: SceneFile } => ({
+  id: getFileId(dataUrl),
+  file: { mimeType: /^data:([^;,]+)/.exec(dataUrl)?.[1] ?? 'application/octet-stream', dataUrl },
+});
+
+type StoredDocument = { version: number; shapes: unknown[]; background?: unknown; files?: unknown };
+
+type Migration = (doc: StoredDocument) => StoredDocument;
+
+// Each entry upgrades a document from the keyed version to the next one
+const migrations: Record<number, Migration> = {
+  // Version 1 kept each image's data URL on the shape as `src`; version 2 stores it once in `files`
+  1: (doc) => {
+    const files: Record<string, SceneFile> = {};
+    const shapes = doc.shapes.map((value) => {
+      const shape = value as Record<string, unknown> | null;
+      if (!shape || typeof shape !== 'object' || typeof shape.src !== 'string') return value;
+      const { id, file } = createSceneFile(shape.src);
+      files[id] = file;
+      const migrated: Record<string, unknown> = { ...shape, fileId: id };
+      delete migrated.src;
+      return migrated;
+    });
+    return { version: 2, shapes, files };
+  },
+};
+
+// Only the files the shapes use are kept, so deleted images don't linger in saved documents
+export const createDocument = (
+  shapes: Shape[],
+  background = DEFAULT_BACKGROUND,
+  files: Record<string, SceneFile> = {}
+): SceneDocument => {
+  const used = Object.entries(files).filter(([id]) => shapes.some((shape) => shape.fileId === id));
+  return {
+    version: DOCUMENT_VERSION,
+    shapes,
+    background,
+    ...(used.length > 0 && { files: Object.fromEntries(used) }),
+  };
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isPoint = (value: unknown): value is { x: number; y: number } => {
+  const point = value as Record<string, unknown> | null;
+  return !!point && typeof point === 'object' && isFiniteNumber(point.x) && isFiniteNumber(point.y);
+};
+
+const describeField = (spec: FieldSpec) => {
+  switch (spec.kind) {
+    case 'enum':
+      return `one of ${spec.values.join(', ')}`;
+    case 'points':
+      return 'a list of {x, y} points, with an optional pressure from 0 to 1';
+    case 'curves':
+      return 'a list of {c1, c2} control point offsets or nulls';
+    case 'crop':
+      return 'a {x, y, width, height} crop in fractions of the image from 0 to 1';
+    case 'strings':
+      return 'a list of strings';
+    case 'binding':
+      return 'a {shapeId, x, y} binding';
+    default:
+      return `a ${spec.kind}`;
+  }
+};
+
+const matchesField = (spec: FieldSpec, value: unknown): boolean => {
+  switch (spec.kind) {
+    case 'number':
+      return isFiniteNumber(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'enum':
+      return typeof value === 'string' && spec.values.includes(value);
+    case 'points':
+      return Array.isArray(value) && value.every((point) =>
+        point && typeof point === 'object' && isFiniteNumber(point.x) && isFiniteNumber(point.y) &&
+        (point.pressure === undefined || (isFiniteNumber(point.pressure) && point.pressure >= 0 && point.pressure <= 1))
+      );
+    case 'curves':
+      return Array.isArray(value) && value.every((curve) =>
+        curve === null || (typeof curve === 'object' && isPoint(curve.c1) && isPoint(curve.c2))
+      );
+    case 'strings':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string');
+    case 'crop': {
+      const crop = value as Record<string, unknown> | null;
+      return !!crop && typeof crop === 'object' &&
+        isFiniteNumber(crop.x) && isFiniteNumber(crop.y) && isFiniteNumber(crop.width) && isFiniteNumber(crop.height) &&
+        crop.x >= 0 && crop.y >= 0 && crop.width > 0 && crop.height > 0 &&
+        crop.x + crop.width <= 1 + 1e-6 && crop.y + crop.height <= 1 + 1e-6;
+    }
+    case 'binding': {
+      const binding = value as Record<string, unknown> | null;
+      return !!binding && typeof binding === 'object' && typeof binding.shapeId === 'string' &&
+        isFiniteNumber(binding.x) && isFiniteNumber(binding.y);
+    }
+  }
+};
+
+// Check one shape against SHAPE_SCHEMA. Bad optional fields and unknown fields are dropped;
+// a missing or bad required field rejects the whole shape.
+export const validateShape = (value: unknown, shapeIndex: number): { shape: Shape | null; issues: DocumentIssue[] } => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { shape: null, issues: [{ shapeIndex, message: 'Not a shape object' }] };
+  }
+
+  const raw = value as Record<string, unknown>;
+  const shapeId = typeof raw.id === 'string' ? raw.id : undefined;
+  const issues: DocumentIssue[] = [];
+  const shape: Record<string, unknown> = {};
+
+  for (const [field, fieldValue] of Object.entries(raw)) {
+    const spec = SHAPE_SCHEMA[field as keyof Shape];
+    if (!spec) {
+      issues.push({ shapeIndex, shapeId, field, message: 'Unknown field' });
+    } else if (fieldValue === undefined || fieldValue === null) {
+      continue;
+    } else if (!matchesField(spec, fieldValue)) {
+      issues.push({ shapeIndex, shapeId, field, message: `Expected ${describeField(spec)}` });
+    } else {
+      shape[field] = fieldValue;
+    }
+  }
+
+  for (const [field, spec] of Object.entries(SHAPE_SCHEMA)) {
+    if ('required' in spec && spec.required && !(field in shape)) {
+      return {
+        shape: null,
+        issues: [{ shapeIndex, shapeId, message: `Missing or invalid required field "${field}"` }],
+      };
+    }
+  }
+
+  return { shape: shape as unknown as Shape, issues };
+};
+
+export const validateShapes = (values: unknown[]): { shapes: Shape[]; issues: DocumentIssue[] } => {
+  const shapes: Shape[] = [];
+  const issues: DocumentIssue[] = [];
+  const seenIds = new Set<string>();
+  const shapeIndexes: number[] = []; // position of each kept shape in the input
+
+  values.forEach((value, index) => {
+    const result = validateShape(value, index);
+    issues.push(...result.issues);
+    if (!result.shape) return;
+
+    if (seenIds.has(result.shape.id)) {
+      issues.push({ shapeIndex: index, shapeId: result.shape.id, message: 'Duplicate shape id' });
+      return;
+    }
+    seenIds.add(result.shape.id);
+    shapes.push(result.shape);
+    shapeIndexes.push(index);
+  });
+
+  // Bindings can only point at shapes that made it into the document
+  shapes.forEach((shape, index) => {
+    (['startBinding', 'endBinding'] as const).forEach((field) => {
+      const binding = shape[field];
+      if (binding && !seenIds.has(binding.shapeId)) {
+        issues.push({
+          shapeIndex: shapeIndexes[index],
+          shapeId: shape.id,
+          field,
+          message: `Bound shape "${binding.shapeId}" not found`,
+        });
+        delete shape[field];
+      }
+    });
+  });
+
+  return { shapes, issues };
+};
+
+// Embedded files that hold a data URL; anything else is left out
+export const validateFiles = (value: unknown): Record<string, SceneFile> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).flatMap(([id, entry]) => {
+      const file = entry as Record<string, unknown> | null;
+      return file && typeof file === 'object' && typeof file.mimeType === 'string' &&
+        typeof file.dataUrl === 'string' && file.dataUrl.startsWith('data:')
+        ? [[id, { mimeType: file.mimeType, dataUrl: file.dataUrl }]]
+        : [];
+    })
+  );
+};
+
+export class DocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentError';
+  }
+}
+
+// Bring any supported document up to DOCUMENT_VERSION; throws DocumentError if it can't be read
+export const migrateDocument = (raw: unknown): StoredDocument => {
+  let doc: StoredDocument;
+
+  // Version 1 is the first format anything was saved in
+  if (raw && typeof raw === 'object' && Array.isArray((raw as SceneDocument).shapes)) {
+    const { version, shapes, background, files } = raw as SceneDocument;
+    if (!Number.isInteger(version) || version < 1) {
+      throw new DocumentError('Document has no valid version');
+    }
+    doc = { version, shapes, background, files };
+  } else {
+    throw new DocumentError('Not a drawing document');
+  }
+
+  if (doc.version > DOCUMENT_VERSION) {
+    throw new DocumentError(`Document version ${doc.version} is newer than this app supports (${DOCUMENT_VERSION})`);
+  }
+
+  while (doc.version < DOCUMENT_VERSION) {
+    const migrate = migrations[doc.version];
+    if (!migrate) {
+      throw new DocumentError(`No migration from document version ${doc.version}`);
+    }
+    doc = { ...doc, ...migrate(doc) };
+  }
+
+  return doc;
+};
+
+// Migrate and validate in one go, returning a document that is safe to render
+export const readDocument = (raw: unknown): { document: SceneDocument; issues: DocumentIssue[] } => {
+  const migrated = migrateDocument(raw);
+  const { shapes, issues } = validateShapes(migrated.shapes);
+  const background = typeof migrated.background === 'string' ? migrated.background : DEFAULT_BACKGROUND;
+  const files = validateFiles(migrated.files);
+
+  // Images whose data is missing stay in place and are drawn as a placeholder
+  shapes.forEach((shape) => {
+    if (shape.type !== 'image' || (shape.fileId && files[shape.fileId])) return;
+    issues.push({
+      shapeIndex: migrated.shapes.findIndex((value) => (value as Shape | null)?.id === shape.id),
+      shapeId: shape.id,
+      field: 'fileId',
+      message: 'Image data not found',
+    });
+  });
+
+  return { document: createDocument(shapes, background, files), issues };
+};
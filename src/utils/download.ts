@@ -0,0 +1,14 @@
+// src/utils/download.ts
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// e.g. drawing-2024-06-10.png
+export const datedFileName = (extension: string) =>
+  `drawing-${new Date().toISOString().slice(0, 10)}${extension}`;
@@ -0,0 +1,87 @@
+// src/utils/eraser.ts
+//
+// Partial erasing: cutting the part of a pen stroke the eraser passed over out of it. The
+// pieces left on either side become strokes of their own.
+import type { PathPoint, Shape } from '../types/Shapes';
+import { distanceToSegment, getShapeAngle, getShapeBounds, getShapeCenter, rotatePoint } from './geometry';
+import { getPointWidth, simplifyPath } from './freehand';
+import { getShapeStyle } from './style';
+
+type Point = { x: number; y: number };
+
+// Add points along every segment so a cut can land between the recorded samples
+const densifyPath = (path: PathPoint[], spacing: number): PathPoint[] =>
+  path.flatMap((point, index) => {
+    const next = path[index + 1];
+    if (!next) return [point];
+    const steps = Math.max(1, Math.ceil(Math.hypot(next.x - point.x, next.y - point.y) / spacing));
+    return Array.from({ length: steps }, (_, step) => {
+      const t = step / steps;
+      return {
+        x: point.x + (next.x - point.x) * t,
+        y: point.y + (next.y - point.y) * t,
+        ...(point.pressure !== undefined && next.pressure !== undefined && {
+          pressure: point.pressure + (next.pressure - point.pressure) * t,
+        }),
+      };
+    });
+  });
+
+// Cut what the eraser covered moving from `from` to `to` out of a pen stroke. Returns the pieces
+// left over (none when the whole stroke is gone), or null when the eraser missed the stroke.
+// The first piece keeps the stroke's id; `tolerance` is passed on to simplify the pieces.
+export const eraseFromStroke = (
+  shape: Shape,
+  from: Point,
+  to: Point,
+  radius: number,
+  tolerance: number,
+  createId: () => string
+): Shape[] | null => {
+  if (shape.type !== 'pen' || !shape.path || shape.path.length === 0) return null;
+
+  const { strokeWidth } = getShapeStyle(shape);
+  const reach = radius + getPointWidth({ x: 0, y: 0, pressure: 1 }, strokeWidth) / 2;
+  const bounds = getShapeBounds(shape);
+  if (
+    Math.max(from.x, to.x) < bounds.minX - reach || Math.min(from.x, to.x) > bounds.maxX + reach ||
+    Math.max(from.y, to.y) < bounds.minY - reach || Math.min(from.y, to.y) > bounds.maxY + reach
+  ) {
+    return null;
+  }
+
+  // Pieces are cut in scene coordinates, so a rotated stroke's angle is applied to its points
+  const angle = getShapeAngle(shape);
+  const center = getShapeCenter(shape);
+  const path = densifyPath(
+    shape.path.map((point) => ({ ...point, ...rotatePoint(point, center, angle) })),
+    radius / 2
+  );
+  const isErased = (point: PathPoint) =>
+    distanceToSegment(point, from, to) < radius + getPointWidth(point, strokeWidth) / 2;
+  if (!path.some(isErased)) return null;
+
+  const pieces: PathPoint[][] = [[]];
+  path.forEach((point) => {
+    if (!isErased(point)) {
+      pieces[pieces.length - 1].push(point);
+    } else if (pieces[pieces.length - 1].length > 0) {
+      pieces.push([]);
+    }
+  });
+
+  // Single points left between two cuts would show up as stray dots
+  return pieces
+    .filter((piece) => piece.length > 1)
+    .map((piece, index) => {
+      const simplified = simplifyPath(piece, tolerance);
+      return {
+        ...shape,
+        id: index === 0 ? shape.id : createId(),
+        x: simplified[0].x,
+        y: simplified[0].y,
+        angle: undefined,
+        path: simplified,
+      };
+    });
+};
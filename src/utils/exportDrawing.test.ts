@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { rect } from '../test/fixtures';
+import type { ExportOptions } from '../types/Export';
+import { createExportFile } from './exportDrawing';
+
+const settings = { background: '#fafafa', gridSize: 20, renderMode: 'clean', arrowHeadLength: 15 } as const;
+const svgOptions: ExportOptions = {
+  format: 'svg',
+  scale: 1,
+  transparentBackground: false,
+  includeGrid: false,
+  onlySelected: false,
+};
+
+describe('createExportFile', () => {
+  it('gives nothing to download without shapes', async () => {
+    expect(await createExportFile([], svgOptions, settings)).toBeNull();
+  });
+
+  it('follows the dialog on background and grid', async () => {
+    const plain = await createExportFile([rect('a')], svgOptions, settings);
+    expect(plain?.fileName).toMatch(/^drawing-\d{4}-\d{2}-\d{2}\.svg$/);
+    expect(plain?.blob.type).toBe('image/svg+xml');
+    const svg = await plain!.blob.text();
+    expect(svg).toContain('fill="#fafafa"');
+    expect(svg).not.toContain('pattern');
+
+    const gridded = await createExportFile([rect('a')], { ...svgOptions, transparentBackground: true, includeGrid: true }, settings);
+    const griddedSvg = await gridded!.blob.text();
+    expect(griddedSvg).not.toContain('#fafafa');
+    expect(griddedSvg).toContain('width="20" height="20"');
+  });
+});
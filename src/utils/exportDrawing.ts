@@ -0,0 +1,47 @@
+// src/utils/exportDrawing.ts
+//
+// The export dialog's choices turned into a PNG or SVG file and downloaded.
+import type { ExportOptions } from '../types/Export';
+import type { RenderMode, Shape } from '../types/Shapes';
+import { datedFileName, downloadBlob } from './download';
+import { exportToPng, getExportBounds } from './exportPng';
+import { exportToSvg } from './exportSvg';
+
+// How the drawing looks on screen, which the export follows
+export interface DrawingExportSettings {
+  background: string;
+  gridSize: number;
+  renderMode: RenderMode;
+  arrowHeadLength: number;
+}
+
+// The exported image with a file name for it, or null when there's nothing to export or the
+// browser couldn't produce the PNG
+export const createExportFile = async (
+  shapes: Shape[],
+  options: ExportOptions,
+  settings: DrawingExportSettings
+): Promise<{ blob: Blob; fileName: string } | null> => {
+  if (shapes.length === 0) return null;
+
+  const exportOptions = {
+    bounds: getExportBounds(shapes),
+    scale: options.scale,
+    background: options.transparentBackground ? undefined : settings.background,
+    gridSize: options.includeGrid ? settings.gridSize : undefined,
+    renderMode: settings.renderMode,
+    arrowHeadLength: settings.arrowHeadLength,
+  };
+  if (options.format === 'png') {
+    const blob = await exportToPng(shapes, exportOptions);
+    return blob && { blob, fileName: datedFileName('.png') };
+  }
+
+  const svg = exportToSvg(shapes, exportOptions);
+  return { blob: new Blob([svg], { type: 'image/svg+xml' }), fileName: datedFileName('.svg') };
+};
+
+export const exportDrawing = async (shapes: Shape[], options: ExportOptions, settings: DrawingExportSettings) => {
+  const file = await createExportFile(shapes, options, settings);
+  if (file) downloadBlob(file.blob, file.fileName);
+};
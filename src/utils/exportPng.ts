@@ -0,0 +1,81 @@
+// src/utils/exportPng.ts
+//
+// PNG export: the shapes drawn with the canvas renderer onto an offscreen canvas sized to their
+// bounds. The bounds are shared with SVG export so both formats frame a drawing the same way.
+import type { Bounds, RenderMode, Shape } from '../types/Shapes';
+import { getFilesFor } from './files';
+import { getCommonBounds } from './geometry';
+import { loadImage } from './image';
+import { drawGrid, drawShape } from './renderer';
+import { getShapeStyle } from './style';
+
+// Space around exported content, and the largest bitmap browsers reliably allocate
+const EXPORT_PADDING = 16;
+const MAX_EXPORT_SIDE = 16384;
+
+export interface PngExportOptions {
+  bounds: Bounds; // area to export, in scene coordinates
+  scale: number; // pixels per scene unit, lowered when the image would get too large
+  background?: string; // omitted for a transparent background
+  gridSize?: number; // omitted to leave out the grid
+  renderMode: RenderMode;
+  arrowHeadLength: number;
+}
+
+// Content bounds of the exported shapes, with room for stroke widths and a margin
+export const getExportBounds = (shapes: Shape[]): Bounds => {
+  const margin = EXPORT_PADDING + Math.max(...shapes.map((shape) => getShapeStyle(shape).strokeWidth));
+  const bounds = getCommonBounds(shapes);
+  return {
+    minX: bounds.minX - margin,
+    minY: bounds.minY - margin,
+    maxX: bounds.maxX + margin,
+    maxY: bounds.maxY + margin,
+  };
+};
+
+// Bitmap size of the export and the scale it ends up drawn at
+export const getPngSize = (bounds: Bounds, scale: number) => {
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+  const fitted = Math.min(scale, MAX_EXPORT_SIDE / width, MAX_EXPORT_SIDE / height);
+  return { width: Math.ceil(width * fitted), height: Math.ceil(height * fitted), scale: fitted };
+};
+
+// Draw the export onto a context of the size getPngSize gives
+export const drawPng = (context: CanvasRenderingContext2D, shapes: Shape[], options: PngExportOptions) => {
+  const { bounds, background, gridSize } = options;
+  const { width, height, scale } = getPngSize(bounds, options.scale);
+
+  if (background) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, width, height);
+  }
+
+  context.setTransform(scale, 0, 0, scale, -bounds.minX * scale, -bounds.minY * scale);
+  if (gridSize) {
+    drawGrid(context, bounds, scale, gridSize);
+  }
+  const renderOptions = { renderMode: options.renderMode, arrowHeadLength: options.arrowHeadLength };
+  shapes.forEach((shape) => drawShape(context, shape, renderOptions));
+};
+
+// Images only start loading when first drawn on screen, so ones out of view or in a file just
+// opened may not have loaded yet. Ones that fail to decode are drawn as placeholders.
+const loadImagesFor = (shapes: Shape[]) =>
+  Promise.all(Object.values(getFilesFor(shapes)).map((file) => loadImage(file.dataUrl).catch(() => null)));
+
+// Null when the browser couldn't allocate or encode the image
+export const exportToPng = async (shapes: Shape[], options: PngExportOptions): Promise<Blob | null> => {
+  await loadImagesFor(shapes);
+
+  const { width, height } = getPngSize(options.bounds, options.scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  drawPng(context, shapes, options);
+  return new Promise((resolve) => canvas.toBlob(resolve, 'image/png'));
+};
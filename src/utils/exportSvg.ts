@@ -0,0 +1,239 @@
+// src/utils/exportSvg.ts
+import rough from 'roughjs';
+import type { Bounds, RenderMode, Shape } from '../types/Shapes';
+import { getArrowheadParts } from './arrowheads';
+import { getImageCrop } from './crop';
+import { getFile } from './files';
+import { getCenterlinePathData, getStrokePathData } from './freehand';
+import { getConnectorPathData, getShapeAngle, getShapeCenter, getUnrotatedBounds } from './geometry';
+import { getOutlinePathData } from './outlines';
+import { getRoughDrawables } from './rough';
+import { getLineDash, getShapeStyle, hasFill, isTransparent } from './style';
+import { DEFAULT_FONT_SIZE, TEXT_FONT_FAMILY, layoutText } from './text';
+
+export interface SvgExportOptions {
+  bounds: Bounds; // area to export, in scene coordinates
+  background?: string; // omitted for a transparent background
+  gridSize?: number; // omitted to leave out the grid
+  renderMode: RenderMode;
+  arrowHeadLength: number;
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatValue = (value: string | number) =>
+  typeof value === 'string' ? escapeXml(value) : String(Number(value.toFixed(2)));
+
+const attrs = (values: Record<string, string | number | undefined>) =>
+  Object.entries(values)
+    .filter((entry): entry is [string, string | number] => entry[1] !== undefined && entry[1] !== '')
+    .map(([key, value]) => `${key}="${formatValue(value)}"`)
+    .join(' ');
+
+const roughGenerator = rough.generator();
+
+const roughShapeToSvg = (shape: Shape, arrowHeadLength: number): string => {
+  return getRoughDrawables(shape, { arrowHeadLength })
+    .flatMap((drawable) => drawable.sets.map((set) => {
+      const d = roughGenerator.opsToPath(set);
+      const { options } = drawable;
+      switch (set.type) {
+        case 'fillPath':
+          return `<path ${attrs({ d, fill: options.fill, stroke: 'none' })} />`;
+        case 'fillSketch':
+          // Hachure lines stay solid, only the outline follows the dash style
+          return `<path ${attrs({
+            d,
+            fill: 'none',
+            stroke: options.fill,
+            'stroke-width': options.fillWeight > 0 ? options.fillWeight : options.strokeWidth / 2,
+          })} />`;
+        default:
+          return `<path ${attrs({
+            d,
+            fill: 'none',
+            stroke: options.stroke,
+            'stroke-width': options.strokeWidth,
+            // Set per drawable, since arrowheads stay solid on dashed arrows
+            'stroke-dasharray': options.strokeLineDash?.join(' '),
+          })} />`;
+      }
+    }))
+    .join('');
+};
+
+const textToSvg = (shape: Shape, fill: string): string => {
+  const layout = layoutText(shape);
+  const align = shape.textAlign || 'left';
+  const anchor = align === 'center' ? 'middle' : align === 'right' ? 'end' : 'start';
+  const x = align === 'center' ? shape.x + layout.width / 2
+    : align === 'right' ? shape.x + layout.width
+    : shape.x;
+
+  const lines = layout.lines
+    .map((line, index) => `<tspan ${attrs({ x, y: shape.y + index * layout.lineHeight })}>${escapeXml(line)}</tspan>`)
+    .join('');
+
+  return `<text ${attrs({
+    fill,
+    'font-family': TEXT_FONT_FAMILY,
+    'font-size': shape.fontSize || DEFAULT_FONT_SIZE,
+    'text-anchor': anchor,
+    'dominant-baseline': 'text-before-edge',
+    'xml:space': 'preserve',
+  })}>${lines}</text>`;
+};
+
+const cleanShapeToSvg = (shape: Shape, arrowHeadLength: number): string => {
+  const style = getShapeStyle(shape);
+  const stroke = {
+    stroke: style.strokeColor,
+    'stroke-width': style.strokeWidth,
+    'stroke-dasharray': getLineDash(style.dashStyle, style.strokeWidth).join(' '),
+    'stroke-linecap': 'round',
+    'stroke-linejoin': 'round',
+  };
+  const fill = hasFill(shape.type) && !isTransparent(style.fillColor) ? style.fillColor : 'none';
+
+  switch (shape.type) {
+    case 'rectangle': {
+      const width = shape.width || 0;
+      const height = shape.height || 0;
+      const radius = Math.min(style.cornerRadius, Math.abs(width) / 2, Math.abs(height) / 2);
+      return `<rect ${attrs({
+        x: Math.min(shape.x, shape.x + width),
+        y: Math.min(shape.y, shape.y + height),
+        width: Math.abs(width),
+        height: Math.abs(height),
+        rx: radius || undefined,
+        fill,
+        ...stroke,
+      })} />`;
+    }
+
+    case 'circle':
+      return `<circle ${attrs({ cx: shape.x, cy: shape.y, r: shape.radius || 0, fill, ...stroke })} />`;
+
+    case 'ellipse': {
+      const bounds = getUnrotatedBounds(shape);
+      return `<ellipse ${attrs({
+        cx: (bounds.minX + bounds.maxX) / 2,
+        cy: (bounds.minY + bounds.maxY) / 2,
+        rx: (bounds.maxX - bounds.minX) / 2,
+        ry: (bounds.maxY - bounds.minY) / 2,
+        fill,
+        ...stroke,
+      })} />`;
+    }
+
+    case 'diamond':
+    case 'triangle':
+    case 'polygon':
+    case 'star':
+      return `<path ${attrs({ d: getOutlinePathData(shape), fill, ...stroke })} />`;
+
+    case 'line':
+      return `<path ${attrs({ d: getConnectorPathData(shape), fill: 'none', ...stroke })} />`;
+
+    case 'arrow': {
+      // Only the line is dashed; filled heads take the stroke color
+      const heads = getArrowheadParts(shape, arrowHeadLength).map((part) => {
+        switch (part.kind) {
+          case 'polygon':
+            return `<polygon ${attrs({
+              points: part.points.map((point) => `${formatValue(point.x)},${formatValue(point.y)}`).join(' '),
+              fill: style.strokeColor,
+            })} />`;
+          case 'line':
+            return `<line ${attrs({ x1: part.from.x, y1: part.from.y, x2: part.to.x, y2: part.to.y })} />`;
+          case 'dot':
+            return `<circle ${attrs({ cx: part.center.x, cy: part.center.y, r: part.radius, fill: style.strokeColor })} />`;
+        }
+      });
+      return `<g ${attrs({ fill: 'none', ...stroke, 'stroke-dasharray': undefined })}>` +
+        `<path ${attrs({ d: getConnectorPathData(shape), 'stroke-dasharray': stroke['stroke-dasharray'] })} />` +
+        heads.join('') +
+        '</g>';
+    }
+
+    case 'image': {
+      const file = getFile(shape.fileId);
+      if (!file) return '';
+      // A nested viewport shows the cropped part of an image laid out as a 1 x 1 square
+      const crop = getImageCrop(shape);
+      const viewBox = [crop.x, crop.y, crop.width, crop.height].map((value) => Number(value.toFixed(6))).join(' ');
+      return `<svg ${attrs({
+        x: shape.x,
+        y: shape.y,
+        width: shape.width || 0,
+        height: shape.height || 0,
+        viewBox,
+        preserveAspectRatio: 'none',
+      })}><image ${attrs({ href: file.dataUrl, width: 1, height: 1, preserveAspectRatio: 'none' })} /></svg>`;
+    }
+
+    case 'pen':
+      if (!shape.path || shape.path.length === 0) return '';
+      // Solid strokes are filled outlines, matching the canvas
+      return style.dashStyle === 'solid'
+        ? `<path ${attrs({ d: getStrokePathData(shape), fill: style.strokeColor })} />`
+        : `<path ${attrs({ d: getCenterlinePathData(shape), fill: 'none', ...stroke })} />`;
+
+    default:
+      return '';
+  }
+};
+
+export const shapeToSvg = (shape: Shape, renderMode: RenderMode, arrowHeadLength: number): string => {
+  const style = getShapeStyle(shape);
+  const content = shape.type === 'text'
+    ? textToSvg(shape, style.strokeColor)
+    : renderMode === 'sketchy' && shape.type !== 'image'
+      ? roughShapeToSvg(shape, arrowHeadLength)
+      : cleanShapeToSvg(shape, arrowHeadLength);
+
+  if (!content) return '';
+
+  const angle = getShapeAngle(shape);
+  const center = getShapeCenter(shape);
+  const transform = angle
+    ? `rotate(${formatValue((angle * 180) / Math.PI)} ${formatValue(center.x)} ${formatValue(center.y)})`
+    : undefined;
+  return style.opacity < 1 || transform
+    ? `<g ${attrs({ opacity: style.opacity < 1 ? style.opacity : undefined, transform })}>${content}</g>`
+    : content;
+};
+
+// Build a standalone SVG document whose viewBox is the exported area in scene coordinates
+export const exportToSvg = (shapes: Shape[], options: SvgExportOptions): string => {
+  const { bounds, background, gridSize } = options;
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+  const area = { x: bounds.minX, y: bounds.minY, width, height };
+
+  const parts: string[] = [];
+  if (background) {
+    parts.push(`<rect ${attrs({ ...area, fill: background })} />`);
+  }
+  if (gridSize) {
+    // A user-space pattern lines up with the scene origin, matching the on-screen grid
+    parts.push(
+      `<defs><pattern ${attrs({ id: 'grid', width: gridSize, height: gridSize, patternUnits: 'userSpaceOnUse' })}>` +
+      `<path ${attrs({ d: `M ${gridSize} 0 L 0 0 0 ${gridSize}`, fill: 'none', stroke: '#e5e5e5', 'stroke-width': 0.5 })} />` +
+      '</pattern></defs>',
+      `<rect ${attrs({ ...area, fill: 'url(#grid)' })} />`
+    );
+  }
+  shapes.forEach((shape) => parts.push(shapeToSvg(shape, options.renderMode, options.arrowHeadLength)));
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" ${attrs({
+    width,
+    height,
+    viewBox: `${bounds.minX} ${bounds.minY} ${width} ${height}`,
+  })}>${parts.join('')}</svg>`;
+};
@@ -0,0 +1,56 @@
+// src/utils/fileFormat.ts
+//
+// On-disk format for shared drawings. See docs/file-format.md for the full description.
+import type { DocumentIssue, SceneDocument } from '../types/Document';
+import type { Shape } from '../types/Shapes';
+import { DocumentError, createDocument, readDocument } from './document';
+import { datedFileName, downloadBlob } from './download';
+import { addFiles, getFilesFor } from './files';
+
+export const FILE_TYPE = 'excil-draw';
+export const FILE_EXTENSION = '.excil';
+export const FILE_MIME_TYPE = 'application/vnd.excil-draw+json';
+
+export interface DrawingFile extends SceneDocument {
+  type: typeof FILE_TYPE;
+  appVersion: string;
+}
+
+export const serializeDrawing = (shapes: Shape[], background: string): string => {
+  const file: DrawingFile = {
+    type: FILE_TYPE,
+    appVersion: __APP_VERSION__,
+    ...createDocument(shapes, background, getFilesFor(shapes)),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// Parse file contents into a renderable document plus everything that had to be dropped. The
+// images it contains are added to the file store.
+export const parseDrawing = (text: string): { document: SceneDocument; issues: DocumentIssue[] } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new DocumentError('The file is not valid JSON');
+  }
+
+  if (!raw || typeof raw !== 'object' || (raw as DrawingFile).type !== FILE_TYPE) {
+    throw new DocumentError('The file is not a drawing saved by this app');
+  }
+
+  const result = readDocument(raw);
+  addFiles(result.document.files);
+  return result;
+};
+
+export const isDrawingFile = (file: File) =>
+  file.name.endsWith(FILE_EXTENSION) ||
+  file.name.endsWith('.json') ||
+  file.type === FILE_MIME_TYPE ||
+  file.type === 'application/json';
+
+export const downloadDrawing = (shapes: Shape[], background: string) => {
+  const blob = new Blob([serializeDrawing(shapes, background)], { type: FILE_MIME_TYPE });
+  downloadBlob(blob, datedFileName(FILE_EXTENSION));
+};
@@ -0,0 +1,35 @@
+// src/utils/files.ts
+//
+// Image data for image shapes, kept once per distinct image under its content hash. Shapes only
+// hold the file id; documents carry the files their shapes use. Files stay here for the whole
+// session, so undoing the removal of an image finds its data again.
+import type { SceneFile } from '../types/Document';
+import type { Shape } from '../types/Shapes';
+import { createSceneFile } from './document';
+
+const files = new Map<string, SceneFile>();
+
+// Store a data URL and return its file id; storing the same image again returns the same id
+export const addFile = (dataUrl: string): string => {
+  const { id, file } = createSceneFile(dataUrl);
+  if (!files.has(id)) files.set(id, file);
+  return id;
+};
+
+// Files that came with a document, the clipboard or a collaborator
+export const addFiles = (incoming?: Record<string, SceneFile>) => {
+  Object.entries(incoming ?? {}).forEach(([id, file]) => {
+    if (!files.has(id)) files.set(id, file);
+  });
+};
+
+export const getFile = (id?: string): SceneFile | undefined => (id ? files.get(id) : undefined);
+
+// The stored files the shapes use, for saving them alongside the shapes
+export const getFilesFor = (shapes: Shape[]): Record<string, SceneFile> =>
+  Object.fromEntries(
+    shapes.flatMap((shape) => {
+      const file = getFile(shape.fileId);
+      return file ? [[shape.fileId!, file]] : [];
+    })
+  );
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { Shape } from '../types/Shapes';
+import { getCenterlinePathData, getPointWidth, getStrokeOutline, getStrokePathData, simplifyPath } from './freehand';
+
+describe('getPointWidth', () => {
+  it('draws at the stroke width without pressure and follows pressure when there is some', () => {
+    expect(getPointWidth({ x: 0, y: 0 }, 4)).toBe(4);
+    expect(getPointWidth({ x: 0, y: 0, pressure: 0 }, 4)).toBe(1);
+    expect(getPointWidth({ x: 0, y: 0, pressure: 1 }, 4)).toBe(7);
+  });
+});
+
+describe('simplifyPath', () => {
+  it('drops points close to the line between their neighbours and keeps the corners', () => {
+    const points = [{ x: 0, y: 0 }, { x: 5, y: 0.5 }, { x: 10, y: 0 }, { x: 10, y: 5 }, { x: 10, y: 10 }];
+    expect(simplifyPath(points, 1)).toEqual([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }]);
+  });
+
+  it('always keeps both ends', () => {
+    const points = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }];
+    expect(simplifyPath(points, 100)).toEqual([{ x: 0, y: 0 }, { x: 2, y: 0 }]);
+  });
+});
+
+describe('getStrokeOutline', () => {
+  it('surrounds the stroke at half the point width on each side', () => {
+    const outline = getStrokeOutline([{ x: 0, y: 0 }, { x: 100, y: 0 }], 4);
+    const ys = outline.map((point) => point.y);
+    expect(Math.max(...ys)).toBeCloseTo(2);
+    expect(Math.min(...ys)).toBeCloseTo(-2);
+    expect(Math.min(...outline.map((point) => point.x))).toBeCloseTo(-2);
+    expect(Math.max(...outline.map((point) => point.x))).toBeCloseTo(102);
+  });
+
+  it('draws a single point as a round dot', () => {
+    const outline = getStrokeOutline([{ x: 10, y: 10 }], 4);
+    outline.forEach((point) => expect(Math.hypot(point.x - 10, point.y - 10)).toBeCloseTo(2));
+  });
+
+  it('is empty without points', () => {
+    expect(getStrokeOutline([], 4)).toEqual([]);
+  });
+});
+
+describe('stroke path data', () => {
+  const pen: Shape = { id: 'p', type: 'pen', x: 0, y: 0, path: [{ x: 0, y: 0 }, { x: 10, y: 5 }, { x: 20, y: 0 }] };
+
+  it('closes the filled outline and leaves the center line open', () => {
+    expect(getStrokePathData(pen)).toMatch(/^M .* Z$/);
+    expect(getCenterlinePathData(pen)).toBe('M 0 0 Q 10 5 15 2.5 L 20 0');
+  });
+});
@@ -0,0 +1,141 @@
+// src/utils/freehand.ts
+//
+// Freehand pen strokes: point simplification, and the smoothed outline whose width follows
+// stylus pressure that solid strokes are filled with.
+import type { PathPoint, Shape } from '../types/Shapes';
+import { distanceToSegment } from './geometry';
+import { getShapeStyle } from './style';
+
+type Point = { x: number; y: number };
+
+// Pressure assumed for input that doesn't report it (mouse, most touch screens)
+export const DEFAULT_PRESSURE = 0.5;
+
+const CAP_STEPS = 6; // points on each half-circle end cap
+
+// Width of the stroke at a point; the default pressure draws at the style's stroke width
+export const getPointWidth = (point: PathPoint, strokeWidth: number) =>
+  strokeWidth * (0.25 + 1.5 * (point.pressure ?? DEFAULT_PRESSURE));
+
+// Ramer-Douglas-Peucker: drop points that lie within `tolerance` of the line between the
+// points kept around them. The end points always stay.
+export const simplifyPath = (points: PathPoint[], tolerance: number): PathPoint[] => {
+  if (points.length < 3) return points;
+
+  const keep = points.map((_, index) => index === 0 || index === points.length - 1);
+  const ranges: [number, number][] = [[0, points.length - 1]];
+  while (ranges.length > 0) {
+    const [start, end] = ranges.pop()!;
+    let farthest = -1;
+    let maxDistance = tolerance;
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToSegment(points[i], points[start], points[end]);
+      if (distance > maxDistance) {
+        farthest = i;
+        maxDistance = distance;
+      }
+    }
+    if (farthest >= 0) {
+      keep[farthest] = true;
+      ranges.push([start, farthest], [farthest, end]);
+    }
+  }
+  return points.filter((_, index) => keep[index]);
+};
+
+// Average each point with its neighbours to take the corners off; the ends stay in place
+const smoothPoints = (points: PathPoint[]): PathPoint[] =>
+  points.map((point, index) => {
+    if (index === 0 || index === points.length - 1) return point;
+    const previous = points[index - 1];
+    const next = points[index + 1];
+    return {
+      x: (previous.x + point.x * 2 + next.x) / 4,
+      y: (previous.y + point.y * 2 + next.y) / 4,
+      pressure: point.pressure,
+    };
+  });
+
+// Half circle of `radius` around `center` bulging towards `angle`, going from the left side
+// (angle + 90 degrees) to the right side; the two end points themselves are left out
+const getCap = (center: Point, radius: number, angle: number): Point[] =>
+  Array.from({ length: CAP_STEPS - 1 }, (_, step) => {
+    const a = angle + Math.PI / 2 - (Math.PI * (step + 1)) / CAP_STEPS;
+    return { x: center.x + Math.cos(a) * radius, y: center.y + Math.sin(a) * radius };
+  });
+
+// Closed outline around the stroke: one side forward, a round cap, the other side back and
+// the starting cap
+export const getStrokeOutline = (points: PathPoint[], strokeWidth: number): Point[] => {
+  if (points.length === 0) return [];
+  if (points.length === 1) {
+    // A dot
+    const radius = getPointWidth(points[0], strokeWidth) / 2;
+    return [...getCap(points[0], radius, 0), ...getCap(points[0], radius, Math.PI)];
+  }
+
+  const smoothed = smoothPoints(points);
+  const left: Point[] = [];
+  const right: Point[] = [];
+  smoothed.forEach((point, index) => {
+    const previous = smoothed[Math.max(0, index - 1)];
+    const next = smoothed[Math.min(smoothed.length - 1, index + 1)];
+    const angle = Math.atan2(next.y - previous.y, next.x - previous.x);
+    const radius = getPointWidth(point, strokeWidth) / 2;
+    const normalX = -Math.sin(angle) * radius;
+    const normalY = Math.cos(angle) * radius;
+    left.push({ x: point.x + normalX, y: point.y + normalY });
+    right.push({ x: point.x - normalX, y: point.y - normalY });
+  });
+
+  const first = smoothed[0];
+  const last = smoothed[smoothed.length - 1];
+  const startAngle = Math.atan2(smoothed[1].y - first.y, smoothed[1].x - first.x);
+  const endAngle = Math.atan2(last.y - smoothed[smoothed.length - 2].y, last.x - smoothed[smoothed.length - 2].x);
+  return [
+    ...left,
+    ...getCap(last, getPointWidth(last, strokeWidth) / 2, endAngle),
+    ...right.reverse(),
+    ...getCap(first, getPointWidth(first, strokeWidth) / 2, startAngle + Math.PI),
+  ];
+};
+
+const formatPoint = (point: Point) => `${Number(point.x.toFixed(2))} ${Number(point.y.toFixed(2))}`;
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+// Quadratic curves through the midpoints between consecutive points, using each point as the control
+const getSmoothPathData = (points: Point[], closed: boolean): string => {
+  if (points.length < 2) return '';
+  if (points.length === 2) return `M ${formatPoint(points[0])} L ${formatPoint(points[1])}`;
+
+  if (closed) {
+    let d = `M ${formatPoint(midpoint(points[points.length - 1], points[0]))}`;
+    points.forEach((point, index) => {
+      d += ` Q ${formatPoint(point)} ${formatPoint(midpoint(point, points[(index + 1) % points.length]))}`;
+    });
+    return `${d} Z`;
+  }
+
+  let d = `M ${formatPoint(points[0])}`;
+  for (let i = 1; i < points.length - 1; i++) {
+    d += ` Q ${formatPoint(points[i])} ${formatPoint(midpoint(points[i], points[i + 1]))}`;
+  }
+  return `${d} L ${formatPoint(points[points.length - 1])}`;
+};
+
+// Strokes never change once drawn, so their outlines are computed once per shape object
+const outlineCache = new WeakMap<Shape, string>();
+
+// SVG path data for the filled outline of a solid pen stroke
+export const getStrokePathData = (shape: Shape): string => {
+  let d = outlineCache.get(shape);
+  if (d === undefined) {
+    const outline = getStrokeOutline(shape.path || [], getShapeStyle(shape).strokeWidth);
+    d = getSmoothPathData(outline, true);
+    outlineCache.set(shape, d);
+  }
+  return d;
+};
+
+// SVG path data for the smoothed center line, stroked at a constant width for dashed pen strokes
+export const getCenterlinePathData = (shape: Shape): string => getSmoothPathData(shape.path || [], false);
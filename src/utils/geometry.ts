@@ -0,0 +1,494 @@
+// src/utils/geometry.ts
+import type { Bounds, Shape, ShapeType, TransformHandle } from '../types/Shapes';
+
+type Point = { x: number; y: number };
+
+const ROTATION_SNAP = Math.PI / 12; // 15 degrees
+const LINE_SNAP = Math.PI / 4;
+const MIN_GROUP_SCALE = 0.05; // keeps shapes resized together from collapsing or flipping
+
+export const isLinear = (type: ShapeType) => type === 'line' || type === 'arrow';
+
+// Circles look the same at any angle and lines are rotated by moving their end points
+export const canRotate = (type: ShapeType) => type !== 'circle' && !isLinear(type) && type !== 'select';
+
+export const getShapeAngle = (shape: Shape) => (canRotate(shape.type) ? shape.angle || 0 : 0);
+
+export const rotatePoint = (point: Point, center: Point, angle: number): Point => {
+  if (!angle) return point;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+};
+
+export const getClosestPointOnSegment = (point: Point, a: Point, b: Point): Point => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0
+    ? Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared))
+    : 0;
+  return { x: a.x + t * dx, y: a.y + t * dy };
+};
+
+export const distanceToSegment = (point: Point, a: Point, b: Point) => {
+  const closest = getClosestPointOnSegment(point, a, b);
+  return Math.hypot(point.x - closest.x, point.y - closest.y);
+};
+
+// Piece of a line or arrow between two of its points; curved when it has control points
+export interface ConnectorSegment {
+  from: Point;
+  to: Point;
+  controls?: [Point, Point];
+}
+
+// Start, waypoints and end of a line or arrow
+export const getConnectorVertices = (shape: Shape): Point[] => [
+  { x: shape.x, y: shape.y },
+  ...(shape.waypoints || []),
+  { x: shape.x2 ?? shape.x, y: shape.y2 ?? shape.y },
+];
+
+// Lines without waypoints or curves are laid out by their routing
+export const isRoutedConnector = (shape: Shape) => !shape.waypoints?.length && !shape.curves?.some(Boolean);
+
+// Segments a line or arrow is drawn with. Waypoints and curves are followed as they are; routed
+// lines leave along the dominant axis between the end points for elbow and curved routes.
+export const getConnectorSegments = (shape: Shape): ConnectorSegment[] => {
+  const vertices = getConnectorVertices(shape);
+  if (!isRoutedConnector(shape)) {
+    return vertices.slice(1).map((to, i) => {
+      const from = vertices[i];
+      const curve = shape.curves?.[i];
+      return curve
+        ? { from, to, controls: [{ x: from.x + curve.c1.x, y: from.y + curve.c1.y }, { x: to.x + curve.c2.x, y: to.y + curve.c2.y }] }
+        : { from, to };
+    });
+  }
+
+  const [start, end] = vertices;
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const horizontal = Math.abs(dx) >= Math.abs(dy);
+
+  switch (shape.routing) {
+    case 'elbow': {
+      const corners = horizontal
+        ? [start, { x: start.x + dx / 2, y: start.y }, { x: start.x + dx / 2, y: end.y }, end]
+        : [start, { x: start.x, y: start.y + dy / 2 }, { x: end.x, y: start.y + dy / 2 }, end];
+      return corners.slice(1).map((to, i) => ({ from: corners[i], to }));
+    }
+    case 'curved':
+      return [{
+        from: start,
+        to: end,
+        controls: horizontal
+          ? [{ x: start.x + dx / 2, y: start.y }, { x: end.x - dx / 2, y: end.y }]
+          : [{ x: start.x, y: start.y + dy / 2 }, { x: end.x, y: end.y - dy / 2 }],
+      }];
+    default:
+      return [{ from: start, to: end }];
+  }
+};
+
+const CURVE_SAMPLES = 16;
+
+// Points along one segment from its start, with a curve flattened
+export const getSegmentPoints = ({ from, to, controls }: ConnectorSegment): Point[] => {
+  if (!controls) return [from, to];
+
+  const [p1, p2] = controls;
+  return Array.from({ length: CURVE_SAMPLES + 1 }, (_, i) => {
+    const t = i / CURVE_SAMPLES;
+    const u = 1 - t;
+    return {
+      x: u * u * u * from.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * to.x,
+      y: u * u * u * from.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * to.y,
+    };
+  });
+};
+
+// Points along the whole line, with curves flattened - for hit-testing and bounds
+export const getConnectorPolyline = (shape: Shape): Point[] => {
+  const segments = getConnectorSegments(shape);
+  return [segments[0].from, ...segments.flatMap((segment) => getSegmentPoints(segment).slice(1))];
+};
+
+export const getConnectorPathData = (shape: Shape): string => {
+  const segments = getConnectorSegments(shape);
+  const { from } = segments[0];
+  return `M ${from.x} ${from.y} ` + segments
+    .map(({ to, controls }) => controls
+      ? `C ${controls[0].x} ${controls[0].y} ${controls[1].x} ${controls[1].y} ${to.x} ${to.y}`
+      : `L ${to.x} ${to.y}`)
+    .join(' ');
+};
+
+// Direction the line points in at one of its ends, for drawing arrowheads. Points that coincide
+// with the end are skipped so the direction doesn't collapse.
+export const getConnectorEndAngle = (shape: Shape, end: 'start' | 'end' = 'end'): number => {
+  const segments = getConnectorSegments(shape);
+  const ordered = end === 'end'
+    ? segments
+    : [...segments].reverse().map(({ from, to, controls }) => ({
+        from: to,
+        to: from,
+        controls: controls && ([controls[1], controls[0]] as [Point, Point]),
+      }));
+  const tip = ordered[ordered.length - 1].to;
+  const candidates = [...ordered].reverse().flatMap(({ from, controls }) => (controls ? [controls[1], controls[0], from] : [from]));
+  const from = candidates.find((point) => point.x !== tip.x || point.y !== tip.y) || tip;
+  return Math.atan2(tip.y - from.y, tip.x - from.x);
+};
+
+// Bounds of the shape before its rotation is applied
+export const getUnrotatedBounds = (shape: Shape): Bounds => {
+  switch (shape.type) {
+    case 'circle': {
+      const r = shape.radius || 0;
+      return { minX: shape.x - r, minY: shape.y - r, maxX: shape.x + r, maxY: shape.y + r };
+    }
+    case 'line':
+    case 'arrow': {
+      const points = getConnectorPolyline(shape);
+      const xs = points.map((p) => p.x);
+      const ys = points.map((p) => p.y);
+      return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+    }
+    case 'pen': {
+      const xs = (shape.path || [{ x: shape.x, y: shape.y }]).map((p) => p.x);
+      const ys = (shape.path || [{ x: shape.x, y: shape.y }]).map((p) => p.y);
+      return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+    }
+    default: {
+      const width = shape.width || 0;
+      const height = shape.height || 0;
+      return {
+        minX: Math.min(shape.x, shape.x + width), minY: Math.min(shape.y, shape.y + height),
+        maxX: Math.max(shape.x, shape.x + width), maxY: Math.max(shape.y, shape.y + height),
+      };
+    }
+  }
+};
+
+export const getShapeCenter = (shape: Shape): Point => {
+  const bounds = getUnrotatedBounds(shape);
+  return { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+};
+
+const getBoundsCorners = (bounds: Bounds): Point[] => [
+  { x: bounds.minX, y: bounds.minY },
+  { x: bounds.maxX, y: bounds.minY },
+  { x: bounds.maxX, y: bounds.maxY },
+  { x: bounds.minX, y: bounds.maxY },
+];
+
+// Axis-aligned box around the shape as drawn, rotation included
+// Shapes are replaced rather than changed in place, so a shape's bounds hold until it is replaced
+const boundsCache = new WeakMap<Shape, Bounds>();
+
+export const getShapeBounds = (shape: Shape): Bounds => {
+  const cached = boundsCache.get(shape);
+  if (cached) return cached;
+
+  let bounds = getUnrotatedBounds(shape);
+  const angle = getShapeAngle(shape);
+  if (angle) {
+    const center = getShapeCenter(shape);
+    const corners = getBoundsCorners(bounds).map((corner) => rotatePoint(corner, center, angle));
+    const xs = corners.map((p) => p.x);
+    const ys = corners.map((p) => p.y);
+    bounds = { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+  }
+  boundsCache.set(shape, bounds);
+  return bounds;
+};
+
+// Box around all the given shapes; callers make sure the list isn't empty
+export const getCommonBounds = (shapes: Shape[]): Bounds =>
+  shapes.map(getShapeBounds).reduce((acc, b) => ({
+    minX: Math.min(acc.minX, b.minX),
+    minY: Math.min(acc.minY, b.minY),
+    maxX: Math.max(acc.maxX, b.maxX),
+    maxY: Math.max(acc.maxY, b.maxY),
+  }));
+
+export const normalizeBounds = (x1: number, y1: number, x2: number, y2: number): Bounds => ({
+  minX: Math.min(x1, x2),
+  minY: Math.min(y1, y2),
+  maxX: Math.max(x1, x2),
+  maxY: Math.max(y1, y2),
+});
+
+export const containsBounds = (outer: Bounds, inner: Bounds) =>
+  inner.minX >= outer.minX && inner.maxX <= outer.maxX &&
+  inner.minY >= outer.minY && inner.maxY <= outer.maxY;
+
+export const intersectsBounds = (a: Bounds, b: Bounds) =>
+  a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+
+export const growBounds = (bounds: Bounds, amount: number): Bounds => ({
+  minX: bounds.minX - amount,
+  minY: bounds.minY - amount,
+  maxX: bounds.maxX + amount,
+  maxY: bounds.maxY + amount,
+});
+
+// Translate every point of a shape, including line end points and pen paths
+export const moveShape = (shape: Shape, dx: number, dy: number): Shape => ({
+  ...shape,
+  x: shape.x + dx,
+  y: shape.y + dy,
+  ...(shape.x2 !== undefined && { x2: shape.x2 + dx }),
+  ...(shape.y2 !== undefined && { y2: shape.y2 + dy }),
+  ...(shape.path && { path: shape.path.map((point) => ({ ...point, x: point.x + dx, y: point.y + dy })) }),
+  ...(shape.waypoints && { waypoints: shape.waypoints.map((point) => ({ x: point.x + dx, y: point.y + dy })) }),
+});
+
+// Handle positions in scene coordinates. Box handles sit on the unrotated bounds grown by
+// `padding` and turn with the shape; the rotation handle floats `rotationOffset` above the top edge.
+export const getTransformHandles = (
+  shape: Shape,
+  padding: number,
+  rotationOffset: number
+): Partial<Record<TransformHandle, Point>> => {
+  if (isLinear(shape.type)) {
+    const vertices = getConnectorVertices(shape);
+    const handles: Partial<Record<TransformHandle, Point>> = {
+      start: vertices[0],
+      end: vertices[vertices.length - 1],
+    };
+    shape.waypoints?.forEach((point, i) => {
+      handles[`point-${i}`] = point;
+    });
+    shape.curves?.forEach((curve, i) => {
+      if (!curve || !vertices[i + 1]) return;
+      handles[`control-${i}-1`] = { x: vertices[i].x + curve.c1.x, y: vertices[i].y + curve.c1.y };
+      handles[`control-${i}-2`] = { x: vertices[i + 1].x + curve.c2.x, y: vertices[i + 1].y + curve.c2.y };
+    });
+    return handles;
+  }
+
+  const bounds = getUnrotatedBounds(shape);
+  const center = getShapeCenter(shape);
+  const angle = getShapeAngle(shape);
+  const left = bounds.minX - padding;
+  const right = bounds.maxX + padding;
+  const top = bounds.minY - padding;
+  const bottom = bounds.maxY + padding;
+
+  const handles: Partial<Record<TransformHandle, Point>> = {
+    nw: { x: left, y: top },
+    n: { x: center.x, y: top },
+    ne: { x: right, y: top },
+    e: { x: right, y: center.y },
+    se: { x: right, y: bottom },
+    s: { x: center.x, y: bottom },
+    sw: { x: left, y: bottom },
+    w: { x: left, y: center.y },
+  };
+  if (canRotate(shape.type)) {
+    handles.rotation = { x: center.x, y: top - rotationOffset };
+  }
+
+  (Object.keys(handles) as TransformHandle[]).forEach((handle) => {
+    handles[handle] = rotatePoint(handles[handle]!, center, angle);
+  });
+  return handles;
+};
+
+interface ResizeOptions {
+  keepAspect: boolean; // shift - scale both axes by the same factor
+  fromCenter: boolean; // alt - resize symmetrically around the center
+}
+
+// Resize from the state at the start of the drag so the shape follows the pointer exactly
+export const resizeShape = (
+  original: Shape,
+  handle: TransformHandle,
+  pointer: Point,
+  options: ResizeOptions
+): Shape => {
+  const bounds = getUnrotatedBounds(original);
+  const center = getShapeCenter(original);
+  const angle = getShapeAngle(original);
+  const local = rotatePoint(pointer, center, -angle);
+
+  // Circles and text can't be stretched, only scaled. Images keep their proportions unless
+  // Shift is held, the other way round from other shapes.
+  const keepAspect = original.type === 'image'
+    ? !options.keepAspect
+    : options.keepAspect || original.type === 'circle' || original.type === 'text';
+  const movesX = handle.includes('e') || handle.includes('w');
+  const movesY = handle.startsWith('n') || handle.startsWith('s');
+
+  // Scale around the opposite edge (or the center), comparing the dragged edge's old and new distance from it
+  const anchorX = !movesX || options.fromCenter ? center.x : handle.includes('w') ? bounds.maxX : bounds.minX;
+  const anchorY = !movesY || options.fromCenter ? center.y : handle.startsWith('n') ? bounds.maxY : bounds.minY;
+  const edgeX = handle.includes('w') ? bounds.minX : bounds.maxX;
+  const edgeY = handle.startsWith('n') ? bounds.minY : bounds.maxY;
+  let scaleX = movesX && edgeX !== anchorX ? (local.x - anchorX) / (edgeX - anchorX) : 1;
+  let scaleY = movesY && edgeY !== anchorY ? (local.y - anchorY) / (edgeY - anchorY) : 1;
+
+  if (keepAspect) {
+    if (movesX && movesY) {
+      const scale = Math.max(Math.abs(scaleX), Math.abs(scaleY));
+      scaleX = Math.sign(scaleX || 1) * scale;
+      scaleY = Math.sign(scaleY || 1) * scale;
+    } else if (movesX) {
+      scaleY = Math.abs(scaleX);
+    } else {
+      scaleX = Math.abs(scaleY);
+    }
+  }
+
+  // Where the unrotated top-left corner lands, then shift the box so its new center
+  // sits where the rotation puts it - this keeps the anchor still on screen
+  const left = anchorX + (bounds.minX - anchorX) * scaleX;
+  const right = anchorX + (bounds.maxX - anchorX) * scaleX;
+  const top = anchorY + (bounds.minY - anchorY) * scaleY;
+  const bottom = anchorY + (bounds.maxY - anchorY) * scaleY;
+  const localCenter = { x: (left + right) / 2, y: (top + bottom) / 2 };
+  const rotatedCenter = rotatePoint(localCenter, center, angle);
+  const shiftX = rotatedCenter.x - localCenter.x;
+  const shiftY = rotatedCenter.y - localCenter.y;
+
+  const mapPoint = (point: Point): Point => ({
+    x: left + shiftX + (point.x - bounds.minX) * scaleX,
+    y: top + shiftY + (point.y - bounds.minY) * scaleY,
+  });
+  const minX = Math.min(left, right) + shiftX;
+  const minY = Math.min(top, bottom) + shiftY;
+  const width = Math.abs(right - left);
+  const height = Math.abs(bottom - top);
+
+  switch (original.type) {
+    case 'rectangle':
+    case 'ellipse':
+    case 'diamond':
+    case 'triangle':
+    case 'polygon':
+    case 'star':
+    case 'image':
+      return { ...original, x: minX, y: minY, width, height };
+
+    case 'circle':
+      return { ...original, x: minX + width / 2, y: minY + height / 2, radius: width / 2 };
+
+    case 'text': {
+      const scale = Math.abs(scaleX);
+      return {
+        ...original,
+        x: minX,
+        y: minY,
+        width,
+        height,
+        fontSize: Math.max(1, (original.fontSize || 0) * scale),
+      };
+    }
+
+    case 'pen': {
+      const start = mapPoint(original);
+      return { ...original, x: start.x, y: start.y, path: original.path?.map((point) => ({ ...point, ...mapPoint(point) })) };
+    }
+
+    default:
+      return original;
+  }
+};
+
+// Scale every point of a shape around `origin`. A uniform scale commutes with rotation, so the
+// angle stays as it is; stroke widths aren't scaled.
+export const scaleShape = (shape: Shape, origin: Point, scale: number): Shape => {
+  const mapPoint = (point: Point): Point => ({
+    x: origin.x + (point.x - origin.x) * scale,
+    y: origin.y + (point.y - origin.y) * scale,
+  });
+  const start = mapPoint(shape);
+  const end = shape.x2 !== undefined && shape.y2 !== undefined ? mapPoint({ x: shape.x2, y: shape.y2 }) : null;
+
+  return {
+    ...shape,
+    x: start.x,
+    y: start.y,
+    ...(end && { x2: end.x, y2: end.y }),
+    ...(shape.width !== undefined && { width: shape.width * scale }),
+    ...(shape.height !== undefined && { height: shape.height * scale }),
+    ...(shape.radius !== undefined && { radius: shape.radius * scale }),
+    ...(shape.fontSize !== undefined && { fontSize: Math.max(1, shape.fontSize * scale) }),
+    ...(shape.path && { path: shape.path.map((point) => ({ ...point, ...mapPoint(point) })) }),
+    ...(shape.waypoints && { waypoints: shape.waypoints.map(mapPoint) }),
+    ...(shape.curves && {
+      curves: shape.curves.map((curve) => curve && {
+        c1: { x: curve.c1.x * scale, y: curve.c1.y * scale },
+        c2: { x: curve.c2.x * scale, y: curve.c2.y * scale },
+      }),
+    }),
+  };
+};
+
+// Corner handles on the box around several shapes, grown by `padding`
+export const getMultiTransformHandles = (shapes: Shape[], padding: number): Partial<Record<TransformHandle, Point>> => {
+  const bounds = getCommonBounds(shapes);
+  return {
+    nw: { x: bounds.minX - padding, y: bounds.minY - padding },
+    ne: { x: bounds.maxX + padding, y: bounds.minY - padding },
+    se: { x: bounds.maxX + padding, y: bounds.maxY + padding },
+    sw: { x: bounds.minX - padding, y: bounds.maxY + padding },
+  };
+};
+
+// Resize several shapes together by dragging a corner of their common box. They scale by the
+// same factor on both axes so rotated shapes keep their form; the opposite corner (or the
+// center) stays put.
+export const resizeShapes = (
+  originals: Shape[],
+  handle: TransformHandle,
+  pointer: Point,
+  options: Pick<ResizeOptions, 'fromCenter'>
+): Shape[] => {
+  const bounds = getCommonBounds(originals);
+  const center = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+  const anchor = options.fromCenter ? center : {
+    x: handle.includes('w') ? bounds.maxX : bounds.minX,
+    y: handle.startsWith('n') ? bounds.maxY : bounds.minY,
+  };
+  const edge = { x: handle.includes('w') ? bounds.minX : bounds.maxX, y: handle.startsWith('n') ? bounds.minY : bounds.maxY };
+
+  const scaleX = edge.x !== anchor.x ? (pointer.x - anchor.x) / (edge.x - anchor.x) : 1;
+  const scaleY = edge.y !== anchor.y ? (pointer.y - anchor.y) / (edge.y - anchor.y) : 1;
+  const scale = Math.max(MIN_GROUP_SCALE, Math.max(scaleX, scaleY));
+  return originals.map((shape) => scaleShape(shape, anchor, scale));
+};
+
+// Angle that points the rotation handle at the pointer; snapping rounds to 15 degree steps
+export const rotateShape = (original: Shape, pointer: Point, snap: boolean): Shape => {
+  const center = getShapeCenter(original);
+  let angle = Math.atan2(pointer.y - center.y, pointer.x - center.x) + Math.PI / 2;
+  if (snap) {
+    angle = Math.round(angle / ROTATION_SNAP) * ROTATION_SNAP;
+  }
+  angle = ((angle % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2);
+  return { ...original, angle };
+};
+
+// Keep `pointer` at 45 degree steps around `origin`
+export const snapLineAngle = (origin: Point, pointer: Point): Point => {
+  const angle = Math.round(Math.atan2(pointer.y - origin.y, pointer.x - origin.x) / LINE_SNAP) * LINE_SNAP;
+  const distance = Math.hypot(pointer.x - origin.x, pointer.y - origin.y);
+  return { x: origin.x + Math.cos(angle) * distance, y: origin.y + Math.sin(angle) * distance };
+};
+
+// Drag one end of a line or arrow; snapping keeps it at 45 degree steps from the next point in
+export const moveEndpoint = (original: Shape, handle: TransformHandle, pointer: Point, snap: boolean): Shape => {
+  const vertices = getConnectorVertices(original);
+  const other = handle === 'start' ? vertices[1] : vertices[vertices.length - 2];
+  const point = snap ? snapLineAngle(other, pointer) : pointer;
+
+  return handle === 'start'
+    ? { ...original, x: point.x, y: point.y }
+    : { ...original, x2: point.x, y2: point.y };
+};
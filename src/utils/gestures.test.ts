@@ -0,0 +1,340 @@
+import { describe, expect, it, vi } from 'vitest';
+import { rect, sceneWith } from '../test/fixtures';
+import type { Shape } from '../types/Shapes';
+import {
+  IDLE,
+  cancelGesture,
+  editConnectorPoint,
+  endGesture,
+  enterGroup,
+  eraseAlong,
+  eraseTo,
+  findHandleAt,
+  finishPlacing,
+  finishPolyline,
+  getSelectionHandles,
+  moveSelection,
+  placeLinearEnd,
+  placePolylinePoint,
+  selectClicked,
+  selectInBox,
+  sizeDrawnShape,
+  snapSelectionMove,
+  startDrawnShape,
+  transformSelection,
+} from './gestures';
+import type { EraseGesture, EraseOptions, Gesture, PolylineGesture, ShapeDefaults } from './gestures';
+import { eraseFromStroke } from './eraser';
+import { DEFAULT_SKETCH_OPTIONS } from './rough';
+import { createScene } from './scene';
+import { DEFAULT_SHAPE_STYLE } from './style';
+
+// Counts the strokes the eraser tries to cut
+vi.mock('./eraser', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./eraser')>();
+  return { ...actual, eraseFromStroke: vi.fn(actual.eraseFromStroke) };
+});
+
+const transformOptions = { keepAspect: false, fromCenter: false, croppingId: null, bindTolerance: 10 };
+
+const eraseOptions: EraseOptions = {
+  mode: 'stroke',
+  radius: 8,
+  tolerance: 8,
+  simplifyTolerance: 0.75,
+  erasingIds: [],
+  editingGroupId: null,
+};
+
+describe('clicking shapes', () => {
+  const grouped = () => createScene([
+    { ...rect('a'), groupIds: ['inner', 'outer'] },
+    { ...rect('b', 200), groupIds: ['inner', 'outer'] },
+    { ...rect('c', 400), groupIds: ['outer'] },
+    rect('d', 600),
+  ]);
+
+  it('selects a clicked shape with its whole group, and toggles it with shift', () => {
+    const scene = grouped();
+    const [a, , , d] = scene.getState().shapes;
+    expect(selectClicked(scene, a, false, null)).toBeNull();
+    expect(scene.getState().selectedIds).toEqual(['a', 'b', 'c']);
+
+    selectClicked(scene, d, true, null);
+    expect(scene.getState().selectedIds).toEqual(['a', 'b', 'c', 'd']);
+    selectClicked(scene, a, true, null);
+    expect(scene.getState().selectedIds).toEqual(['d']);
+  });
+
+  it('leaves the group being edited when clicking outside it', () => {
+    const scene = grouped();
+    const [, , , d] = scene.getState().shapes;
+    expect(selectClicked(scene, d, false, 'outer')).toBeNull();
+    expect(scene.getState().selectedIds).toEqual(['d']);
+  });
+
+  it('goes one group level deeper on each double-click', () => {
+    const scene = grouped();
+    const [a, , , d] = scene.getState().shapes;
+    expect(enterGroup(scene, a, null)).toBe('outer');
+    expect(scene.getState().selectedIds).toEqual(['a', 'b']);
+    expect(enterGroup(scene, a, 'outer')).toBe('inner');
+    expect(scene.getState().selectedIds).toEqual(['a']);
+    expect(enterGroup(scene, d, 'inner')).toBeNull();
+  });
+
+  it('adds a point where a line is double-clicked and removes it again', () => {
+    const line: Shape = { id: 'line', type: 'line', x: 0, y: 0, x2: 100, y2: 0 };
+    const scene = createScene([line]);
+    expect(editConnectorPoint(scene, line, { x: 50, y: 2 }, null, 8)).toBe(true);
+
+    const [edited] = scene.getState().shapes;
+    expect(edited.waypoints).toHaveLength(1);
+    expect(editConnectorPoint(scene, edited, { x: 50, y: 0 }, 'point-0', 8)).toBe(true);
+    expect(scene.getState().shapes[0].waypoints ?? []).toHaveLength(0);
+    expect(editConnectorPoint(scene, line, { x: 100, y: 0 }, 'end', 8)).toBe(false);
+  });
+});
+
+describe('selection handles', () => {
+  it('keeps handles the same distance off the stroke on screen and leaves locked selections without any', () => {
+    // 6 screen pixels past the edge of the 2 unit wide stroke
+    expect(getSelectionHandles([rect('a')], 1).se).toEqual({ x: 107, y: 107 });
+    expect(getSelectionHandles([rect('a')], 2).se).toEqual({ x: 104, y: 104 });
+    expect(getSelectionHandles([{ ...rect('a'), locked: true }], 1)).toEqual({});
+  });
+
+  it('finds the handle within reach of a point', () => {
+    const handles = getSelectionHandles([rect('a')], 1);
+    expect(findHandleAt(handles, { x: handles.nw!.x + 3, y: handles.nw!.y }, 8)).toBe('nw');
+    expect(findHandleAt(handles, { x: 50, y: 50 }, 8)).toBeNull();
+  });
+});
+
+describe('transformSelection', () => {
+  it('resizes from the shape as it was when the drag started, without recording it', () => {
+    const scene = createScene([rect('a')]);
+    const [original] = scene.getState().shapes;
+    transformSelection(scene, [original], 'se', { x: 150, y: 120 }, transformOptions);
+    transformSelection(scene, [original], 'se', { x: 200, y: 200 }, transformOptions);
+
+    expect(scene.getState().shapes[0]).toMatchObject({ x: 0, y: 0, width: 200, height: 200 });
+    expect(scene.getState().canUndo).toBe(false);
+  });
+
+  it('attaches a dragged line end to the shape under it', () => {
+    const line: Shape = { id: 'line', type: 'line', x: -100, y: 50, x2: -50, y2: 50 };
+    const scene = createScene([rect('a'), line]);
+    const targetId = transformSelection(scene, [line], 'end', { x: 2, y: 50 }, transformOptions);
+
+    expect(targetId).toBe('a');
+    expect(scene.getState().shapes[1].endBinding?.shapeId).toBe('a');
+  });
+});
+
+describe('moveSelection', () => {
+  it('moves the unlocked part of the selection and lets go of shapes left behind', () => {
+    const arrow: Shape = { id: 'arrow', type: 'arrow', x: 300, y: 50, x2: 100, y2: 50, endBinding: { shapeId: 'a', x: 1, y: 0.5 } };
+    const scene = createScene([rect('a'), { ...rect('b', 500), locked: true }, arrow]);
+    scene.setSelection(['b', 'arrow']);
+    moveSelection(scene, 10, 20);
+
+    const [a, b, moved] = scene.getState().shapes;
+    expect(a.x).toBe(0);
+    expect(b.x).toBe(500);
+    expect(moved).toMatchObject({ x: 310, y: 70, endBinding: undefined });
+  });
+});
+
+describe('snapSelectionMove', () => {
+  it('lines the moved selection up with other shapes, leaving locked shapes out', () => {
+    const scene = createScene([rect('a'), { ...rect('b', 300), locked: true }, rect('c', 0, 300)]);
+    scene.setSelection(['a', 'b']);
+    const settings = { enabled: true, gridSize: null, threshold: 8 };
+
+    const snap = snapSelectionMove(scene, 5, 296, settings);
+    expect(snap).toMatchObject({ dx: 0, dy: 300 });
+    expect(snap.guides.length).toBeGreaterThan(0);
+    expect(snapSelectionMove(scene, 5, 296, { ...settings, enabled: false })).toEqual({ dx: 5, dy: 296, guides: [] });
+  });
+});
+
+describe('selectInBox', () => {
+  it('selects shapes completely inside the box with the rest of their groups', () => {
+    const scene = createScene([
+      { ...rect('a'), groupIds: ['g'] },
+      { ...rect('b', 1000), groupIds: ['g'] },
+      rect('c', 200),
+      rect('d', 50, 50),
+    ]);
+    selectInBox(scene, { minX: -10, minY: -10, maxX: 320, maxY: 120 }, [], null);
+    expect(scene.getState().selectedIds).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('drawing shapes', () => {
+  const defaults: ShapeDefaults = {
+    style: { ...DEFAULT_SHAPE_STYLE, strokeColor: '#123456' },
+    sketch: { ...DEFAULT_SKETCH_OPTIONS, fillStyle: 'solid' },
+    text: { fontSize: 28, textAlign: 'right' },
+  };
+
+  it('starts new shapes in the current style', () => {
+    const box = startDrawnShape('rectangle', { x: 10, y: 20 }, defaults);
+    expect(box).toMatchObject({ type: 'rectangle', x: 10, y: 20, strokeColor: '#123456', fillStyle: 'solid' });
+    expect(box.seed).toBeDefined();
+    expect(startDrawnShape('line', { x: 0, y: 0 }, defaults).fillStyle).toBeUndefined();
+
+    const text = startDrawnShape('text', { x: 0, y: 0 }, defaults);
+    expect(text).toMatchObject({ text: '', fontSize: 28, textAlign: 'right', strokeColor: '#123456' });
+    expect(text.seed).toBeUndefined();
+  });
+
+  it('sizes a box from where the drag started, square when asked', () => {
+    const shape = rect('a', 10, 10);
+    expect(sizeDrawnShape(shape, { x: 10, y: 10 }, { x: 60, y: -20 }, false)).toMatchObject({ width: 50, height: -30 });
+    expect(sizeDrawnShape(shape, { x: 10, y: 10 }, { x: 60, y: -20 }, true)).toMatchObject({ width: 50, height: -50 });
+    expect(sizeDrawnShape({ ...shape, type: 'circle' }, { x: 0, y: 0 }, { x: 3, y: 4 }, false).radius).toBe(5);
+  });
+
+  it('keeps lines at 45 degree steps when snapping the angle', () => {
+    const line: Shape = { id: 'line', type: 'line', x: 0, y: 0 };
+    const placed = placeLinearEnd([], line, { x: 0, y: 0 }, { x: 100, y: 5 }, { x: 100, y: 5 }, {
+      snapAngle: true,
+      bindTolerance: 10,
+    });
+    expect(placed.shape.x2).toBeCloseTo(100.12, 1);
+    expect(placed.shape.y2).toBeCloseTo(0);
+    expect(placed.targetId).toBeNull();
+  });
+
+  it('finishes a line placed click by click at its last placed point', () => {
+    const line: Shape = { id: 'line', type: 'line', x: 0, y: 0, x2: 80, y2: 80, waypoints: [{ x: 50, y: 0 }, { x: 50, y: 50 }] };
+    expect(finishPolyline(line)).toMatchObject({ x2: 50, y2: 50, waypoints: [{ x: 50, y: 0 }] });
+    expect(finishPolyline({ ...line, waypoints: undefined })).toBeNull();
+  });
+});
+
+describe('gesture transitions', () => {
+  const endOptions = { pressedCount: 0, hitRadius: 8, simplifyTolerance: 0.75 };
+  const line: Shape = { id: 'line', type: 'line', x: 0, y: 0, x2: 2, y2: 0 };
+
+  it('keeps a move that changed something as one undo step, whether it ends or is cancelled', () => {
+    const scene = sceneWith([rect('a')], ['a']);
+    moveSelection(scene, 10, 0);
+    const moving: Gesture = { type: 'move', dragPoint: { x: 10, y: 0 }, hasMoved: true };
+    expect(endGesture(scene, moving, endOptions).gesture).toBe(IDLE);
+    expect(scene.getState().canUndo).toBe(true);
+
+    moveSelection(scene, 10, 0);
+    expect(cancelGesture(scene, moving)).toBe(IDLE);
+    scene.undo();
+    expect(scene.getState().shapes[0].x).toBe(10);
+  });
+
+  it('adds the drawn shape, simplifying pen strokes', () => {
+    const scene = createScene([]);
+    const path = Array.from({ length: 11 }, (_, i) => ({ x: i * 10, y: 0 }));
+    const pen: Shape = { id: 'pen', type: 'pen', x: 0, y: 0, path };
+    endGesture(scene, { type: 'draw', origin: { x: 0, y: 0 }, shape: pen, bindTargetId: null }, endOptions);
+    expect(scene.getState().shapes[0].path).toEqual([path[0], path[10]]);
+    expect(scene.getState().selectedIds).toEqual([]);
+  });
+
+  it('hands a dragged text box to the editor instead of adding it', () => {
+    const scene = createScene([]);
+    const text: Shape = { id: 't', type: 'text', x: 0, y: 0, width: 200, height: 40, text: '' };
+    const ended = endGesture(scene, { type: 'draw', origin: { x: 0, y: 0 }, shape: text, bindTargetId: null }, endOptions);
+    expect(ended.textDraft).toMatchObject({ id: 't', autoSize: false, width: 200 });
+    expect(scene.getState().shapes).toEqual([]);
+  });
+
+  it('places a line point by point after a click, and finishes it on a click on its last point', () => {
+    const scene = createScene([]);
+    const clicked = endGesture(scene, { type: 'draw', origin: { x: 0, y: 0 }, shape: line, bindTargetId: null }, endOptions);
+    expect(clicked.gesture.type).toBe('polyline');
+    const placing = clicked.gesture as PolylineGesture;
+
+    const next = placePolylinePoint(scene, placing, { ...line, x2: 100, y2: 0 }, 8) as PolylineGesture;
+    expect(next).toMatchObject({ type: 'polyline', origin: { x: 100, y: 0 } });
+    expect(next.shape.waypoints).toEqual([{ x: 100, y: 0 }]);
+    expect(endGesture(scene, next, endOptions).gesture).toBe(next);
+
+    expect(placePolylinePoint(scene, next, { ...next.shape, x2: 103, y2: 0 }, 8)).toBe(IDLE);
+    expect(scene.getState().shapes[0]).toMatchObject({ x2: 100, y2: 0, waypoints: undefined });
+  });
+
+  it('drops a line finished before it got past its start', () => {
+    const scene = createScene([]);
+    expect(finishPlacing(scene, { type: 'polyline', origin: { x: 0, y: 0 }, shape: line, bindTargetId: null })).toBe(IDLE);
+    expect(scene.getState().shapes).toEqual([]);
+  });
+
+  it('waits for every finger to lift before a pinch ends', () => {
+    const scene = createScene([]);
+    const pinch: Gesture = { type: 'pinch', start: { x: 0, y: 0, distance: 10 }, viewport: { offsetX: 0, offsetY: 0, zoom: 1 } };
+    expect(endGesture(scene, pinch, { ...endOptions, pressedCount: 1 }).gesture).toBe(pinch);
+    expect(endGesture(scene, pinch, endOptions).gesture).toBe(IDLE);
+  });
+
+  it('removes what the eraser passed over once it is lifted', () => {
+    const scene = createScene([rect('a'), rect('b', 300)]);
+    const { mode, radius, tolerance, simplifyTolerance, editingGroupId } = eraseOptions;
+    const options = { mode, radius, tolerance, simplifyTolerance, editingGroupId };
+    let erasing: EraseGesture = { type: 'erase', trail: [], erasingIds: [] };
+    erasing = eraseTo(scene, erasing, { x: -20, y: 50 }, options);
+    erasing = eraseTo(scene, erasing, { x: 20, y: 50 }, options);
+    expect(erasing).toEqual({ type: 'erase', trail: [{ x: -20, y: 50 }, { x: 20, y: 50 }], erasingIds: ['a'] });
+    expect(scene.getState().shapes).toHaveLength(2);
+
+    endGesture(scene, erasing, endOptions);
+    expect(scene.getState().shapes.map((shape) => shape.id)).toEqual(['b']);
+  });
+});
+
+describe('eraseAlong', () => {
+  it('marks the shapes it crosses, with their groups, and leaves locked ones', () => {
+    const scene = createScene([
+      { ...rect('a'), groupIds: ['g'] },
+      { ...rect('b', 1000), groupIds: ['g'] },
+      { ...rect('c', 0, 200), locked: true },
+    ]);
+    expect(eraseAlong(scene, { x: -20, y: 50 }, { x: 20, y: 50 }, eraseOptions)).toEqual(['a', 'b']);
+    expect(eraseAlong(scene, { x: -20, y: 50 }, { x: 20, y: 50 }, { ...eraseOptions, erasingIds: ['a', 'b'] })).toEqual([]);
+    expect(eraseAlong(scene, { x: -20, y: 250 }, { x: 20, y: 250 }, eraseOptions)).toEqual([]);
+    expect(scene.getState().shapes).toHaveLength(3);
+  });
+
+  it('cuts pen strokes right away in partial mode', () => {
+    const pen: Shape = {
+      id: 'pen',
+      type: 'pen',
+      x: 0,
+      y: 0,
+      path: Array.from({ length: 21 }, (_, i) => ({ x: i * 10, y: 0 })),
+    };
+    const scene = createScene([pen]);
+    expect(eraseAlong(scene, { x: 100, y: -20 }, { x: 100, y: 20 }, { ...eraseOptions, mode: 'partial' })).toEqual([]);
+
+    const pieces = scene.getState().shapes;
+    expect(pieces).toHaveLength(2);
+    expect(pieces[0].id).toBe('pen');
+    expect(scene.getState().canUndo).toBe(false);
+  });
+
+  it('only tries to cut strokes near the eraser', () => {
+    const stroke = (id: string, y: number): Shape => ({
+      id,
+      type: 'pen',
+      x: 0,
+      y,
+      path: Array.from({ length: 21 }, (_, i) => ({ x: i * 10, y })),
+    });
+    const scene = createScene([stroke('near', 0), stroke('far', 5000)]);
+    vi.mocked(eraseFromStroke).mockClear();
+    eraseAlong(scene, { x: 100, y: -20 }, { x: 100, y: 20 }, { ...eraseOptions, mode: 'partial' });
+
+    expect(vi.mocked(eraseFromStroke).mock.calls.map(([shape]) => shape.id)).toEqual(['near']);
+    expect(scene.getState().shapes.map((shape) => shape.id)).toContain('far');
+  });
+});
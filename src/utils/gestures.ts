@@ -0,0 +1,476 @@
+// src/utils/gestures.ts
+//
+// What pointer gestures do to a scene: clicking and double-clicking shapes, transforming and moving
+// the selection, dragging out new shapes, rubber-band selection and erasing. The gesture in
+// progress is a `Gesture` value; Canvas turns pointer events into these calls and keeps only that
+// value between events.
+import type {
+  Bounds,
+  EraserMode,
+  Shape,
+  ShapeBinding,
+  ShapeStyle,
+  ShapeType,
+  SketchOptions,
+  TextAlign,
+  TransformHandle,
+} from '../types/Shapes';
+import type { Viewport } from '../types/Viewport';
+import { attachEndpoint, detachConnector, updateBoundConnectors } from './bindings';
+import { newShapeId } from './clipboard';
+import { insertWaypoint, moveConnectorHandle, parseConnectorHandle, removeWaypoint } from './connectors';
+import { cropImage } from './crop';
+import { eraseFromStroke } from './eraser';
+import { simplifyPath } from './freehand';
+import {
+  containsBounds,
+  getCommonBounds,
+  getConnectorVertices,
+  getMultiTransformHandles,
+  getShapeBounds,
+  getTransformHandles,
+  growBounds,
+  isLinear,
+  moveEndpoint,
+  moveShape,
+  normalizeBounds,
+  resizeShape,
+  resizeShapes,
+  rotateShape,
+  snapLineAngle,
+} from './geometry';
+import { expandToGroups, getSelectionGroupId, isInGroup } from './groups';
+import { isPointInShape } from './hitTest';
+import { newSeed } from './rough';
+import type { Scene } from './scene';
+import { getSnapTargets, snapBoundsTo } from './snapping';
+import type { SnapResult, SnapSettings } from './snapping';
+import { getShapeStyle, hasFill, pickStyleFor } from './style';
+import { getTextDraft } from './textEditing';
+import type { PanStart, Pinch } from './viewport';
+
+type Point = { x: number; y: number };
+
+// Pointer positions the trail behind the eraser follows
+const ERASER_TRAIL_LENGTH = 8;
+
+// What the pointer is doing between pressing and lifting it. Lines placed click by click stay in
+// 'polyline' across several presses.
+export type Gesture =
+  | { type: 'idle' }
+  | { type: 'pan'; start: PanStart }
+  | { type: 'pinch'; start: Pinch; viewport: Viewport }
+  // Dragging the selection. The drag point follows the selection, so it's off the pointer by
+  // however far the selection snapped.
+  | { type: 'move'; dragPoint: Point; hasMoved: boolean }
+  // Dragging a handle, with the selected shapes as they were when the drag started
+  | { type: 'transform'; handle: TransformHandle; originals: Shape[]; hasMoved: boolean; bindTargetId: string | null }
+  // Rubber-band selection; shift-dragging adds to the shapes that were already selected
+  | { type: 'marquee'; origin: Point; box: Bounds; baseIds: string[] }
+  // A new shape dragged out from `origin`; bindTargetId is the shape a line's end would attach to
+  | { type: 'draw'; origin: Point; shape: Shape; bindTargetId: string | null }
+  // A line or arrow placed click by click from `origin`, the last point placed
+  | { type: 'polyline'; origin: Point; shape: Shape; lastBinding?: ShapeBinding; bindTargetId: string | null }
+  // Recent eraser positions, and the shapes it passed over that go when it's lifted
+  | { type: 'erase'; trail: Point[]; erasingIds: string[] };
+
+export type PolylineGesture = Extract<Gesture, { type: 'polyline' }>;
+export type EraseGesture = Extract<Gesture, { type: 'erase' }>;
+
+export const IDLE: Gesture = { type: 'idle' };
+
+// Stop the gesture. A move or transform that already changed something, and strokes the eraser
+// already cut, are kept as one undo step.
+export const cancelGesture = (scene: Scene, gesture: Gesture): Gesture => {
+  if (((gesture.type === 'move' || gesture.type === 'transform') && gesture.hasMoved) || gesture.type === 'erase') {
+    scene.commit();
+  }
+  return IDLE;
+};
+
+// What lifting the pointer leaves: the next gesture, and the text box to open the inline editor
+// on when a text box was dragged out
+export const endGesture = (
+  scene: Scene,
+  gesture: Gesture,
+  options: { pressedCount: number; hitRadius: number; simplifyTolerance: number }
+): { gesture: Gesture; textDraft: Shape | null } => {
+  const end = (next: Gesture, textDraft: Shape | null = null) => ({ gesture: next, textDraft });
+  switch (gesture.type) {
+    case 'pinch':
+      // Wait for every finger to lift so the remaining one doesn't start drawing
+      return end(options.pressedCount === 0 ? IDLE : gesture);
+    case 'erase':
+      // Cuts made on the way and the shapes passed over become one undo step
+      scene.removeShapes(gesture.erasingIds);
+      return end(IDLE);
+    case 'move':
+    case 'transform':
+      // The whole drag becomes one undo step; the selection stays for the style panel
+      if (gesture.hasMoved) scene.commit();
+      return end(IDLE);
+    case 'polyline':
+      // Points of a line placed click by click are added on pointer down
+      return end(gesture);
+    case 'draw': {
+      const { shape } = gesture;
+      const length = Math.hypot((shape.x2 ?? shape.x) - shape.x, (shape.y2 ?? shape.y) - shape.y);
+      if (isLinear(shape.type) && length <= options.hitRadius) {
+        // A click without dragging places the line point by point
+        return end({ ...gesture, type: 'polyline' });
+      }
+      // Hand a dragged text box over to the inline editor
+      if (shape.type === 'text') return end(IDLE, getTextDraft(shape));
+      // Pen strokes keep only the points needed for their shape at the current zoom
+      const drawn = shape.type === 'pen' && shape.path
+        ? { ...shape, path: simplifyPath(shape.path, options.simplifyTolerance) }
+        : shape;
+      scene.addShapes([drawn], { select: false });
+      return end(IDLE);
+    }
+    default:
+      return end(IDLE);
+  }
+};
+
+// Lines drawn on touch screens keep to 45 degree steps within this many radians of one
+const ANGLE_STEP_TOLERANCE = 0.2;
+
+export const isNearAngleStep = (dx: number, dy: number) => {
+  const angle = Math.atan2(dy, dx);
+  const step = Math.round(angle / (Math.PI / 4)) * (Math.PI / 4);
+  return Math.abs(angle - step) < ANGLE_STEP_TOLERANCE;
+};
+
+// Transform handles of the selection in scene coordinates, kept the same size on screen at any
+// zoom. A selection with anything locked in it has none.
+export const getSelectionHandles = (selected: Shape[], zoom: number): Partial<Record<TransformHandle, Point>> => {
+  if (selected.length === 0 || selected.some((shape) => shape.locked)) return {};
+  if (selected.length > 1) return getMultiTransformHandles(selected, 12 / zoom);
+  const [shape] = selected;
+  const padding = 6 / zoom + getShapeStyle(shape).strokeWidth / 2;
+  return getTransformHandles(shape, padding, 24 / zoom);
+};
+
+// The handle within `hitRadius` of the point, if any
+export const findHandleAt = (
+  handles: Partial<Record<TransformHandle, Point>>,
+  point: Point,
+  hitRadius: number
+): TransformHandle | null => {
+  const hit = (Object.keys(handles) as TransformHandle[]).find((handle) => {
+    const { x, y } = handles[handle]!;
+    return Math.hypot(x - point.x, y - point.y) <= hitRadius;
+  });
+  return hit ?? null;
+};
+
+export interface TransformOptions {
+  keepAspect: boolean; // shift - keep proportions, or snap rotation and line angles
+  fromCenter: boolean; // alt - resize around the center
+  croppingId: string | null; // image whose handles crop it instead of resizing it
+  bindTolerance: number; // how close a dragged line end has to get to a shape to attach to it
+}
+
+// Drag a handle of the selection. `originals` are the selected shapes as the drag started, so
+// the shapes follow the pointer exactly. Returns the shape a dragged line end attaches to.
+export const transformSelection = (
+  scene: Scene,
+  originals: Shape[],
+  handle: TransformHandle,
+  point: Point,
+  options: TransformOptions
+): string | null => {
+  const [original] = originals;
+  let targetId: string | null = null;
+  let transformed: Shape[];
+  if (originals.length > 1) {
+    // Several shapes (e.g. a group) scale together from the corners of their common box
+    transformed = resizeShapes(originals, handle, point, { fromCenter: options.fromCenter });
+  } else if (handle === 'rotation') {
+    transformed = [rotateShape(original, point, options.keepAspect)];
+  } else if (handle === 'start' || handle === 'end') {
+    const moved = moveEndpoint(original, handle, point, options.keepAspect);
+    const attached = attachEndpoint(scene.getState().shapes, moved, handle, point, options.bindTolerance);
+    transformed = [attached.shape];
+    targetId = attached.targetId;
+  } else if (parseConnectorHandle(handle)) {
+    transformed = [moveConnectorHandle(original, handle, point, options.keepAspect)];
+  } else if (original.id === options.croppingId) {
+    transformed = [cropImage(original, handle, point)];
+  } else {
+    transformed = [resizeShape(original, handle, point, options)];
+  }
+  scene.replaceShapes(transformed, { record: false });
+  return targetId;
+};
+
+// Move the unlocked part of the selection. Connectors dragged without the shapes they're bound
+// to come loose from them.
+export const moveSelection = (scene: Scene, dx: number, dy: number) => {
+  const { selectedIds } = scene.getState();
+  scene.update((shapes) =>
+    updateBoundConnectors(shapes.map((shape) =>
+      selectedIds.includes(shape.id) && !shape.locked
+        ? detachConnector(moveShape(shape, dx, dy), selectedIds)
+        : shape
+    ))
+  );
+};
+
+// The shape and the rest of the group a click on it selects, and the group still being edited
+// afterwards: clicking outside the group being edited leaves it
+export const getClickedUnit = (shapes: Shape[], shape: Shape, editingGroupId: string | null) => {
+  const groupLevel = editingGroupId && !isInGroup(shape, editingGroupId) ? null : editingGroupId;
+  return { ids: expandToGroups(shapes, [shape.id], groupLevel), editingGroupId: groupLevel };
+};
+
+// Select a clicked shape with the rest of its group. With `additive` (shift) the shape and its
+// group are toggled in the selection instead. Returns the group still being edited.
+export const selectClicked = (
+  scene: Scene,
+  shape: Shape,
+  additive: boolean,
+  editingGroupId: string | null
+): string | null => {
+  const { shapes, selectedIds } = scene.getState();
+  const unit = getClickedUnit(shapes, shape, editingGroupId);
+  const isSelected = selectedIds.includes(shape.id);
+  if (additive && isSelected) {
+    scene.setSelection(selectedIds.filter((id) => !unit.ids.includes(id)));
+  } else if (additive) {
+    scene.setSelection([...selectedIds, ...unit.ids.filter((id) => !selectedIds.includes(id))]);
+  } else if (!isSelected) {
+    scene.setSelection(unit.ids);
+  }
+  return unit.editingGroupId;
+};
+
+// Go one level into the group a double-clicked shape belongs to and select the shape (or the
+// group nested inside that holds it). Returns the group entered, or null when there's none.
+export const enterGroup = (scene: Scene, shape: Shape, editingGroupId: string | null): string | null => {
+  const groupLevel = editingGroupId && !isInGroup(shape, editingGroupId) ? null : editingGroupId;
+  const groupId = getSelectionGroupId(shape, groupLevel);
+  if (!groupId) return null;
+  scene.setSelection(expandToGroups(scene.getState().shapes, [shape.id], groupId));
+  return groupId;
+};
+
+// Double-clicking a line or arrow removes the point under the pointer, or adds one where the line
+// was clicked. Returns whether the line was edited.
+export const editConnectorPoint = (
+  scene: Scene,
+  shape: Shape,
+  point: Point,
+  handle: TransformHandle | null,
+  hitRadius: number
+): boolean => {
+  const parsed = handle && parseConnectorHandle(handle);
+  if (parsed && parsed.kind === 'point') {
+    scene.replaceShapes([removeWaypoint(shape, parsed.index)]);
+    return true;
+  }
+  if (handle) return false;
+
+  const edited = insertWaypoint(shape, point, hitRadius);
+  if (edited) scene.replaceShapes([edited]);
+  return !!edited;
+};
+
+// The move of `dx`/`dy` adjusted so the selection lines up with the grid or other shapes. Locked
+// shapes stay behind, so only the rest of the selection is snapped.
+export const snapSelectionMove = (scene: Scene, dx: number, dy: number, settings: SnapSettings): SnapResult => {
+  const { shapes, selectedIds } = scene.getState();
+  const moving = shapes.filter((shape) => selectedIds.includes(shape.id) && !shape.locked);
+  if (moving.length === 0) return { dx, dy, guides: [] };
+
+  const bounds = getCommonBounds(moving);
+  const snap = snapBoundsTo(
+    { minX: bounds.minX + dx, minY: bounds.minY + dy, maxX: bounds.maxX + dx, maxY: bounds.maxY + dy },
+    getSnapTargets(shapes, selectedIds),
+    settings
+  );
+  return { dx: dx + snap.dx, dy: dy + snap.dy, guides: snap.guides };
+};
+
+// Select the shapes that lie completely inside the box, along with the rest of their groups.
+// `baseIds` were selected before the box was dragged out, e.g. when holding Shift.
+export const selectInBox = (scene: Scene, box: Bounds, baseIds: string[], editingGroupId: string | null) => {
+  const insideIds = scene
+    .getShapesIn(box)
+    .filter((shape) => !baseIds.includes(shape.id) && containsBounds(box, getShapeBounds(shape)))
+    .filter((shape) => !editingGroupId || isInGroup(shape, editingGroupId))
+    .map((shape) => shape.id);
+  scene.setSelection(expandToGroups(scene.getState().shapes, [...baseIds, ...insideIds], editingGroupId));
+};
+
+export interface ShapeDefaults {
+  style: ShapeStyle;
+  sketch: SketchOptions;
+  text: { fontSize: number; textAlign: TextAlign };
+}
+
+// A new shape of the tool's type at `point` in the current style, to be sized as the pointer is
+// dragged. `extra` carries what the tool adds at the start, such as a pen's first points.
+export const startDrawnShape = (
+  type: ShapeType,
+  point: Point,
+  defaults: ShapeDefaults,
+  extra: Partial<Shape> = {}
+): Shape => {
+  const shape: Shape = { id: newShapeId(), type, x: point.x, y: point.y, ...extra };
+  if (type === 'text') {
+    return {
+      ...shape,
+      width: 0,
+      height: 0,
+      text: '',
+      fontSize: defaults.text.fontSize,
+      textAlign: defaults.text.textAlign,
+      ...pickStyleFor(type, defaults.style),
+    };
+  }
+  return {
+    ...shape,
+    seed: newSeed(),
+    roughness: defaults.sketch.roughness,
+    bowing: defaults.sketch.bowing,
+    ...(hasFill(type) && { fillStyle: defaults.sketch.fillStyle }),
+    ...pickStyleFor(type, defaults.style),
+  };
+};
+
+// Size a shape being dragged out from `origin`; `square` keeps boxes as wide as they are tall
+export const sizeDrawnShape = (shape: Shape, origin: Point, point: Point, square: boolean): Shape => {
+  if (shape.type === 'circle') {
+    return { ...shape, radius: Math.hypot(point.x - origin.x, point.y - origin.y) };
+  }
+  let width = point.x - origin.x;
+  let height = point.y - origin.y;
+  if (square && shape.type !== 'text') {
+    const size = Math.max(Math.abs(width), Math.abs(height));
+    width = width < 0 ? -size : size;
+    height = height < 0 ? -size : size;
+  }
+  return { ...shape, width, height };
+};
+
+// Move the end of a line or arrow being drawn from `origin`. Lines keep to 45 degree steps when
+// `snapAngle` is set; the end attaches to the shape under the pointer.
+export const placeLinearEnd = (
+  shapes: Shape[],
+  shape: Shape,
+  origin: Point,
+  point: Point,
+  pointer: Point,
+  options: { snapAngle: boolean; bindTolerance: number }
+) => {
+  const end = shape.type === 'line' && options.snapAngle ? snapLineAngle(origin, point) : point;
+  return attachEndpoint(shapes, { ...shape, x2: end.x, y2: end.y }, 'end', pointer, options.bindTolerance);
+};
+
+// End a line or arrow placed click by click at the last point placed, dropping the segment that
+// followed the pointer. Null for a line that never got past its start.
+export const finishPolyline = (shape: Shape, lastBinding?: ShapeBinding): Shape | null => {
+  const waypoints = [...(shape.waypoints || [])];
+  const end = waypoints.pop();
+  if (!end) return null;
+  return {
+    ...shape,
+    x2: end.x,
+    y2: end.y,
+    endBinding: lastBinding,
+    waypoints: waypoints.length > 0 ? waypoints : undefined,
+  };
+};
+
+// Finish the line being placed click by click, adding it unless it never got past its start
+export const finishPlacing = (scene: Scene, gesture: PolylineGesture): Gesture => {
+  const finished = finishPolyline(gesture.shape, gesture.lastBinding);
+  if (finished) scene.addShapes([finished], { select: false });
+  return IDLE;
+};
+
+// Fix the end of the line being placed, as moved by placeLinearEnd, as its next point. Clicking the
+// last point again (a double-click or double-tap) finishes the line instead.
+export const placePolylinePoint = (
+  scene: Scene,
+  gesture: PolylineGesture,
+  placed: Shape,
+  hitRadius: number
+): Gesture => {
+  const vertices = getConnectorVertices(placed);
+  const end = vertices[vertices.length - 1];
+  const last = vertices[vertices.length - 2];
+  if (Math.hypot(end.x - last.x, end.y - last.y) <= hitRadius) return finishPlacing(scene, gesture);
+  return {
+    ...gesture,
+    origin: end,
+    shape: { ...placed, waypoints: [...(placed.waypoints || []), end] },
+    lastBinding: placed.endBinding,
+  };
+};
+
+export interface EraseOptions {
+  mode: EraserMode;
+  radius: number; // eraser size in scene units
+  tolerance: number; // how close to a shape counts as touching it
+  simplifyTolerance: number; // passed on to simplify the pieces of cut strokes
+  erasingIds: string[]; // shapes already marked on the way
+  editingGroupId: string | null;
+}
+
+// Erase along the eraser's move between two positions. Returns the shapes it newly crossed, which
+// are removed when it's lifted; in partial mode pen strokes are cut right away instead.
+export const eraseAlong = (scene: Scene, from: Point, to: Point, options: EraseOptions): string[] => {
+  const { radius, tolerance } = options;
+  const cutsStrokes = options.mode === 'partial';
+
+  // The tolerance already allows for the eraser's size, so testing points a radius apart is enough
+  const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / radius));
+  const samples = Array.from({ length: steps + 1 }, (_, i) => ({
+    x: from.x + ((to.x - from.x) * i) / steps,
+    y: from.y + ((to.y - from.y) * i) / steps,
+  }));
+  const crossedIds = scene
+    .getShapesIn(growBounds(normalizeBounds(from.x, from.y, to.x, to.y), tolerance))
+    .filter((shape) =>
+      !shape.locked &&
+      !(cutsStrokes && shape.type === 'pen') &&
+      !options.erasingIds.includes(shape.id) &&
+      samples.some((point) => isPointInShape(shape, point, tolerance))
+    )
+    .map((shape) => shape.id);
+
+  if (cutsStrokes) {
+    // Only strokes near the eraser's move can be cut; the index allows for their stroke widths
+    const cuts = new Map<string, Shape[]>();
+    scene.getShapesIn(growBounds(normalizeBounds(from.x, from.y, to.x, to.y), radius)).forEach((shape) => {
+      if (shape.locked) return;
+      const pieces = eraseFromStroke(shape, from, to, radius, options.simplifyTolerance, newShapeId);
+      if (pieces) cuts.set(shape.id, pieces);
+    });
+    if (cuts.size > 0) {
+      scene.update(updateBoundConnectors(scene.getState().shapes.flatMap((shape) => cuts.get(shape.id) ?? [shape])));
+    }
+  }
+
+  const ids = crossedIds.length > 0 ? expandToGroups(scene.getState().shapes, crossedIds, options.editingGroupId) : [];
+  return ids.filter((id) => !options.erasingIds.includes(id));
+};
+
+// Move the eraser on to `point`, marking what it crosses. Erasing starts from an empty trail.
+export const eraseTo = (
+  scene: Scene,
+  gesture: EraseGesture,
+  point: Point,
+  options: Omit<EraseOptions, 'erasingIds'>
+): EraseGesture => {
+  const from = gesture.trail[gesture.trail.length - 1] ?? point;
+  const crossedIds = eraseAlong(scene, from, point, { ...options, erasingIds: gesture.erasingIds });
+  return {
+    type: 'erase',
+    trail: [...gesture.trail, point].slice(-ERASER_TRAIL_LENGTH),
+    erasingIds: [...gesture.erasingIds, ...crossedIds],
+  };
+};
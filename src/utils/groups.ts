@@ -0,0 +1,73 @@
+// src/utils/groups.ts
+//
+// Groups live on their members: `groupIds` lists the groups a shape belongs to, innermost first.
+// A group has no object of its own and is gone once no shape lists it.
+import type { Shape } from '../types/Shapes';
+
+// The group a click on the shape selects: its outermost group or, while a group is being edited,
+// the group just inside that one. Null when the shape is selected on its own.
+export const getSelectionGroupId = (shape: Shape, editingGroupId: string | null): string | null => {
+  const groupIds = shape.groupIds ?? [];
+  if (!editingGroupId) return groupIds[groupIds.length - 1] ?? null;
+  const index = groupIds.indexOf(editingGroupId);
+  return index > 0 ? groupIds[index - 1] : null;
+};
+
+export const isInGroup = (shape: Shape, groupId: string) => !!shape.groupIds?.includes(groupId);
+
+// Grow the selection so every group it touches is selected in full
+export const expandToGroups = (shapes: Shape[], ids: string[], editingGroupId: string | null): string[] => {
+  const groupIds = new Set(
+    shapes
+      .filter((shape) => ids.includes(shape.id))
+      .map((shape) => getSelectionGroupId(shape, editingGroupId))
+      .filter((groupId): groupId is string => groupId !== null)
+  );
+  return shapes
+    .filter((shape) => {
+      const groupId = getSelectionGroupId(shape, editingGroupId);
+      return ids.includes(shape.id) || (groupId !== null && groupIds.has(groupId));
+    })
+    .map((shape) => shape.id);
+};
+
+// Put the selected shapes in a new group inside the one being edited. The members move down to
+// sit right below the topmost of them, so the group draws as one layer.
+export const groupShapes = (
+  shapes: Shape[],
+  ids: string[],
+  editingGroupId: string | null,
+  groupId: string
+): Shape[] => {
+  const isSelected = (shape: Shape) => ids.includes(shape.id);
+  const members = shapes.filter(isSelected).map((shape) => {
+    const groupIds = shape.groupIds ?? [];
+    const editingIndex = editingGroupId ? groupIds.indexOf(editingGroupId) : -1;
+    const index = editingIndex >= 0 ? editingIndex : groupIds.length;
+    return { ...shape, groupIds: [...groupIds.slice(0, index), groupId, ...groupIds.slice(index)] };
+  });
+  if (members.length === 0) return shapes;
+
+  const topIndex = shapes.reduce((top, shape, index) => (isSelected(shape) ? index : top), -1);
+  const below = shapes.slice(0, topIndex).filter((shape) => !isSelected(shape));
+  const above = shapes.slice(topIndex + 1);
+  return [...below, ...members, ...above];
+};
+
+// Dissolve the groups the selection is made of at the current level. Groups nested inside them
+// stay, so ungrouping again goes one level deeper.
+export const ungroupShapes = (shapes: Shape[], ids: string[], editingGroupId: string | null): Shape[] => {
+  const groupIds = new Set(
+    shapes
+      .filter((shape) => ids.includes(shape.id))
+      .map((shape) => getSelectionGroupId(shape, editingGroupId))
+      .filter((groupId): groupId is string => groupId !== null)
+  );
+  if (groupIds.size === 0) return shapes;
+
+  return shapes.map((shape) => {
+    if (!shape.groupIds?.some((groupId) => groupIds.has(groupId))) return shape;
+    const remaining = shape.groupIds.filter((groupId) => !groupIds.has(groupId));
+    return { ...shape, groupIds: remaining.length > 0 ? remaining : undefined };
+  });
+};
@@ -0,0 +1,71 @@
+// src/utils/hitTest.ts
+//
+// Whether a point is on a shape, for picking shapes under the pointer and the eraser. Only a
+// shape's bounds are needed to rule it out, so callers narrow the shapes down with the spatial
+// index before testing them here.
+import type { Shape } from '../types/Shapes';
+import { distanceToSegment, getConnectorPolyline, getShapeAngle, getShapeCenter, rotatePoint } from './geometry';
+import { getPointWidth } from './freehand';
+import { getClosestOutlinePoint, isInsideOutline } from './outlines';
+import { getShapeStyle } from './style';
+
+type Point = { x: number; y: number };
+
+// `tolerance` is how far off the shape a point may be and still count, in scene units
+export const isPointInShape = (shape: Shape, point: Point, tolerance: number): boolean => {
+  // Test rotated shapes in their own unrotated frame
+  const local = rotatePoint(point, getShapeCenter(shape), -getShapeAngle(shape));
+  const { x, y } = local;
+
+  switch (shape.type) {
+    case 'rectangle':
+    case 'image':
+    case 'text': {
+      const width = shape.width || 0;
+      const height = shape.height || 0;
+      const minX = width < 0 ? shape.x + width : shape.x;
+      const maxX = width < 0 ? shape.x : shape.x + width;
+      const minY = height < 0 ? shape.y + height : shape.y;
+      const maxY = height < 0 ? shape.y : shape.y + height;
+      return x >= minX - tolerance && x <= maxX + tolerance &&
+             y >= minY - tolerance && y <= maxY + tolerance;
+    }
+
+    case 'circle':
+      return Math.hypot(x - shape.x, y - shape.y) <= (shape.radius || 0) + tolerance;
+
+    case 'ellipse':
+    case 'diamond':
+    case 'triangle':
+    case 'polygon':
+    case 'star': {
+      // Inside the outline itself, or close enough to it
+      if (isInsideOutline(shape, local)) return true;
+      const outline = getClosestOutlinePoint(shape, local);
+      return Math.hypot(x - outline.x, y - outline.y) <= tolerance;
+    }
+
+    case 'line':
+    case 'arrow': {
+      const route = getConnectorPolyline(shape);
+      return route.slice(1).some((to, i) => distanceToSegment(local, route[i], to) < tolerance);
+    }
+
+    case 'pen': {
+      if (!shape.path) return false;
+      // Strokes are as wide as the pressure made them, and a single tap leaves a dot
+      const { strokeWidth } = getShapeStyle(shape);
+      const path = shape.path;
+      if (path.length === 1) {
+        return Math.hypot(x - path[0].x, y - path[0].y) < tolerance + getPointWidth(path[0], strokeWidth) / 2;
+      }
+      return path.slice(1).some((to, i) => {
+        const halfWidth = Math.max(getPointWidth(path[i], strokeWidth), getPointWidth(to, strokeWidth)) / 2;
+        return distanceToSegment(local, path[i], to) < tolerance + halfWidth;
+      });
+    }
+
+    default:
+      return false;
+  }
+};
@@ -0,0 +1,55 @@
+// src/utils/image.ts
+//
+// Decoded images for image shapes, shared between redraws and exports.
+const imageCache = new Map<string, HTMLImageElement>();
+
+// Largest side of a newly inserted image, in scene units
+export const MAX_INSERTED_IMAGE_SIZE = 480;
+
+const getCachedImage = (src: string): HTMLImageElement => {
+  let image = imageCache.get(src);
+  if (!image) {
+    image = new Image();
+    image.src = src;
+    imageCache.set(src, image);
+  }
+  return image;
+};
+
+// The image for a data URL once it has loaded, or null while it's still decoding. Loading starts
+// the first time it's asked for. onLoad fires once the first time the image becomes available.
+export const getImage = (src: string, onLoad?: () => void): HTMLImageElement | null => {
+  const image = getCachedImage(src);
+  if (image.complete && image.naturalWidth > 0) return image;
+  if (onLoad) image.addEventListener('load', onLoad, { once: true });
+  return null;
+};
+
+// Load and decode the image for a data URL, for drawing it without waiting on a redraw.
+// Rejects when the image can't be decoded.
+export const loadImage = async (src: string): Promise<HTMLImageElement> => {
+  const image = getCachedImage(src);
+  await image.decode();
+  return image;
+};
+
+export const readAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// Load an image and report its natural size, scaled down to fit MAX_INSERTED_IMAGE_SIZE
+export const loadImageSize = (src: string): Promise<{ width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      imageCache.set(src, image);
+      const scale = Math.min(1, MAX_INSERTED_IMAGE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+      resolve({ width: image.naturalWidth * scale, height: image.naturalHeight * scale });
+    };
+    image.onerror = () => reject(new Error('The image could not be loaded'));
+    image.src = src;
+  });
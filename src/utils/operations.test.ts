@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { rect } from '../test/fixtures';
+import { applyOperations, applyOrder, patchesToOperations } from './operations';
+import { applyPatches, diffShapes } from './patches';
+
+const shapes = [rect('a'), rect('b', 200), rect('c', 400)];
+
+describe('applyOrder', () => {
+  it('reorders the listed shapes within the slots they take up, leaving the rest in place', () => {
+    const order = applyOrder([...shapes, rect('d', 600)], ['c', 'a']);
+    expect(order.map((shape) => shape.id)).toEqual(['c', 'b', 'a', 'd']);
+  });
+});
+
+describe('patchesToOperations', () => {
+  it('makes the same change as the patches it was made from', () => {
+    const after = [{ ...shapes[2], fillColor: '#ff0000' }, rect('d', 600), shapes[0]];
+    const patches = diffShapes(shapes, after);
+    expect(applyOperations(shapes, patchesToOperations(patches))).toEqual(applyPatches(shapes, patches));
+  });
+
+  it('sends removed fields as null, since JSON has no undefined', () => {
+    const filled = { ...shapes[0], fillColor: '#ff0000' };
+    const operations = patchesToOperations(diffShapes([filled], [shapes[0]]));
+    expect(operations).toEqual([{ type: 'update', id: 'a', fields: { fillColor: null } }]);
+    expect(applyOperations([filled], JSON.parse(JSON.stringify(operations)))).toEqual([shapes[0]]);
+  });
+});
+
+describe('applyOperations', () => {
+  it('drops changes to shapes that are gone and additions of shapes that exist', () => {
+    const next = applyOperations(shapes, [
+      { type: 'update', id: 'gone', fields: { x: 10 } },
+      { type: 'remove', id: 'gone' },
+      { type: 'add', index: 0, shape: { ...shapes[1], x: 999 } },
+    ]);
+    expect(next).toEqual(shapes);
+  });
+
+  it('clamps add indexes and never changes a shape id', () => {
+    const next = applyOperations(shapes, [
+      { type: 'add', index: 99, shape: rect('d') },
+      { type: 'add', index: -5, shape: rect('e') },
+      { type: 'update', id: 'a', fields: { id: 'z', x: 10 } },
+    ]);
+    expect(next.map((shape) => shape.id)).toEqual(['e', 'a', 'b', 'c', 'd']);
+    expect(next[1]).toEqual(rect('a', 10));
+  });
+
+  it('ends with the same shapes whichever client applies the same operations', () => {
+    const operations = patchesToOperations(diffShapes(shapes, [shapes[1], { ...shapes[0], y: 20 }]));
+    const copy = JSON.parse(JSON.stringify(shapes));
+    expect(applyOperations(copy, operations)).toEqual(applyOperations(shapes, operations));
+  });
+});
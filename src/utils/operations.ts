@@ -0,0 +1,67 @@
+// src/utils/operations.ts
+//
+// Operations on the shared scene for collaborative editing. The relay and every client apply
+// them with the same functions, so everyone ends up with the same shapes. Only types are
+// imported here, because the relay runs this file under Node as it is.
+import type { ShapeOperation } from '../types/Collaboration';
+import type { ShapePatch } from '../types/History';
+import type { Shape } from '../types/Shapes';
+
+// Put the listed shapes in the given order, in the slots the listed shapes take up now. Shapes
+// missing from the list stay where they are, e.g. ones someone else added meanwhile.
+export const applyOrder = (shapes: Shape[], order: string[]): Shape[] => {
+  const position = new Map(order.map((id, index) => [id, index]));
+  const listed = shapes
+    .filter((shape) => position.has(shape.id))
+    .sort((a, b) => position.get(a.id)! - position.get(b.id)!);
+  let next = 0;
+  return shapes.map((shape) => (position.has(shape.id) ? listed[next++] : shape));
+};
+
+// Operations making the same change as a list of undo history patches
+export const patchesToOperations = (patches: ShapePatch[]): ShapeOperation[] =>
+  patches.map((patch): ShapeOperation => {
+    switch (patch.type) {
+      case 'add':
+        return { type: 'add', index: patch.index, shape: patch.shape };
+      case 'remove':
+        return { type: 'remove', id: patch.shape.id };
+      case 'update':
+        return {
+          type: 'update',
+          id: patch.id,
+          fields: Object.fromEntries(Object.entries(patch.after).map(([key, value]) => [key, value ?? null])),
+        };
+      case 'reorder':
+        return { type: 'reorder', order: patch.after };
+    }
+  });
+
+// Apply operations in order. Adding a shape that already exists, and updating or removing one
+// that doesn't, does nothing: a change to a shape someone else deleted is dropped.
+export const applyOperations = (shapes: Shape[], operations: ShapeOperation[]): Shape[] =>
+  operations.reduce((current, operation) => {
+    switch (operation.type) {
+      case 'add': {
+        if (current.some((shape) => shape.id === operation.shape.id)) return current;
+        const next = [...current];
+        next.splice(Math.min(Math.max(0, operation.index), next.length), 0, operation.shape);
+        return next;
+      }
+      case 'remove':
+        return current.filter((shape) => shape.id !== operation.id);
+      case 'update':
+        return current.map((shape) => {
+          if (shape.id !== operation.id) return shape;
+          const updated: Record<string, unknown> = { ...shape };
+          Object.entries(operation.fields).forEach(([key, value]) => {
+            if (key === 'id') return;
+            if (value === null || value === undefined) delete updated[key];
+            else updated[key] = value;
+          });
+          return updated as unknown as Shape;
+        });
+      case 'reorder':
+        return applyOrder(current, operation.order);
+    }
+  }, shapes);
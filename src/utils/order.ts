@@ -0,0 +1,41 @@
+// src/utils/order.ts
+import type { Shape, ZOrderAction } from '../types/Shapes';
+
+// Move the selected shapes in the draw order. Selected shapes keep their order among
+// themselves; the same array comes back when nothing moves.
+export const reorderShapes = (shapes: Shape[], selectedIds: string[], action: ZOrderAction): Shape[] => {
+  const isSelected = (shape: Shape) => selectedIds.includes(shape.id);
+
+  let reordered: Shape[];
+  switch (action) {
+    case 'front':
+      reordered = [...shapes.filter((shape) => !isSelected(shape)), ...shapes.filter(isSelected)];
+      break;
+
+    case 'back':
+      reordered = [...shapes.filter(isSelected), ...shapes.filter((shape) => !isSelected(shape))];
+      break;
+
+    case 'forward':
+      // Each selected shape hops over the unselected shape just above it; walking from the
+      // top keeps runs of selected shapes together
+      reordered = [...shapes];
+      for (let i = reordered.length - 2; i >= 0; i--) {
+        if (isSelected(reordered[i]) && !isSelected(reordered[i + 1])) {
+          [reordered[i], reordered[i + 1]] = [reordered[i + 1], reordered[i]];
+        }
+      }
+      break;
+
+    case 'backward':
+      reordered = [...shapes];
+      for (let i = 1; i < reordered.length; i++) {
+        if (isSelected(reordered[i]) && !isSelected(reordered[i - 1])) {
+          [reordered[i], reordered[i - 1]] = [reordered[i - 1], reordered[i]];
+        }
+      }
+      break;
+  }
+
+  return reordered.every((shape, index) => shape === shapes[index]) ? shapes : reordered;
+};
@@ -0,0 +1,117 @@
+// src/utils/outlines.ts
+//
+// Shapes drawn inside their box: ellipses, diamonds, triangles, regular polygons and stars.
+// Everything here works in the shape's unrotated frame.
+import type { Shape, ShapeType } from '../types/Shapes';
+import { getClosestPointOnSegment, getUnrotatedBounds } from './geometry';
+import { getShapeStyle } from './style';
+
+type Point = { x: number; y: number };
+
+export const MIN_SIDES = 3;
+export const MAX_SIDES = 12;
+
+// How far a star's inner corners are from the center, relative to its points
+const STAR_INNER_RADIUS = 0.45;
+
+// Shapes whose outline is a list of corners
+export const isPolygonShape = (type: ShapeType) =>
+  type === 'diamond' || type === 'triangle' || type === 'polygon' || type === 'star';
+
+export const isOutlineShape = (type: ShapeType) => type === 'ellipse' || isPolygonShape(type);
+
+const getBox = (shape: Shape) => {
+  const bounds = getUnrotatedBounds(shape);
+  return {
+    bounds,
+    center: { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 },
+    rx: (bounds.maxX - bounds.minX) / 2,
+    ry: (bounds.maxY - bounds.minY) / 2,
+  };
+};
+
+// Corners of a diamond, triangle, polygon or star, clockwise from the top. Polygons and stars
+// are regular ones stretched to fill the box.
+export const getOutlinePoints = (shape: Shape): Point[] => {
+  const { bounds, center, rx, ry } = getBox(shape);
+  switch (shape.type) {
+    case 'diamond':
+      return [
+        { x: center.x, y: bounds.minY },
+        { x: bounds.maxX, y: center.y },
+        { x: center.x, y: bounds.maxY },
+        { x: bounds.minX, y: center.y },
+      ];
+
+    case 'triangle':
+      return [
+        { x: center.x, y: bounds.minY },
+        { x: bounds.maxX, y: bounds.maxY },
+        { x: bounds.minX, y: bounds.maxY },
+      ];
+
+    case 'polygon':
+    case 'star': {
+      const sides = Math.round(Math.min(MAX_SIDES, Math.max(MIN_SIDES, getShapeStyle(shape).sides)));
+      const count = shape.type === 'star' ? sides * 2 : sides;
+      return Array.from({ length: count }, (_, i) => {
+        const angle = -Math.PI / 2 + (2 * Math.PI * i) / count;
+        const scale = shape.type === 'star' && i % 2 === 1 ? STAR_INNER_RADIUS : 1;
+        return { x: center.x + Math.cos(angle) * rx * scale, y: center.y + Math.sin(angle) * ry * scale };
+      });
+    }
+
+    default:
+      return [];
+  }
+};
+
+// Even-odd ray casting
+const isInsidePolygon = (point: Point, corners: Point[]) => {
+  let inside = false;
+  corners.forEach((a, i) => {
+    const b = corners[(i + 1) % corners.length];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < a.x + ((point.y - a.y) / (b.y - a.y)) * (b.x - a.x)) {
+      inside = !inside;
+    }
+  });
+  return inside;
+};
+
+export const isInsideOutline = (shape: Shape, point: Point): boolean => {
+  if (shape.type === 'ellipse') {
+    const { center, rx, ry } = getBox(shape);
+    if (rx === 0 || ry === 0) return false;
+    return ((point.x - center.x) / rx) ** 2 + ((point.y - center.y) / ry) ** 2 <= 1;
+  }
+  return isInsidePolygon(point, getOutlinePoints(shape));
+};
+
+// Nearest point on the outline. For ellipses it's where the line from the center through the
+// point crosses the outline, which is close enough for hit-testing and attaching connectors.
+export const getClosestOutlinePoint = (shape: Shape, point: Point): Point => {
+  if (shape.type === 'ellipse') {
+    const { center, rx, ry } = getBox(shape);
+    const angle = Math.atan2((point.y - center.y) * rx, (point.x - center.x) * ry);
+    return { x: center.x + Math.cos(angle) * rx, y: center.y + Math.sin(angle) * ry };
+  }
+
+  const corners = getOutlinePoints(shape);
+  let closest = corners[0];
+  let closestDistance = Infinity;
+  corners.forEach((a, i) => {
+    const candidate = getClosestPointOnSegment(point, a, corners[(i + 1) % corners.length]);
+    const distance = Math.hypot(candidate.x - point.x, candidate.y - point.y);
+    if (distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  });
+  return closest;
+};
+
+// SVG path data for the outline of a diamond, triangle, polygon or star
+export const getOutlinePathData = (shape: Shape): string =>
+  getOutlinePoints(shape)
+    .map((point, index) => `${index === 0 ? 'M' : 'L'} ${Number(point.x.toFixed(2))} ${Number(point.y.toFixed(2))}`)
+    .join(' ') + ' Z';
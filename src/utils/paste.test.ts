@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { stubTextMeasuring } from '../test/fixtures';
+import type { Shape } from '../types/Shapes';
+import type { PasteOptions } from './paste';
+import { pasteContent } from './paste';
+import { createScene } from './scene';
+import { DEFAULT_SHAPE_STYLE } from './style';
+
+const options = (point: PasteOptions['point']): PasteOptions => ({
+  point,
+  center: { x: 500, y: 500 },
+  style: { ...DEFAULT_SHAPE_STYLE, strokeColor: '#123456' },
+  text: { fontSize: 20, textAlign: 'center' },
+});
+
+const copied: Shape[] = [
+  { id: 'a', type: 'rectangle', x: 0, y: 0, width: 100, height: 100 },
+  { id: 'b', type: 'ellipse', x: 100, y: 100, width: 100, height: 100 },
+];
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('pasteContent', () => {
+  it('centers copied shapes on the point and selects them', () => {
+    const scene = createScene();
+    expect(pasteContent(scene, { shapes: copied, image: null, text: '' }, options({ x: 1000, y: 1000 }))).toBe(true);
+
+    const { shapes, selectedIds } = scene.getState();
+    expect(shapes.map((shape) => [shape.x, shape.y])).toEqual([[900, 900], [1000, 1000]]);
+    expect(shapes.map((shape) => shape.id)).not.toContain('a');
+    expect(selectedIds).toEqual(shapes.map((shape) => shape.id));
+  });
+
+  it('puts copied shapes beside their originals without a point', () => {
+    const scene = createScene();
+    pasteContent(scene, { shapes: copied, image: null, text: '' }, options(null));
+    expect(scene.getState().shapes[0]).toMatchObject({ x: 20, y: 20 });
+  });
+
+  it('adds plain text as an auto-sized text shape in the current style', () => {
+    stubTextMeasuring();
+    const scene = createScene();
+    pasteContent(scene, { shapes: null, image: null, text: 'hello  \n' }, options(null));
+
+    expect(scene.getState().shapes[0]).toMatchObject({
+      type: 'text',
+      x: 500,
+      y: 500,
+      text: 'hello',
+      fontSize: 20,
+      textAlign: 'center',
+      autoSize: true,
+      strokeColor: '#123456',
+      width: 50,
+    });
+  });
+
+  it('reports when there is nothing to paste', () => {
+    const scene = createScene();
+    expect(pasteContent(scene, { shapes: [], image: null, text: ' \n' }, options(null))).toBe(false);
+    expect(scene.getState().canUndo).toBe(false);
+  });
+});
@@ -0,0 +1,85 @@
+// src/utils/paste.ts
+//
+// Pasting into a scene: shapes copied from the app, an image file or plain text, whichever the
+// clipboard (or a drop) carried first. Pasted shapes become the selection.
+import type { Shape, ShapeStyle, TextAlign } from '../types/Shapes';
+import type { ClipboardContent } from './clipboard';
+import { PASTE_OFFSET, cloneShapes, newShapeId } from './clipboard';
+import { addFile } from './files';
+import { getCommonBounds } from './geometry';
+import { loadImageSize, readAsDataUrl } from './image';
+import type { Scene } from './scene';
+import { pickStyleFor } from './style';
+import { layoutText } from './text';
+
+type Point = { x: number; y: number };
+
+export interface PasteOptions {
+  // Where to paste; without one, copied shapes land just beside their originals
+  point: Point | null;
+  // Where images and text go without a point, e.g. the middle of the view
+  center: Point;
+  style: ShapeStyle;
+  text: { fontSize: number; textAlign: TextAlign };
+}
+
+// Decode the image, store its data and add it centered on the point. Files the browser can't
+// decode are ignored.
+const pasteImage = async (scene: Scene, file: Blob, point: Point, style: ShapeStyle) => {
+  try {
+    const src = await readAsDataUrl(file);
+    const { width, height } = await loadImageSize(src);
+    // Shapes only keep the id; the same image pasted again reuses the stored data
+    const fileId = addFile(src);
+    scene.addShapes([{
+      id: newShapeId(),
+      type: 'image',
+      x: point.x - width / 2,
+      y: point.y - height / 2,
+      width,
+      height,
+      fileId,
+      ...pickStyleFor('image', style),
+    }]);
+  } catch {
+    // Not an image the browser can decode
+  }
+};
+
+// Returns false when there was nothing to paste. Images are added once they've been decoded.
+export const pasteContent = (scene: Scene, content: ClipboardContent, options: PasteOptions): boolean => {
+  const { point, style } = options;
+  const at = point ?? options.center;
+
+  if (content.shapes && content.shapes.length > 0) {
+    // Center the copies on the point, or place them just beside the originals
+    const bounds = getCommonBounds(content.shapes);
+    const dx = point ? point.x - (bounds.minX + bounds.maxX) / 2 : PASTE_OFFSET;
+    const dy = point ? point.y - (bounds.minY + bounds.maxY) / 2 : PASTE_OFFSET;
+    scene.addShapes(cloneShapes(content.shapes, dx, dy));
+    return true;
+  }
+
+  if (content.image) {
+    pasteImage(scene, content.image, at, style);
+    return true;
+  }
+
+  const text = content.text.replace(/\s+$/, '');
+  if (!text) return false;
+
+  const shape: Shape = {
+    id: newShapeId(),
+    type: 'text',
+    x: at.x,
+    y: at.y,
+    text,
+    fontSize: options.text.fontSize,
+    textAlign: options.text.textAlign,
+    autoSize: true,
+    ...pickStyleFor('text', style),
+  };
+  const layout = layoutText(shape);
+  scene.addShapes([{ ...shape, width: layout.width, height: layout.height }]);
+  return true;
+};
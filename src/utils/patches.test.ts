@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { rect } from '../test/fixtures';
+import { applyPatches, diffShapes, getPatchWeight, invertPatches } from './patches';
+
+const before = [rect('a'), rect('b', 200), rect('c', 400)];
+
+describe('diffShapes', () => {
+  it('stores only the fields that changed, and skips shapes kept by reference', () => {
+    const moved = { ...before[1], x: 250 };
+    expect(diffShapes(before, [before[0], moved, before[2]])).toEqual([
+      { type: 'update', id: 'b', before: { x: 200 }, after: { x: 250 } },
+    ]);
+  });
+
+  it('treats copied paths and bindings with the same contents as unchanged', () => {
+    const pen = { id: 'p', type: 'pen' as const, x: 0, y: 0, path: [{ x: 0, y: 0 }, { x: 5, y: 5 }] };
+    const copy = { ...pen, path: pen.path.map((point) => ({ ...point })) };
+    expect(diffShapes([pen], [copy])).toEqual([]);
+  });
+
+  it('records removed fields so applying the patch drops them again', () => {
+    const filled = { ...before[0], fillColor: '#ff0000' };
+    const patches = diffShapes([filled], [before[0]]);
+    expect(patches).toEqual([{ type: 'update', id: 'a', before: { fillColor: '#ff0000' }, after: { fillColor: undefined } }]);
+    expect(applyPatches([filled], patches)).toEqual([before[0]]);
+  });
+
+  it('turns one list into the other with additions, removals and reordering', () => {
+    const after = [before[2], rect('d', 600), before[0]];
+    const patches = diffShapes(before, after);
+    expect(patches.map((patch) => patch.type)).toEqual(['remove', 'add', 'reorder']);
+    expect(applyPatches(before, patches)).toEqual(after);
+  });
+});
+
+describe('invertPatches', () => {
+  it('undoes every kind of patch', () => {
+    const after = [{ ...before[2], y: 50 }, before[0], rect('d', 600)];
+    const patches = diffShapes(before, after);
+    expect(applyPatches(applyPatches(before, patches), invertPatches(patches))).toEqual(before);
+  });
+});
+
+describe('getPatchWeight', () => {
+  it('counts path points so long strokes weigh more than plain shapes', () => {
+    const pen = { id: 'p', type: 'pen' as const, x: 0, y: 0, path: [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }] };
+    expect(getPatchWeight({ type: 'add', index: 0, shape: rect('a') })).toBe(1);
+    expect(getPatchWeight({ type: 'add', index: 0, shape: pen })).toBe(4);
+    expect(getPatchWeight({ type: 'reorder', before: ['a', 'b'], after: ['b', 'a'] })).toBe(2);
+  });
+});
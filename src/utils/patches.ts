@@ -0,0 +1,117 @@
+// src/utils/patches.ts
+//
+// Diffing and applying shape patches for the undo history.
+import type { ShapePatch } from '../types/History';
+import type { Shape } from '../types/Shapes';
+import { applyOrder } from './operations';
+
+// Array and object fields (paths, bindings) count as unchanged when their contents match, e.g.
+// for shapes that came back as copies from the collaboration relay
+const isSameValue = (a: unknown, b: unknown) =>
+  a === b ||
+  (typeof a === 'object' && typeof b === 'object' && a !== null && b !== null && JSON.stringify(a) === JSON.stringify(b));
+
+// Patches that turn `before` into `after`. Shapes are immutable, so unchanged shapes are
+// skipped by reference and only the fields that differ are stored for the rest.
+export const diffShapes = (before: Shape[], after: Shape[]): ShapePatch[] => {
+  if (before === after) return [];
+
+  const patches: ShapePatch[] = [];
+  const beforeById = new Map(before.map((shape) => [shape.id, shape]));
+  const afterIds = new Set(after.map((shape) => shape.id));
+
+  // Removals from the end, so the recorded indexes stay valid when they're re-added in reverse
+  for (let i = before.length - 1; i >= 0; i--) {
+    if (!afterIds.has(before[i].id)) {
+      patches.push({ type: 'remove', index: i, shape: before[i] });
+    }
+  }
+
+  after.forEach((shape) => {
+    const previous = beforeById.get(shape.id);
+    if (!previous || previous === shape) return;
+
+    const changed: Partial<Shape> = {};
+    const original: Partial<Shape> = {};
+    const keys = new Set([...Object.keys(previous), ...Object.keys(shape)] as (keyof Shape)[]);
+    keys.forEach((key) => {
+      if (!isSameValue(previous[key], shape[key])) {
+        (changed as Record<string, unknown>)[key] = shape[key];
+        (original as Record<string, unknown>)[key] = previous[key];
+      }
+    });
+    if (Object.keys(changed).length > 0) {
+      patches.push({ type: 'update', id: shape.id, before: original, after: changed });
+    }
+  });
+
+  // Insert new shapes at their final index, then fix up the order if anything else moved
+  const order = before.filter((shape) => afterIds.has(shape.id)).map((shape) => shape.id);
+  after.forEach((shape, index) => {
+    if (beforeById.has(shape.id)) return;
+    const at = Math.min(index, order.length);
+    order.splice(at, 0, shape.id);
+    patches.push({ type: 'add', index: at, shape });
+  });
+
+  const afterOrder = after.map((shape) => shape.id);
+  if (order.some((id, index) => id !== afterOrder[index])) {
+    patches.push({ type: 'reorder', before: order, after: afterOrder });
+  }
+
+  return patches;
+};
+
+export const invertPatches = (patches: ShapePatch[]): ShapePatch[] =>
+  [...patches].reverse().map((patch): ShapePatch => {
+    switch (patch.type) {
+      case 'add':
+        return { ...patch, type: 'remove' };
+      case 'remove':
+        return { ...patch, type: 'add' };
+      case 'update':
+        return { ...patch, before: patch.after, after: patch.before };
+      case 'reorder':
+        return { ...patch, before: patch.after, after: patch.before };
+    }
+  });
+
+export const applyPatches = (shapes: Shape[], patches: ShapePatch[]): Shape[] =>
+  patches.reduce((current, patch) => {
+    switch (patch.type) {
+      case 'add': {
+        const next = [...current];
+        next.splice(patch.index, 0, patch.shape);
+        return next;
+      }
+      case 'remove':
+        return current.filter((shape) => shape.id !== patch.shape.id);
+      case 'update':
+        return current.map((shape) => {
+          if (shape.id !== patch.id) return shape;
+          const updated: Record<string, unknown> = { ...shape, ...patch.after };
+          // Fields that didn't exist on the other side are removed again
+          Object.keys(patch.after).forEach((key) => {
+            if (updated[key] === undefined) delete updated[key];
+          });
+          return updated as unknown as Shape;
+        });
+      case 'reorder':
+        return applyOrder(current, patch.after);
+    }
+  }, shapes);
+
+// Rough memory cost of a patch: one unit per shape or field plus one per stored path point
+const getShapeWeight = (shape: Partial<Shape>) => 1 + (shape.path ? shape.path.length : 0);
+
+export const getPatchWeight = (patch: ShapePatch): number => {
+  switch (patch.type) {
+    case 'add':
+    case 'remove':
+      return getShapeWeight(patch.shape);
+    case 'update':
+      return getShapeWeight(patch.before) + getShapeWeight(patch.after);
+    case 'reorder':
+      return patch.after.length;
+  }
+};
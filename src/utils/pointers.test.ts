@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createPointerTracker } from './pointers';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createPointerTracker', () => {
+  it('gives the point between two fingers relative to the canvas, and how far apart they are', () => {
+    const pointers = createPointerTracker();
+    pointers.press(1, { x: 10, y: 10 });
+    pointers.press(2, { x: 40, y: 50 });
+    expect(pointers.getPinch({ x: 5, y: 5 })).toEqual({ x: 20, y: 25, distance: 50 });
+
+    pointers.move(2, { x: 10, y: 70 });
+    pointers.move(3, { x: 0, y: 0 });
+    expect(pointers.getPinch({ x: 0, y: 0 }).distance).toBe(60);
+    pointers.release(1);
+    expect(pointers.count()).toBe(1);
+  });
+
+  it('fires a long press when the finger is held still, and not once it moves away', () => {
+    vi.useFakeTimers();
+    const pointers = createPointerTracker();
+    const onLongPress = vi.fn();
+
+    pointers.startLongPress(1, { x: 0, y: 0 }, onLongPress);
+    pointers.move(1, { x: 5, y: 5 });
+    vi.advanceTimersByTime(500);
+    expect(onLongPress).toHaveBeenCalledTimes(1);
+
+    pointers.startLongPress(1, { x: 0, y: 0 }, onLongPress);
+    pointers.move(1, { x: 20, y: 0 });
+    vi.advanceTimersByTime(500);
+    expect(onLongPress).toHaveBeenCalledTimes(1);
+  });
+
+  it('counts two quick taps as a double tap', () => {
+    const pointers = createPointerTracker();
+    expect(pointers.isDoubleTap(1000)).toBe(false);
+    expect(pointers.isDoubleTap(1300)).toBe(true);
+    expect(pointers.isDoubleTap(2000)).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+// src/utils/pointers.ts
+//
+// The pointers pressed on the canvas: where each one is for pinch-zoom, a finger held still that
+// opens the context menu, and double taps. Positions are client coordinates.
+import type { Pinch } from './viewport';
+
+type Point = { x: number; y: number };
+
+// Holding a finger still this long opens the context menu; moving further cancels it
+const LONG_PRESS_DELAY = 500;
+const LONG_PRESS_TOLERANCE = 10;
+// Taps closer together than this make a double tap
+const DOUBLE_TAP_DELAY = 500;
+
+export interface PointerTracker {
+  press: (id: number, point: Point) => void;
+  // Follow a pressed pointer; moving the long-pressed one too far cancels the long press
+  move: (id: number, point: Point) => void;
+  release: (id: number) => void;
+  count: () => number;
+  // The first two pressed pointers, relative to `origin` (e.g. the canvas corner)
+  getPinch: (origin: Point) => Pinch;
+  // Call `onLongPress` once the pointer has been held still long enough
+  startLongPress: (id: number, point: Point, onLongPress: () => void) => void;
+  cancelLongPress: () => void;
+  // Whether a tap at `time` (in milliseconds) follows the last one closely enough to be a double tap
+  isDoubleTap: (time: number) => boolean;
+}
+
+export const createPointerTracker = (): PointerTracker => {
+  const pressed = new Map<number, Point>();
+  let longPress: { id: number; point: Point; timer: ReturnType<typeof setTimeout> } | null = null;
+  let lastTap = 0;
+
+  const cancelLongPress = () => {
+    if (longPress) clearTimeout(longPress.timer);
+    longPress = null;
+  };
+
+  const move = (id: number, point: Point) => {
+    if (pressed.has(id)) pressed.set(id, point);
+    if (longPress?.id === id && Math.hypot(point.x - longPress.point.x, point.y - longPress.point.y) > LONG_PRESS_TOLERANCE) {
+      cancelLongPress();
+    }
+  };
+
+  const getPinch = (origin: Point): Pinch => {
+    const [a, b] = Array.from(pressed.values());
+    return {
+      x: (a.x + b.x) / 2 - origin.x,
+      y: (a.y + b.y) / 2 - origin.y,
+      distance: Math.hypot(a.x - b.x, a.y - b.y),
+    };
+  };
+
+  const startLongPress = (id: number, point: Point, onLongPress: () => void) => {
+    cancelLongPress();
+    const timer = setTimeout(() => {
+      longPress = null;
+      onLongPress();
+    }, LONG_PRESS_DELAY);
+    longPress = { id, point, timer };
+  };
+
+  // A double tap doesn't count as the first tap of the next one
+  const isDoubleTap = (time: number) => {
+    const gap = time - lastTap;
+    if (gap > 0 && gap < DOUBLE_TAP_DELAY) return true;
+    lastTap = time;
+    return false;
+  };
+
+  return {
+    press: (id, point) => pressed.set(id, point),
+    move,
+    release: (id) => pressed.delete(id),
+    count: () => pressed.size,
+    getPinch,
+    startLongPress,
+    cancelLongPress,
+    isDoubleTap,
+  };
+};
@@ -0,0 +1,298 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Shape } from '../types/Shapes';
+import { drawPng, exportToPng, getExportBounds, getPngSize } from './exportPng';
+import { addFile } from './files';
+import type { Overlay, StaticLayer } from './renderer';
+import {
+  createStaticLayerCache,
+  drawBackground,
+  drawGrid,
+  drawOverlay,
+  drawShape,
+  getStaticLayerSize,
+  getVisibleArea,
+} from './renderer';
+
+interface Call {
+  name: string;
+  args: unknown[];
+}
+
+// Stands in for a 2D context: method calls and property writes are recorded in order, and
+// properties read back whatever was last written to them
+const createRecordingContext = () => {
+  const calls: Call[] = [];
+  const properties: Record<string | symbol, unknown> = {};
+  const context = new Proxy(properties, {
+    get: (target, name) =>
+      name in target
+        ? target[name]
+        : (...args: unknown[]) => {
+            calls.push({ name: String(name), args });
+          },
+    set: (target, name, value) => {
+      target[name] = value;
+      calls.push({ name: `${String(name)}=`, args: [value] });
+      return true;
+    },
+  }) as unknown as CanvasRenderingContext2D;
+  // Hand-drawn shapes are drawn through roughjs, which asks the canvas for its context
+  properties.canvas = { getContext: () => context };
+
+  const named = (name: string) => calls.filter((call) => call.name === name);
+  return { context, calls, named };
+};
+
+const rect: Shape = { id: 'a', type: 'rectangle', x: 10, y: 20, width: 100, height: 50, seed: 1 };
+const options = { renderMode: 'clean', arrowHeadLength: 15 } as const;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const emptyOverlay: Overlay = {
+  zoom: 1,
+  touch: false,
+  selectedShapes: [],
+  handles: {},
+  editingGroup: [],
+  collaborators: [],
+  bindTarget: null,
+  snapGuides: [],
+  marquee: null,
+  eraserTrail: null,
+  eraserRadius: 8,
+};
+
+describe('drawShape', () => {
+  it('traces and strokes a shape in its style, restoring the context afterwards', () => {
+    const { context, named } = createRecordingContext();
+    drawShape(context, { ...rect, strokeColor: '#ff0000', fillColor: '#00ff00' }, options);
+
+    expect(named('rect')[0].args).toEqual([10, 20, 100, 50]);
+    expect(named('strokeStyle=')[0].args).toEqual(['#ff0000']);
+    expect(named('fillStyle=').map((call) => call.args[0])).toContain('#00ff00');
+    expect(named('fill')).toHaveLength(1);
+    expect(named('stroke')).toHaveLength(1);
+    expect(named('save')).toHaveLength(named('restore').length);
+  });
+
+  it('fades shapes that are about to be erased', () => {
+    const { context, named } = createRecordingContext();
+    drawShape(context, { ...rect, opacity: 0.5 }, { ...options, fadedIds: ['a'] });
+    expect(named('globalAlpha=')[0].args[0]).toBeCloseTo(0.15);
+  });
+
+  it('draws the same hand-drawn strokes on every redraw', () => {
+    const first = createRecordingContext();
+    const second = createRecordingContext();
+    drawShape(first.context, rect, { ...options, renderMode: 'sketchy' });
+    drawShape(second.context, rect, { ...options, renderMode: 'sketchy' });
+
+    expect(first.named('rect')).toHaveLength(0);
+    expect(first.named('bezierCurveTo').length).toBeGreaterThan(0);
+    expect(second.calls).toEqual(first.calls);
+  });
+
+  it('draws images and text from the resolver and measurer it is given', () => {
+    const { context, named } = createRecordingContext();
+    const source = { width: 400, height: 200 } as unknown as CanvasImageSource;
+    const drawOptions = {
+      ...options,
+      resolveImage: () => ({ source, width: 400, height: 200 }),
+      measureText: (text: string) => text.length * 10,
+    };
+    const image: Shape = { id: 'i', type: 'image', x: 0, y: 0, width: 100, height: 50, crop: { x: 0.5, y: 0, width: 0.5, height: 1 } };
+    const text: Shape = { id: 't', type: 'text', x: 0, y: 0, width: 50, autoSize: false, text: 'one two three', textAlign: 'right' };
+    drawShape(context, image, drawOptions);
+    drawShape(context, text, drawOptions);
+
+    expect(named('drawImage')[0].args).toEqual([source, 200, 0, 200, 200, 0, 0, 100, 50]);
+    expect(named('fillText').map((call) => call.args)).toEqual([
+      ['one', 50, 0],
+      ['two', 50, 25],
+      ['three', 50, 50],
+    ]);
+  });
+
+  it('draws a placeholder while an image has not decoded', () => {
+    const { context, named } = createRecordingContext();
+    const image: Shape = { id: 'i', type: 'image', x: 5, y: 5, width: 100, height: 50 };
+    drawShape(context, image, { ...options, resolveImage: () => null });
+    expect(named('fillRect')[0].args).toEqual([5, 5, 100, 50]);
+    expect(named('drawImage')).toHaveLength(0);
+  });
+});
+
+describe('drawGrid', () => {
+  it('draws a line every grid step across the area', () => {
+    const { context, named } = createRecordingContext();
+    drawGrid(context, { minX: 0, minY: 0, maxX: 100, maxY: 100 }, 1, 20);
+    expect(named('stroke')).toHaveLength(12);
+  });
+
+  it('thins the grid out when zoomed out', () => {
+    const { context, named } = createRecordingContext();
+    drawGrid(context, { minX: 0, minY: 0, maxX: 100, maxY: 100 }, 0.1, 20);
+    expect(named('stroke')).toHaveLength(4);
+  });
+});
+
+describe('drawBackground', () => {
+  it('fills the canvas and leaves the context in scene coordinates', () => {
+    const { context, named } = createRecordingContext();
+    const viewport = { offsetX: 10, offsetY: 20, zoom: 2 };
+    drawBackground(context, { viewport, width: 200, height: 100, background: '#fafafa', gridSize: null });
+
+    expect(named('fillStyle=')[0].args).toEqual(['#fafafa']);
+    expect(named('fillRect')[0].args).toEqual([0, 0, 200, 100]);
+    expect(named('setTransform')[0].args).toEqual([2, 0, 0, 2, 10, 20]);
+    expect(named('stroke')).toHaveLength(0);
+
+    drawBackground(context, { viewport, width: 200, height: 100, background: '#fafafa', gridSize: 20 });
+    expect(named('stroke').length).toBeGreaterThan(0);
+  });
+});
+
+describe('getStaticLayerSize', () => {
+  const shapes: Shape[] = [rect, { ...rect, id: 'b' }, { ...rect, id: 'c' }];
+  const cached = { key: 'k', shapes } as StaticLayer;
+
+  it('keeps the cached layer while nothing it holds changed', () => {
+    expect(getStaticLayerSize(cached, 'k', shapes, false)).toBeNull();
+    expect(getStaticLayerSize(cached, 'other', shapes, false)).toBe(3);
+    expect(getStaticLayerSize(null, 'k', shapes, false)).toBe(3);
+  });
+
+  it('stops below the first changed shape while shapes are being moved', () => {
+    const moved = [rect, { ...rect, id: 'b', x: 50 }, shapes[2]];
+    expect(getStaticLayerSize(cached, 'k', moved, true)).toBe(1);
+    expect(getStaticLayerSize({ ...cached, shapes: [rect] }, 'k', moved, true)).toBeNull();
+    expect(getStaticLayerSize({ ...cached, shapes: [rect] }, 'k', moved, false)).toBe(3);
+  });
+});
+
+describe('createStaticLayerCache', () => {
+  const view = { viewport: { offsetX: 0, offsetY: 0, zoom: 1 }, width: 200, height: 100, background: '#fff', gridSize: null };
+  const shapes: Shape[] = [rect, { ...rect, id: 'b' }];
+
+  const createCache = () => {
+    const recording = createRecordingContext();
+    const createCanvas = vi.fn(() => ({ width: 0, height: 0, getContext: () => recording.context }) as unknown as HTMLCanvasElement);
+    return { ...recording, createCanvas, cache: createStaticLayerCache(createCanvas) };
+  };
+
+  it('draws the layer once and reuses it while nothing on it changed', () => {
+    const { cache, createCanvas, named } = createCache();
+    const layer = cache.get(shapes, view, options, false);
+    expect(layer.canvas).toMatchObject({ width: 200, height: 100 });
+    expect(named('rect')).toHaveLength(2);
+
+    expect(cache.get(shapes, view, options, false)).toBe(layer);
+    expect(named('rect')).toHaveLength(2);
+    cache.get(shapes, { ...view, background: '#000' }, options, false);
+    expect(named('rect')).toHaveLength(4);
+    expect(createCanvas).toHaveBeenCalledTimes(1);
+  });
+
+  it('draws everything again once invalidated', () => {
+    const { cache, named } = createCache();
+    cache.get(shapes, view, options, false);
+    cache.invalidate();
+    cache.get(shapes, view, options, false);
+    expect(named('rect')).toHaveLength(4);
+  });
+});
+
+describe('drawOverlay', () => {
+  it('draws nothing when nothing is selected or going on', () => {
+    const { context, calls } = createRecordingContext();
+    drawOverlay(context, emptyOverlay);
+    expect(calls).toEqual([]);
+  });
+
+  it('draws handles for the selection and the marquee', () => {
+    const { context, named } = createRecordingContext();
+    drawOverlay(context, {
+      ...emptyOverlay,
+      selectedShapes: [rect],
+      handles: { nw: { x: 10, y: 20 }, se: { x: 110, y: 70 } },
+      marquee: { minX: 0, minY: 0, maxX: 200, maxY: 200 },
+    });
+    expect(named('stroke').length + named('strokeRect').length).toBeGreaterThan(2);
+    expect(named('save')).toHaveLength(named('restore').length);
+  });
+});
+
+describe('getVisibleArea', () => {
+  it('gives the scene area a panned and zoomed canvas shows', () => {
+    expect(getVisibleArea({ offsetX: 100, offsetY: 50, zoom: 2 }, 800, 600)).toEqual({
+      minX: -50,
+      minY: -25,
+      maxX: 350,
+      maxY: 275,
+    });
+  });
+});
+
+describe('PNG export', () => {
+  it('frames the shapes with room for their strokes', () => {
+    expect(getExportBounds([{ ...rect, strokeWidth: 4 }])).toEqual({ minX: -10, minY: 0, maxX: 130, maxY: 90 });
+  });
+
+  it('lowers the scale of images too large for the browser', () => {
+    expect(getPngSize({ minX: 0, minY: 0, maxX: 100, maxY: 50 }, 2)).toEqual({ width: 200, height: 100, scale: 2 });
+    expect(getPngSize({ minX: 0, minY: 0, maxX: 20000, maxY: 100 }, 2).width).toBe(16384);
+  });
+
+  it('fills the background and draws the shapes at the export scale', () => {
+    const { context, named } = createRecordingContext();
+    drawPng(context, [rect], {
+      bounds: { minX: -10, minY: 10, maxX: 190, maxY: 110 },
+      scale: 2,
+      background: '#ffffff',
+      renderMode: 'clean',
+      arrowHeadLength: 15,
+    });
+    expect(named('fillRect')[0].args).toEqual([0, 0, 400, 200]);
+    expect(named('setTransform')[0].args).toEqual([2, 0, 0, 2, 20, -20]);
+    expect(named('rect')[0].args).toEqual([10, 20, 100, 50]);
+  });
+
+  it('waits for images that were never drawn on screen to decode', async () => {
+    // Decoding finishes only when the test says so
+    let finishDecoding = () => {};
+    class DecodingImage {
+      src = '';
+      complete = false;
+      naturalWidth = 0;
+      naturalHeight = 0;
+      decode() {
+        return new Promise<void>((resolve) => {
+          finishDecoding = () => {
+            Object.assign(this, { complete: true, naturalWidth: 40, naturalHeight: 20 });
+            resolve();
+          };
+        });
+      }
+      addEventListener() {}
+    }
+    const { context, named } = createRecordingContext();
+    vi.stubGlobal('Image', DecodingImage);
+    vi.stubGlobal('document', {
+      createElement: () => ({ getContext: () => context, toBlob: (done: (blob: Blob) => void) => done(new Blob()) }),
+    });
+
+    const fileId = addFile('data:image/png;base64,ZXhwb3J0');
+    const image: Shape = { id: 'i', type: 'image', x: 0, y: 0, width: 40, height: 20, fileId };
+    const exported = exportToPng([image], { bounds: getExportBounds([image]), scale: 1, ...options });
+    await Promise.resolve();
+    expect(named('drawImage')).toHaveLength(0);
+
+    finishDecoding();
+    await expect(exported).resolves.toBeInstanceOf(Blob);
+    expect(named('drawImage')).toHaveLength(1);
+    // No gray placeholder box
+    expect(named('fillRect')).toHaveLength(0);
+  });
+});
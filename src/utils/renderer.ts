@@ -0,0 +1,592 @@
+// src/utils/renderer.ts
+//
+// Drawing the scene onto a 2D canvas context: shapes, the background and grid, and the selection
+// overlay drawn over them. Everything here works from what it's given and the context it draws on, so the
+// editor, PNG export and anything embedding the scene draw the same way. Only images and text look
+// further, at the loaded files and a measuring canvas, unless the options say how to get them.
+import type { Bounds, RenderMode, Shape, TransformHandle } from '../types/Shapes';
+import type { Viewport } from '../types/Viewport';
+import type { SnapGuide } from './snapping';
+import type { MeasureText } from './text';
+import { getArrowheadParts } from './arrowheads';
+import { parseConnectorHandle } from './connectors';
+import { getImageCrop, getUncroppedBounds } from './crop';
+import { getFile } from './files';
+import { getCenterlinePathData, getStrokePathData } from './freehand';
+import {
+  getCommonBounds,
+  getConnectorSegments,
+  getConnectorVertices,
+  getShapeAngle,
+  getShapeCenter,
+  getUnrotatedBounds,
+  isLinear,
+} from './geometry';
+import { getImage } from './image';
+import { getOutlinePoints, isPolygonShape } from './outlines';
+import { drawRoughShape, isSketched } from './rough';
+import { getLineDash, getShapeStyle, hasArrowheads, hasFill, isTransparent } from './style';
+import { DEFAULT_FONT_SIZE, getFontString, layoutText } from './text';
+
+type Point = { x: number; y: number };
+
+const GUIDE_COLOR = '#e535ab';
+// Own selection, handles and marquee; collaborators' selections use their own colors
+const SELECTION_COLOR = '#4285f4';
+const LOCKED_COLOR = '#9aa0a6';
+// How much faded shapes (e.g. about to be erased) and the parts of an image outside its crop show
+const FADED_OPACITY = 0.3;
+const CROPPED_AREA_OPACITY = 0.3;
+
+export interface ShapeRenderOptions {
+  renderMode: RenderMode;
+  arrowHeadLength: number;
+  fadedIds?: string[];
+  // Image being cropped, drawn with the parts outside its crop showing faintly
+  croppingId?: string | null;
+  // Called when an image that wasn't decoded yet is ready, so the scene can be drawn again
+  onImageLoad?: () => void;
+  // The picture for an image shape, or null to draw a placeholder. Read from the loaded files
+  // when left out.
+  resolveImage?: (shape: Shape) => ResolvedImage | null;
+  // Text widths for laying out text shapes. Measured on a canvas when left out.
+  measureText?: MeasureText;
+}
+
+// A decoded picture and its natural size in pixels
+export interface ResolvedImage {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+}
+
+// What goes over the shapes while editing; sizes are in screen pixels
+export interface Overlay {
+  zoom: number;
+  touch: boolean; // thicker lines and bigger handles for fingers
+  selectedShapes: Shape[];
+  handles: Partial<Record<TransformHandle, Point>>;
+  editingGroup: Shape[]; // members of the group being edited, boxed faintly
+  collaborators: { shapes: Shape[]; color: string; idle: boolean }[];
+  bindTarget: Shape | null; // shape a dragged line or arrow end would attach to
+  snapGuides: SnapGuide[];
+  marquee: Bounds | null;
+  eraserTrail: Point[] | null;
+  eraserRadius: number;
+}
+
+// Part of the scene a canvas of the given size shows
+export const getVisibleArea = (viewport: Viewport, width: number, height: number): Bounds => ({
+  minX: -viewport.offsetX / viewport.zoom,
+  minY: -viewport.offsetY / viewport.zoom,
+  maxX: (width - viewport.offsetX) / viewport.zoom,
+  maxY: (height - viewport.offsetY) / viewport.zoom,
+});
+
+// Turn the context so a rotated shape can be drawn in its unrotated frame
+const rotateContext = (context: CanvasRenderingContext2D, shape: Shape) => {
+  const angle = getShapeAngle(shape);
+  if (!angle) return;
+  const center = getShapeCenter(shape);
+  context.translate(center.x, center.y);
+  context.rotate(angle);
+  context.translate(-center.x, -center.y);
+};
+
+// Path of a circle, ellipse, diamond, triangle, polygon or star, in its unrotated frame
+export const traceOutline = (context: CanvasRenderingContext2D, shape: Shape) => {
+  if (shape.type === 'circle') {
+    context.arc(shape.x, shape.y, shape.radius || 0, 0, 2 * Math.PI);
+  } else if (shape.type === 'ellipse') {
+    const bounds = getUnrotatedBounds(shape);
+    context.ellipse(
+      (bounds.minX + bounds.maxX) / 2,
+      (bounds.minY + bounds.maxY) / 2,
+      (bounds.maxX - bounds.minX) / 2,
+      (bounds.maxY - bounds.minY) / 2,
+      0,
+      0,
+      2 * Math.PI
+    );
+  } else {
+    getOutlinePoints(shape).forEach((point, index) =>
+      index === 0 ? context.moveTo(point.x, point.y) : context.lineTo(point.x, point.y)
+    );
+    context.closePath();
+  }
+};
+
+const traceConnector = (context: CanvasRenderingContext2D, shape: Shape) => {
+  const segments = getConnectorSegments(shape);
+  context.moveTo(segments[0].from.x, segments[0].from.y);
+  segments.forEach(({ to, controls }) => {
+    if (controls) {
+      context.bezierCurveTo(controls[0].x, controls[0].y, controls[1].x, controls[1].y, to.x, to.y);
+    } else {
+      context.lineTo(to.x, to.y);
+    }
+  });
+};
+
+// Arrowheads are solid and filled with the stroke color, whatever the line's dash
+const drawArrowheads = (context: CanvasRenderingContext2D, shape: Shape, color: string, length: number) => {
+  context.setLineDash([]);
+  context.fillStyle = color;
+  getArrowheadParts(shape, length).forEach((part) => {
+    context.beginPath();
+    switch (part.kind) {
+      case 'polygon':
+        part.points.forEach((point, index) =>
+          index === 0 ? context.moveTo(point.x, point.y) : context.lineTo(point.x, point.y)
+        );
+        context.closePath();
+        context.fill();
+        break;
+      case 'line':
+        context.moveTo(part.from.x, part.from.y);
+        context.lineTo(part.to.x, part.to.y);
+        break;
+      case 'dot':
+        context.arc(part.center.x, part.center.y, part.radius, 0, 2 * Math.PI);
+        context.fill();
+        break;
+    }
+    context.stroke();
+  });
+};
+
+// The image for a shape from the loaded files, once it has decoded
+const resolveFileImage = (shape: Shape, onLoad: () => void): ResolvedImage | null => {
+  const file = getFile(shape.fileId);
+  const image = file ? getImage(file.dataUrl, onLoad) : null;
+  return image && { source: image, width: image.naturalWidth, height: image.naturalHeight };
+};
+
+const drawImage = (context: CanvasRenderingContext2D, shape: Shape, options: ShapeRenderOptions) => {
+  const image = options.resolveImage
+    ? options.resolveImage(shape)
+    : resolveFileImage(shape, () => options.onImageLoad?.());
+  if (!image) {
+    // Placeholder while the image decodes
+    context.fillStyle = '#e8eaed';
+    context.fillRect(shape.x, shape.y, shape.width || 0, shape.height || 0);
+    return;
+  }
+
+  if (shape.id === options.croppingId) {
+    // What the crop leaves out shows faintly around it
+    const full = getUncroppedBounds(shape);
+    context.save();
+    context.globalAlpha *= CROPPED_AREA_OPACITY;
+    context.drawImage(image.source, full.minX, full.minY, full.maxX - full.minX, full.maxY - full.minY);
+    context.restore();
+  }
+  const crop = getImageCrop(shape);
+  context.drawImage(
+    image.source,
+    crop.x * image.width,
+    crop.y * image.height,
+    crop.width * image.width,
+    crop.height * image.height,
+    shape.x,
+    shape.y,
+    shape.width || 0,
+    shape.height || 0
+  );
+};
+
+const drawText = (context: CanvasRenderingContext2D, shape: Shape, color: string, options: ShapeRenderOptions) => {
+  const layout = layoutText(shape, options.measureText);
+  const align = shape.textAlign || 'left';
+  const textX = align === 'center' ? shape.x + layout.width / 2
+    : align === 'right' ? shape.x + layout.width
+    : shape.x;
+
+  context.fillStyle = color;
+  context.font = getFontString(shape.fontSize || DEFAULT_FONT_SIZE);
+  context.textAlign = align;
+  context.textBaseline = 'top';
+  layout.lines.forEach((line, index) => {
+    context.fillText(line, textX, shape.y + index * layout.lineHeight);
+  });
+};
+
+// Draw one shape in scene coordinates
+export const drawShape = (context: CanvasRenderingContext2D, shape: Shape, options: ShapeRenderOptions) => {
+  const style = getShapeStyle(shape);
+  context.save();
+  rotateContext(context, shape);
+
+  context.globalAlpha = style.opacity * (options.fadedIds?.includes(shape.id) ? FADED_OPACITY : 1);
+  context.strokeStyle = style.strokeColor;
+  context.lineWidth = style.strokeWidth;
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+  context.setLineDash(getLineDash(style.dashStyle, style.strokeWidth));
+
+  // Hand-drawn mode renders everything except text and images through roughjs
+  if (options.renderMode === 'sketchy' && isSketched(shape.type)) {
+    drawRoughShape(context, shape, { arrowHeadLength: options.arrowHeadLength });
+    context.restore();
+    return;
+  }
+
+  context.beginPath();
+
+  switch (shape.type) {
+    case 'rectangle':
+      if (style.cornerRadius > 0) {
+        const radius = Math.min(
+          style.cornerRadius,
+          Math.abs(shape.width || 0) / 2,
+          Math.abs(shape.height || 0) / 2
+        );
+        context.roundRect(shape.x, shape.y, shape.width || 0, shape.height || 0, radius);
+      } else {
+        context.rect(shape.x, shape.y, shape.width || 0, shape.height || 0);
+      }
+      break;
+
+    case 'circle':
+    case 'ellipse':
+    case 'diamond':
+    case 'triangle':
+    case 'polygon':
+    case 'star':
+      traceOutline(context, shape);
+      break;
+
+    case 'line':
+    case 'arrow':
+      traceConnector(context, shape);
+      break;
+
+    case 'pen':
+      // Solid strokes fill an outline that follows the pen pressure, dashed ones stroke the center line
+      if (style.dashStyle === 'solid') {
+        context.fillStyle = style.strokeColor;
+        context.fill(new Path2D(getStrokePathData(shape)));
+      } else {
+        context.stroke(new Path2D(getCenterlinePathData(shape)));
+      }
+      context.restore();
+      return;
+
+    case 'image':
+      drawImage(context, shape, options);
+      break;
+
+    case 'text':
+      if (!shape.text) {
+        // Box being dragged out for a new text area
+        context.setLineDash([4, 4]);
+        context.rect(shape.x, shape.y, shape.width || 0, shape.height || 0);
+        break;
+      }
+      drawText(context, shape, style.strokeColor, options);
+      break;
+  }
+
+  if (hasFill(shape.type) && !isTransparent(style.fillColor)) {
+    context.fillStyle = style.fillColor;
+    context.fill();
+  }
+  context.stroke();
+  if (hasArrowheads(shape.type)) {
+    drawArrowheads(context, shape, style.strokeColor, options.arrowHeadLength);
+  }
+  context.restore();
+};
+
+// Grid lines `gridSize` apart over the given scene area; zoom is the scene-to-pixel scale
+export const drawGrid = (context: CanvasRenderingContext2D, area: Bounds, zoom: number, gridSize: number) => {
+  // Thin out the grid when zoomed out so lines don't merge into a solid fill
+  while (gridSize * zoom < 8) {
+    gridSize *= 5;
+  }
+
+  const { minX: left, minY: top, maxX: right, maxY: bottom } = area;
+
+  context.strokeStyle = '#e5e5e5';
+  context.lineWidth = 0.5 / zoom;
+
+  for (let x = Math.floor(left / gridSize) * gridSize; x <= right; x += gridSize) {
+    context.beginPath();
+    context.moveTo(x, top);
+    context.lineTo(x, bottom);
+    context.stroke();
+  }
+
+  for (let y = Math.floor(top / gridSize) * gridSize; y <= bottom; y += gridSize) {
+    context.beginPath();
+    context.moveTo(left, y);
+    context.lineTo(right, y);
+    context.stroke();
+  }
+};
+
+export interface CanvasView {
+  viewport: Viewport;
+  width: number; // canvas size in pixels
+  height: number;
+  background: string;
+  gridSize: number | null; // null while the grid is hidden
+}
+
+// Fill the canvas with the background and draw the grid over the visible area, leaving the
+// context in scene coordinates for the shapes
+export const drawBackground = (context: CanvasRenderingContext2D, view: CanvasView) => {
+  const { viewport } = view;
+  context.fillStyle = view.background;
+  context.fillRect(0, 0, view.width, view.height);
+  context.setTransform(viewport.zoom, 0, 0, viewport.zoom, viewport.offsetX, viewport.offsetY);
+  if (view.gridSize) {
+    drawGrid(context, getVisibleArea(viewport, view.width, view.height), viewport.zoom, view.gridSize);
+  }
+};
+
+// The background, grid and bottom shapes drawn offscreen once and copied onto the canvas on each
+// redraw, along with what they were drawn with
+export interface StaticLayer {
+  canvas: HTMLCanvasElement;
+  key: string; // everything other than the shapes that changes how the layer looks
+  shapes: Shape[];
+}
+
+// How many of the visible shapes the static layer should be redrawn with, or null when the cached
+// layer can be used as it is. While shapes are moved or transformed the layer stops below the first
+// shape that changed, so each move only draws the shapes from there up again.
+export const getStaticLayerSize = (
+  cached: StaticLayer | null,
+  key: string,
+  shapes: Shape[],
+  isTransforming: boolean
+): number | null => {
+  if (!cached || cached.key !== key) return shapes.length;
+  let unchanged = 0;
+  while (unchanged < cached.shapes.length && cached.shapes[unchanged] === shapes[unchanged]) unchanged++;
+  if (unchanged === cached.shapes.length && (isTransforming || unchanged === shapes.length)) return null;
+  return isTransforming ? unchanged : shapes.length;
+};
+
+export interface StaticLayerCache {
+  // The layer for the visible shapes, drawn again only from where it's out of date
+  get: (shapes: Shape[], view: CanvasView, options: ShapeRenderOptions, isTransforming: boolean) => StaticLayer;
+  // Draw the whole layer again next time, e.g. once an image on it has decoded
+  invalidate: () => void;
+}
+
+// Keeps the static layer between redraws, drawn on an offscreen canvas made by `createCanvas`
+export const createStaticLayerCache = (
+  createCanvas: () => HTMLCanvasElement = () => document.createElement('canvas')
+): StaticLayerCache => {
+  let cached: StaticLayer | null = null;
+
+  const get = (shapes: Shape[], view: CanvasView, options: ShapeRenderOptions, isTransforming: boolean) => {
+    const key = JSON.stringify([view, options.renderMode, options.arrowHeadLength, options.fadedIds, options.croppingId]);
+    const count = getStaticLayerSize(cached, key, shapes, isTransforming);
+    if (cached && count === null) return cached;
+
+    // Resizing the canvas also clears it
+    const canvas = cached?.canvas ?? createCanvas();
+    canvas.width = view.width;
+    canvas.height = view.height;
+    const layer = { canvas, key, shapes: shapes.slice(0, count ?? shapes.length) };
+    cached = layer;
+    const context = canvas.getContext('2d');
+    if (!context) return layer;
+
+    drawBackground(context, view);
+    layer.shapes.forEach((shape) => drawShape(context, shape, options));
+    return layer;
+  };
+
+  const invalidate = () => {
+    if (cached) cached = { ...cached, key: '' };
+  };
+
+  return { get, invalidate };
+};
+
+// Box around the bounds grown by `padding`, in the current stroke style
+const strokePaddedBounds = (context: CanvasRenderingContext2D, bounds: Bounds, padding: number) =>
+  context.strokeRect(
+    bounds.minX - padding,
+    bounds.minY - padding,
+    bounds.maxX - bounds.minX + padding * 2,
+    bounds.maxY - bounds.minY + padding * 2
+  );
+
+// Dashed box around the shape, turned with it; gray for locked shapes unless another color is given
+const drawSelectionOutline = (context: CanvasRenderingContext2D, shape: Shape, overlay: Overlay, color?: string) => {
+  const { zoom, touch } = overlay;
+  context.save();
+  rotateContext(context, shape);
+  context.strokeStyle = color ?? (shape.locked ? LOCKED_COLOR : SELECTION_COLOR);
+  context.lineWidth = (touch ? 2 : 1) / zoom;
+  context.setLineDash([5 / zoom, 5 / zoom]);
+  strokePaddedBounds(context, getUnrotatedBounds(shape), 6 / zoom + getShapeStyle(shape).strokeWidth / 2);
+  context.restore();
+};
+
+// Handles of a single shape, or of the box around several when `shape` is left out
+const drawHandles = (context: CanvasRenderingContext2D, overlay: Overlay, shape?: Shape) => {
+  const { handles, zoom, touch } = overlay;
+  const size = (touch ? 12 : 8) / zoom;
+
+  context.save();
+  context.strokeStyle = SELECTION_COLOR;
+  context.fillStyle = '#ffffff';
+  context.lineWidth = (touch ? 2 : 1) / zoom;
+
+  if (handles.rotation && handles.n) {
+    // Stem from the top edge to the rotation knob
+    context.beginPath();
+    context.moveTo(handles.n.x, handles.n.y);
+    context.lineTo(handles.rotation.x, handles.rotation.y);
+    context.stroke();
+  }
+
+  // Curve control points hang off the end of the segment they belong to
+  const vertices = shape && isLinear(shape.type) ? getConnectorVertices(shape) : [];
+  (Object.keys(handles) as TransformHandle[]).forEach((handle) => {
+    const parsed = parseConnectorHandle(handle);
+    if (!parsed || parsed.kind !== 'control') return;
+    const anchor = vertices[parsed.end === 1 ? parsed.index : parsed.index + 1];
+    const point = handles[handle]!;
+    context.beginPath();
+    context.moveTo(anchor.x, anchor.y);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+  });
+
+  (Object.keys(handles) as TransformHandle[]).forEach((handle) => {
+    const point = handles[handle]!;
+    // Control points are filled to tell them from the points the line passes through
+    context.fillStyle = parseConnectorHandle(handle)?.kind === 'control' ? SELECTION_COLOR : '#ffffff';
+    context.beginPath();
+    if (handle === 'rotation' || (shape && isLinear(shape.type))) {
+      context.arc(point.x, point.y, size / 2 + 1 / zoom, 0, 2 * Math.PI);
+    } else {
+      // Square handles turn with the shape
+      context.save();
+      context.translate(point.x, point.y);
+      context.rotate(shape ? getShapeAngle(shape) : 0);
+      context.rect(-size / 2, -size / 2, size, size);
+      context.restore();
+    }
+    context.fill();
+    context.stroke();
+  });
+  context.restore();
+};
+
+// Outlines and handles for the selection, its shared box, other people's selections, bind
+// targets, smart guides, the marquee being dragged out and the eraser trail, in scene coordinates
+export const drawOverlay = (context: CanvasRenderingContext2D, overlay: Overlay) => {
+  const { zoom, touch, selectedShapes } = overlay;
+  const lineWidth = (touch ? 2 : 1) / zoom;
+
+  // Faint box around the group being edited
+  if (overlay.editingGroup.length > 0) {
+    context.save();
+    context.strokeStyle = LOCKED_COLOR;
+    context.lineWidth = lineWidth;
+    context.setLineDash([4 / zoom, 4 / zoom]);
+    strokePaddedBounds(context, getCommonBounds(overlay.editingGroup), 16 / zoom);
+    context.restore();
+  }
+
+  // What other people have selected, in their colors and faded while they're idle
+  overlay.collaborators.forEach(({ shapes, color, idle }) => {
+    context.save();
+    context.globalAlpha = idle ? FADED_OPACITY : 1;
+    shapes.forEach((shape) => drawSelectionOutline(context, shape, overlay, color));
+    context.restore();
+  });
+
+  if (selectedShapes.length === 1) {
+    // Lines and arrows only get their end point handles, unless they're locked and have none
+    if (!isLinear(selectedShapes[0].type) || selectedShapes[0].locked) {
+      drawSelectionOutline(context, selectedShapes[0], overlay);
+    }
+    drawHandles(context, overlay, selectedShapes[0]);
+  } else {
+    selectedShapes.forEach((shape) => drawSelectionOutline(context, shape, overlay));
+  }
+
+  if (selectedShapes.length > 1) {
+    context.save();
+    context.strokeStyle = SELECTION_COLOR;
+    context.lineWidth = lineWidth;
+    strokePaddedBounds(context, getCommonBounds(selectedShapes), 12 / zoom);
+    context.restore();
+    drawHandles(context, overlay);
+  }
+
+  const { bindTarget } = overlay;
+  if (bindTarget) {
+    context.save();
+    context.strokeStyle = SELECTION_COLOR;
+    context.lineWidth = lineWidth * 2;
+    rotateContext(context, bindTarget);
+    context.beginPath();
+    if (bindTarget.type === 'circle' || bindTarget.type === 'ellipse' || isPolygonShape(bindTarget.type)) {
+      traceOutline(context, bindTarget);
+    } else {
+      const bounds = getUnrotatedBounds(bindTarget);
+      context.rect(bounds.minX, bounds.minY, bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+    }
+    context.stroke();
+    context.restore();
+  }
+
+  // Smart guides: lines through aligned edges and centers, and ticked segments for equal gaps
+  if (overlay.snapGuides.length > 0) {
+    const tick = 4 / zoom;
+    context.save();
+    context.strokeStyle = GUIDE_COLOR;
+    context.lineWidth = lineWidth;
+    context.beginPath();
+    overlay.snapGuides.forEach(({ kind, from, to }) => {
+      context.moveTo(from.x, from.y);
+      context.lineTo(to.x, to.y);
+      if (kind === 'gap') {
+        const vertical = from.x === to.x;
+        [from, to].forEach((end) => {
+          context.moveTo(end.x - (vertical ? tick : 0), end.y - (vertical ? 0 : tick));
+          context.lineTo(end.x + (vertical ? tick : 0), end.y + (vertical ? 0 : tick));
+        });
+      }
+    });
+    context.stroke();
+    context.restore();
+  }
+
+  const { marquee } = overlay;
+  if (marquee) {
+    context.save();
+    context.fillStyle = 'rgba(66, 133, 244, 0.08)';
+    context.strokeStyle = SELECTION_COLOR;
+    context.lineWidth = lineWidth;
+    context.fillRect(marquee.minX, marquee.minY, marquee.maxX - marquee.minX, marquee.maxY - marquee.minY);
+    context.strokeRect(marquee.minX, marquee.minY, marquee.maxX - marquee.minX, marquee.maxY - marquee.minY);
+    context.restore();
+  }
+
+  // Short trail behind the eraser, as wide as the area it erases
+  const { eraserTrail } = overlay;
+  if (eraserTrail) {
+    context.save();
+    context.strokeStyle = 'rgba(95, 99, 104, 0.25)';
+    context.lineWidth = (overlay.eraserRadius * 2) / zoom;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(eraserTrail[0].x, eraserTrail[0].y);
+    // A single position still draws a dot thanks to the round cap
+    eraserTrail.forEach((point) => context.lineTo(point.x, point.y));
+    context.stroke();
+    context.restore();
+  }
+};
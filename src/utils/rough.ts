@@ -0,0 +1,173 @@
+// src/utils/rough.ts
+import rough from 'roughjs';
+import type { Drawable, Options } from 'roughjs/bin/core';
+import type { Shape, ShapeType, SketchOptions } from '../types/Shapes';
+import { getArrowheadParts } from './arrowheads';
+import { getConnectorPathData, getConnectorSegments, getUnrotatedBounds } from './geometry';
+import { getOutlinePoints } from './outlines';
+import { getLineDash, getShapeStyle, hasFill, isTransparent } from './style';
+
+export const DEFAULT_SKETCH_OPTIONS: SketchOptions = {
+  roughness: 1,
+  bowing: 1,
+  fillStyle: 'hachure',
+};
+
+// Text and images look the same in both render modes
+export const isSketched = (type: ShapeType) => type !== 'text' && type !== 'image';
+
+export const getSketchOptions = (shape: Shape): SketchOptions => ({
+  roughness: shape.roughness ?? DEFAULT_SKETCH_OPTIONS.roughness,
+  bowing: shape.bowing ?? DEFAULT_SKETCH_OPTIONS.bowing,
+  fillStyle: shape.fillStyle ?? DEFAULT_SKETCH_OPTIONS.fillStyle,
+});
+
+// The sketch settings that apply to a shape type, as fields to spread onto a shape
+export const pickSketchOptionsFor = (type: ShapeType, options: Partial<SketchOptions>): Partial<Shape> => {
+  const picked: Partial<Shape> = {};
+  if (!isSketched(type)) return picked;
+  if (options.roughness !== undefined) picked.roughness = options.roughness;
+  if (options.bowing !== undefined) picked.bowing = options.bowing;
+  if (hasFill(type) && options.fillStyle !== undefined) picked.fillStyle = options.fillStyle;
+  return picked;
+};
+
+export interface RoughStyle {
+  arrowHeadLength: number;
+}
+
+const generator = rough.generator();
+
+// Drawables are cached per shape object; shapes are replaced (never mutated) on change
+const drawableCache = new WeakMap<Shape, { key: string; drawables: Drawable[] }>();
+
+export const newSeed = () => Math.floor(Math.random() * 2 ** 31) + 1;
+
+// Older shapes have no stored seed - derive a stable one from the id so they don't jitter
+const seedFromId = (id: string) => {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  }
+  return (Math.abs(hash) % 2 ** 31) + 1;
+};
+
+// SVG path for a rectangle with rounded corners, normalized for negative sizes
+const roundedRectPath = (x: number, y: number, width: number, height: number, radius: number) => {
+  const left = Math.min(x, x + width);
+  const top = Math.min(y, y + height);
+  const w = Math.abs(width);
+  const h = Math.abs(height);
+  const r = Math.min(radius, w / 2, h / 2);
+  return `M ${left + r} ${top} L ${left + w - r} ${top} Q ${left + w} ${top} ${left + w} ${top + r} ` +
+    `L ${left + w} ${top + h - r} Q ${left + w} ${top + h} ${left + w - r} ${top + h} ` +
+    `L ${left + r} ${top + h} Q ${left} ${top + h} ${left} ${top + h - r} ` +
+    `L ${left} ${top + r} Q ${left} ${top} ${left + r} ${top}`;
+};
+
+const generateConnector = (shape: Shape, options: Options): Drawable => {
+  const segments = getConnectorSegments(shape);
+  if (segments.some(({ controls }) => controls)) return generator.path(getConnectorPathData(shape), options);
+  const points = [segments[0].from, ...segments.map(({ to }) => to)];
+  if (points.length > 2) return generator.linearPath(points.map((point) => [point.x, point.y]), options);
+  return generator.line(points[0].x, points[0].y, points[1].x, points[1].y, options);
+};
+
+const generateDrawables = (shape: Shape, roughStyle: RoughStyle): Drawable[] => {
+  const style = getShapeStyle(shape);
+  const roughness = shape.roughness ?? 1;
+  const lineDash = getLineDash(style.dashStyle, style.strokeWidth);
+  const options: Options = {
+    seed: shape.seed ?? seedFromId(shape.id),
+    roughness,
+    bowing: shape.bowing ?? 1,
+    stroke: style.strokeColor,
+    strokeWidth: style.strokeWidth,
+    strokeLineDash: lineDash.length ? lineDash : undefined,
+  };
+  const fillOptions: Options = isTransparent(style.fillColor)
+    ? options
+    : {
+        ...options,
+        fill: style.fillColor,
+        fillStyle: shape.fillStyle ?? 'hachure',
+        hachureGap: style.strokeWidth * 4,
+        fillLineDash: [],
+      };
+
+  switch (shape.type) {
+    case 'rectangle':
+      if (style.cornerRadius > 0) {
+        return [generator.path(
+          roundedRectPath(shape.x, shape.y, shape.width || 0, shape.height || 0, style.cornerRadius),
+          fillOptions
+        )];
+      }
+      return [generator.rectangle(shape.x, shape.y, shape.width || 0, shape.height || 0, fillOptions)];
+
+    case 'circle':
+      return [generator.circle(shape.x, shape.y, (shape.radius || 0) * 2, fillOptions)];
+
+    case 'ellipse': {
+      const bounds = getUnrotatedBounds(shape);
+      return [generator.ellipse(
+        (bounds.minX + bounds.maxX) / 2,
+        (bounds.minY + bounds.maxY) / 2,
+        bounds.maxX - bounds.minX,
+        bounds.maxY - bounds.minY,
+        fillOptions
+      )];
+    }
+
+    case 'diamond':
+    case 'triangle':
+    case 'polygon':
+    case 'star':
+      return [generator.polygon(getOutlinePoints(shape).map((point) => [point.x, point.y] as [number, number]), fillOptions)];
+
+    case 'line':
+      return [generateConnector(shape, options)];
+
+    case 'arrow': {
+      // Heads are solid and filled with the stroke color, whatever the line's dash
+      const headOptions: Options = { ...options, strokeLineDash: undefined, fill: style.strokeColor, fillStyle: 'solid' };
+      const heads = getArrowheadParts(shape, roughStyle.arrowHeadLength).map((part) => {
+        switch (part.kind) {
+          case 'polygon':
+            return generator.polygon(part.points.map((point) => [point.x, point.y] as [number, number]), headOptions);
+          case 'line':
+            return generator.line(part.from.x, part.from.y, part.to.x, part.to.y, headOptions);
+          case 'dot':
+            return generator.circle(part.center.x, part.center.y, part.radius * 2, headOptions);
+        }
+      });
+      return [generateConnector(shape, options), ...heads];
+    }
+
+    case 'pen':
+      if (!shape.path || shape.path.length < 2) return [];
+      // Freehand strokes are already wobbly, so keep their points and skip the double stroke
+      return [generator.curve(
+        shape.path.map((point) => [point.x, point.y] as [number, number]),
+        { ...options, roughness: roughness / 2, disableMultiStroke: true, preserveVertices: true }
+      )];
+
+    default:
+      return [];
+  }
+};
+
+export const getRoughDrawables = (shape: Shape, style: RoughStyle): Drawable[] => {
+  const key = `${style.arrowHeadLength}`;
+  const cached = drawableCache.get(shape);
+  if (cached && cached.key === key) return cached.drawables;
+
+  const drawables = generateDrawables(shape, style);
+  drawableCache.set(shape, { key, drawables });
+  return drawables;
+};
+
+export const drawRoughShape = (context: CanvasRenderingContext2D, shape: Shape, style: RoughStyle) => {
+  const roughCanvas = rough.canvas(context.canvas);
+  getRoughDrawables(shape, style).forEach((drawable) => roughCanvas.draw(drawable));
+};
@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from 'vitest';
+import { rect } from '../test/fixtures';
+import type { Shape } from '../types/Shapes';
+import { createScene } from './scene';
+
+const ids = (shapes: Shape[]) => shapes.map((shape) => shape.id);
+
+describe('createScene', () => {
+  it('adds shapes on top and selects them', () => {
+    const scene = createScene([rect('a')]);
+    scene.addShapes([rect('b', 200)]);
+    expect(ids(scene.getState().shapes)).toEqual(['a', 'b']);
+    expect(scene.getState().selectedIds).toEqual(['b']);
+
+    scene.addShapes([rect('c', 400)], { select: false });
+    expect(scene.getState().selectedIds).toEqual(['b']);
+  });
+
+  it('undoes and redoes each change as one step, with the selection it had', () => {
+    const scene = createScene([rect('a')]);
+    scene.addShapes([rect('b', 200)]);
+    scene.editShapes({ b: { x: 300 } });
+    scene.removeShapes(['a']);
+
+    scene.undo();
+    expect(ids(scene.getState().shapes)).toEqual(['a', 'b']);
+    scene.undo();
+    expect(scene.getState().shapes[1].x).toBe(200);
+    scene.undo();
+    expect(ids(scene.getState().shapes)).toEqual(['a']);
+    expect(scene.getState().selectedIds).toEqual([]);
+    expect(scene.getState().canUndo).toBe(false);
+
+    scene.redo();
+    expect(scene.getState().selectedIds).toEqual(['b']);
+    expect(scene.getState().canRedo).toBe(true);
+  });
+
+  it('records live changes once they are committed', () => {
+    const scene = createScene([rect('a')]);
+    scene.editShapes({ a: { x: 10 } }, { record: false });
+    scene.editShapes({ a: { x: 20 } }, { record: false });
+    expect(scene.getState().canUndo).toBe(false);
+
+    scene.commit();
+    scene.undo();
+    expect(scene.getState().shapes[0].x).toBe(0);
+  });
+
+  it('keeps locked shapes and lets go of connectors bound to removed ones', () => {
+    const arrow: Shape = {
+      id: 'arrow',
+      type: 'arrow',
+      x: 300,
+      y: 50,
+      x2: 100,
+      y2: 50,
+      endBinding: { shapeId: 'a', x: 1, y: 0.5 },
+    };
+    const scene = createScene([rect('a'), { ...rect('b', 400), locked: true }, arrow]);
+    scene.removeShapes(['a', 'b']);
+    const { shapes } = scene.getState();
+    expect(ids(shapes)).toEqual(['b', 'arrow']);
+    expect(shapes[1].endBinding).toBeUndefined();
+  });
+
+  it('moves connectors along with the shapes they are bound to', () => {
+    const arrow: Shape = { id: 'arrow', type: 'arrow', x: 300, y: 50, x2: 100, y2: 50, endBinding: { shapeId: 'a', x: 1, y: 0.5 } };
+    const scene = createScene([rect('a'), arrow]);
+    const before = scene.getState().shapes[1];
+
+    scene.replaceShapes([rect('a', 0, 100)]);
+    const after = scene.getState().shapes[1];
+    expect(after.y2).not.toBe(before.y2);
+    expect(after.x).toBe(before.x);
+  });
+
+  it('groups and ungroups the given shapes', () => {
+    const scene = createScene([rect('a'), rect('b', 200), rect('c', 400)]);
+    scene.groupShapes(['a', 'c'], 'g', null);
+    expect(scene.getState().shapes.filter((shape) => shape.groupIds?.includes('g')).map((shape) => shape.id))
+      .toEqual(['a', 'c']);
+
+    scene.ungroupShapes(['a', 'c'], null);
+    expect(scene.getState().shapes.every((shape) => !shape.groupIds?.length)).toBe(true);
+  });
+
+  it('loads a new scene as one undo step with nothing selected', () => {
+    const scene = createScene([rect('a')]);
+    scene.setSelection(['a']);
+    scene.loadShapes([rect('x'), rect('y')]);
+    expect(ids(scene.getState().shapes)).toEqual(['x', 'y']);
+    expect(scene.getState().selectedIds).toEqual([]);
+
+    scene.undo();
+    expect(ids(scene.getState().shapes)).toEqual(['a']);
+  });
+
+  it('finds shapes by position as the scene changes', () => {
+    const scene = createScene([rect('a'), rect('b', 50, 50)]);
+    expect(scene.getShapeAt({ x: 120, y: 120 }, 4)?.id).toBe('b');
+    expect(scene.getShapeAt({ x: 120, y: 120 }, 4, (shape) => shape.id !== 'b')).toBeNull();
+    expect(ids(scene.getShapesIn({ minX: -10, minY: -10, maxX: 40, maxY: 40 }))).toEqual(['a']);
+
+    scene.editShapes({ b: { x: 1000 } });
+    expect(scene.getShapeAt({ x: 120, y: 120 }, 4)).toBeNull();
+    expect(scene.getShapeAt({ x: 1050, y: 100 }, 4)?.id).toBe('b');
+  });
+
+  it('tells listeners about every change', () => {
+    const scene = createScene();
+    const listener = vi.fn();
+    const unsubscribe = scene.subscribe(listener);
+
+    scene.addShapes([rect('a')]);
+    scene.setSelection([]);
+    unsubscribe();
+    scene.undo();
+
+    expect(listener.mock.calls.map(([event]) => event.type)).toEqual(['commit', 'selection']);
+    expect(listener.mock.calls[0][0].patches).toHaveLength(1);
+  });
+
+  it('applies remote patches without adding them to the undo history', () => {
+    const source = createScene();
+    const listener = vi.fn();
+    source.subscribe(listener);
+    source.addShapes([rect('a')]);
+
+    const scene = createScene();
+    scene.applyRemote(listener.mock.calls[0][0].patches);
+    expect(ids(scene.getState().shapes)).toEqual(['a']);
+    expect(scene.getState().canUndo).toBe(false);
+  });
+});
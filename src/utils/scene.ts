@@ -0,0 +1,299 @@
+// src/utils/scene.ts
+//
+// The scene model: shapes, selection and a patch-based undo history, with listeners told about
+// every change. It doesn't depend on React or the DOM; useHistory binds it to components, and
+// anything else can drive a scene through the same calls.
+import type { HistoryEntry, ShapePatch } from '../types/History';
+import type { Bounds, Shape, ZOrderAction } from '../types/Shapes';
+import { updateBoundConnectors } from './bindings';
+import { groupShapes, ungroupShapes } from './groups';
+import { isPointInShape } from './hitTest';
+import { reorderShapes } from './order';
+import { applyPatches, diffShapes, getPatchWeight, invertPatches } from './patches';
+import { createSpatialIndex } from './spatialIndex';
+
+type Point = { x: number; y: number };
+
+// Oldest steps are dropped once either limit is reached
+const MAX_ENTRIES = 200;
+const MAX_WEIGHT = 500000;
+
+export type ShapesChange = Shape[] | ((shapes: Shape[]) => Shape[]);
+
+// A change made through this scene: a commit, undo or redo
+export interface LocalChange {
+  id: number;
+  patches: ShapePatch[];
+}
+
+export interface SceneState {
+  shapes: Shape[];
+  selectedIds: string[];
+  canUndo: boolean;
+  canRedo: boolean;
+  // Local changes not yet taken, e.g. to send to collaborators
+  localChanges: LocalChange[];
+}
+
+// What happened, passed to listeners along with the new state. Recorded changes come with the
+// patches that were applied.
+export type SceneEvent =
+  | { type: 'update' }
+  | { type: 'commit' | 'undo' | 'redo' | 'remote'; patches: ShapePatch[] }
+  | { type: 'selection' }
+  | { type: 'changesTaken' }
+  | { type: 'historyCleared' };
+
+export type SceneListener = (event: SceneEvent, state: SceneState) => void;
+
+// Changes pass `record: false` for live steps of a drag or slider, recorded later with commit()
+export interface ChangeOptions {
+  record?: boolean;
+}
+
+export interface Scene {
+  getState: () => SceneState;
+  // Returns a function that removes the listener
+  subscribe: (listener: SceneListener) => () => void;
+  // Live change that isn't recorded yet, e.g. each pointer move of a drag
+  update: (change: ShapesChange) => void;
+  // Record everything since the last commit as one undo step, after applying `change`
+  commit: (change?: ShapesChange, selectedIds?: string[]) => void;
+  // Put shapes on top of the scene, selecting them unless `select` is false
+  addShapes: (shapes: Shape[], options?: { select?: boolean }) => void;
+  // Change fields of shapes by id; connectors bound to them follow
+  editShapes: (changes: Record<string, Partial<Shape>>, options?: ChangeOptions) => void;
+  // Put new versions of shapes in place of the ones with the same ids; connectors bound to them follow
+  replaceShapes: (shapes: Shape[], options?: ChangeOptions) => void;
+  // Delete shapes other than locked ones, letting go of connectors bound to them
+  removeShapes: (ids: string[]) => void;
+  reorderShapes: (ids: string[], action: ZOrderAction) => void;
+  groupShapes: (ids: string[], groupId: string, editingGroupId: string | null) => void;
+  ungroupShapes: (ids: string[], editingGroupId: string | null) => void;
+  // Swap in a whole new scene, e.g. an opened file, as one undo step with nothing selected
+  loadShapes: (shapes: Shape[]) => void;
+  setSelection: (ids: string[]) => void;
+  // Shapes whose bounds come within `tolerance` of the point, top-most first
+  getShapesAt: (point: Point, tolerance: number) => Shape[];
+  // Shapes whose bounds overlap the box, in draw order
+  getShapesIn: (box: Bounds) => Shape[];
+  // Top-most shape whose outline is within `tolerance` of the point and that passes `filter`
+  getShapeAt: (point: Point, tolerance: number, filter?: (shape: Shape) => boolean) => Shape | null;
+  undo: () => void;
+  redo: () => void;
+  // Forget local changes up to and including this id
+  takeLocalChanges: (lastId: number) => void;
+  // Apply someone else's changes without recording an undo step; undo only reverts our own
+  applyRemote: (patches: ShapePatch[]) => void;
+  // Forget every undo and redo step, e.g. once the scene was replaced by a shared one
+  clearHistory: () => void;
+}
+
+interface HistoryState {
+  shapes: Shape[];
+  selectedIds: string[];
+  committed: Shape[]; // shapes as of the last recorded step
+  gestureSelection: string[] | null; // selection when the uncommitted changes started
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+  localChanges: LocalChange[];
+  changeCount: number;
+}
+
+const resolve = (change: ShapesChange, shapes: Shape[]) => (typeof change === 'function' ? change(shapes) : change);
+
+const recordChange = (prev: HistoryState, patches: ShapePatch[]) => ({
+  localChanges: [...prev.localChanges, { id: prev.changeCount + 1, patches }],
+  changeCount: prev.changeCount + 1,
+});
+
+const capEntries = (entries: HistoryEntry[]) => {
+  let weight = entries.reduce((total, entry) => total + entry.weight, 0);
+  let start = Math.max(0, entries.length - MAX_ENTRIES);
+  for (let i = 0; i < start; i++) weight -= entries[i].weight;
+  // Always keep the newest step, however large
+  while (weight > MAX_WEIGHT && start < entries.length - 1) {
+    weight -= entries[start].weight;
+    start++;
+  }
+  return start > 0 ? entries.slice(start) : entries;
+};
+
+const toSceneState = (state: HistoryState): SceneState => ({
+  shapes: state.shapes,
+  selectedIds: state.selectedIds,
+  canUndo: state.undoStack.length > 0,
+  canRedo: state.redoStack.length > 0,
+  localChanges: state.localChanges,
+});
+
+export const createScene = (initialShapes: Shape[] = []): Scene => {
+  let state: HistoryState = {
+    shapes: initialShapes,
+    selectedIds: [],
+    committed: initialShapes,
+    gestureSelection: null,
+    undoStack: [],
+    redoStack: [],
+    localChanges: [],
+    changeCount: 0,
+  };
+  // Kept between changes so callers comparing states by reference see no change
+  let snapshot = toSceneState(state);
+  const listeners = new Set<SceneListener>();
+  // Synced when queried, which only re-files the shapes that changed since the last query
+  const index = createSpatialIndex();
+
+  const setState = (next: HistoryState, event: SceneEvent) => {
+    state = next;
+    snapshot = toSceneState(next);
+    listeners.forEach((listener) => listener(event, snapshot));
+  };
+
+  const update = (change: ShapesChange) => {
+    setState({
+      ...state,
+      shapes: resolve(change, state.shapes),
+      gestureSelection: state.gestureSelection ?? state.selectedIds,
+    }, { type: 'update' });
+  };
+
+  const commit = (change?: ShapesChange, selectedIds?: string[]) => {
+    const shapes = change ? resolve(change, state.shapes) : state.shapes;
+    const selectionAfter = selectedIds ?? state.selectedIds;
+    const patches = diffShapes(state.committed, shapes);
+    if (patches.length === 0) {
+      setState({ ...state, shapes, selectedIds: selectionAfter, gestureSelection: null }, { type: 'commit', patches });
+      return;
+    }
+
+    const entry: HistoryEntry = {
+      patches,
+      selectionBefore: state.gestureSelection ?? state.selectedIds,
+      selectionAfter,
+      weight: patches.reduce((total, patch) => total + getPatchWeight(patch), 0),
+    };
+    setState({
+      ...state,
+      ...recordChange(state, patches),
+      shapes,
+      selectedIds: selectionAfter,
+      committed: shapes,
+      gestureSelection: null,
+      undoStack: capEntries([...state.undoStack, entry]),
+      redoStack: [],
+    }, { type: 'commit', patches });
+  };
+
+  // Uncommitted changes are dropped before stepping through the history
+  const undo = () => {
+    const entry = state.undoStack[state.undoStack.length - 1];
+    if (!entry) return;
+    const patches = invertPatches(entry.patches);
+    const shapes = applyPatches(state.committed, patches);
+    setState({
+      ...state,
+      ...recordChange(state, patches),
+      shapes,
+      selectedIds: entry.selectionBefore,
+      committed: shapes,
+      gestureSelection: null,
+      undoStack: state.undoStack.slice(0, -1),
+      redoStack: [...state.redoStack, entry],
+    }, { type: 'undo', patches });
+  };
+
+  const redo = () => {
+    const entry = state.redoStack[state.redoStack.length - 1];
+    if (!entry) return;
+    const shapes = applyPatches(state.committed, entry.patches);
+    setState({
+      ...state,
+      ...recordChange(state, entry.patches),
+      shapes,
+      selectedIds: entry.selectionAfter,
+      committed: shapes,
+      gestureSelection: null,
+      undoStack: [...state.undoStack, entry],
+      redoStack: state.redoStack.slice(0, -1),
+    }, { type: 'redo', patches: entry.patches });
+  };
+
+  // Live or recorded, depending on the options
+  const apply = (change: ShapesChange, options?: ChangeOptions) =>
+    options?.record === false ? update(change) : commit(change);
+
+  const getShapesIn = (box: Bounds) => {
+    index.sync(state.shapes);
+    return index.getShapesIn(box);
+  };
+
+  const getShapesAt = (point: Point, tolerance: number) => {
+    index.sync(state.shapes);
+    return index.getShapesAt(point, tolerance);
+  };
+
+  return {
+    getState: () => snapshot,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    update,
+    commit,
+
+    addShapes: (shapes, options) =>
+      commit((current) => [...current, ...shapes], options?.select === false ? undefined : shapes.map((shape) => shape.id)),
+
+    editShapes: (changes, options) =>
+      apply((current) => updateBoundConnectors(current.map((shape) =>
+        changes[shape.id] ? { ...shape, ...changes[shape.id] } : shape
+      )), options),
+
+    replaceShapes: (shapes, options) => {
+      const byId = new Map(shapes.map((shape) => [shape.id, shape]));
+      apply((current) => updateBoundConnectors(current.map((shape) => byId.get(shape.id) ?? shape)), options);
+    },
+
+    removeShapes: (ids) => {
+      const shapes = updateBoundConnectors(state.shapes.filter((shape) => shape.locked || !ids.includes(shape.id)));
+      const remaining = new Set(shapes.map((shape) => shape.id));
+      commit(shapes, state.selectedIds.filter((id) => remaining.has(id)));
+    },
+
+    reorderShapes: (ids, action) => commit((current) => reorderShapes(current, ids, action)),
+
+    groupShapes: (ids, groupId, editingGroupId) =>
+      commit((current) => groupShapes(current, ids, editingGroupId, groupId)),
+
+    ungroupShapes: (ids, editingGroupId) => commit((current) => ungroupShapes(current, ids, editingGroupId)),
+
+    loadShapes: (shapes) => commit(shapes, []),
+
+    setSelection: (ids) => setState({ ...state, selectedIds: ids }, { type: 'selection' }),
+
+    getShapesAt,
+    getShapesIn,
+
+    getShapeAt: (point, tolerance, filter = () => true) =>
+      getShapesAt(point, tolerance).find((shape) => filter(shape) && isPointInShape(shape, point, tolerance)) ?? null,
+
+    undo,
+    redo,
+
+    takeLocalChanges: (lastId) =>
+      setState({ ...state, localChanges: state.localChanges.filter(({ id }) => id > lastId) }, { type: 'changesTaken' }),
+
+    // Applied to the uncommitted shapes as well, so a drag in progress keeps going on top
+    applyRemote: (patches) => {
+      if (patches.length === 0) return;
+      const committed = applyPatches(state.committed, patches);
+      const shapes = state.shapes === state.committed ? committed : applyPatches(state.shapes, patches);
+      setState({ ...state, shapes, committed }, { type: 'remote', patches });
+    },
+
+    clearHistory: () => setState({ ...state, undoStack: [], redoStack: [] }, { type: 'historyCleared' }),
+  };
+};
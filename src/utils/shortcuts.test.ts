@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import type { ShortcutEvent } from './shortcuts';
+import { getShortcutAction } from './shortcuts';
+
+const press = (key: string, modifiers: Partial<ShortcutEvent> = {}): ShortcutEvent => ({
+  key,
+  code: '',
+  ctrlKey: false,
+  metaKey: false,
+  shiftKey: false,
+  ...modifiers,
+});
+
+describe('getShortcutAction', () => {
+  it('maps Ctrl and Cmd shortcuts', () => {
+    expect(getShortcutAction(press('z', { ctrlKey: true }))).toBe('undo');
+    expect(getShortcutAction(press('Z', { metaKey: true, shiftKey: true }))).toBe('redo');
+    expect(getShortcutAction(press('y', { ctrlKey: true }))).toBe('redo');
+    expect(getShortcutAction(press('G', { ctrlKey: true, shiftKey: true }))).toBe('ungroup');
+    expect(getShortcutAction(press('}', { ctrlKey: true, shiftKey: true, code: 'BracketRight' }))).toBe('bringToFront');
+    expect(getShortcutAction(press('[', { ctrlKey: true, code: 'BracketLeft' }))).toBe('sendBackward');
+  });
+
+  it('needs Shift where the shortcut has it', () => {
+    expect(getShortcutAction(press('e', { ctrlKey: true }))).toBeNull();
+    expect(getShortcutAction(press('E', { ctrlKey: true, shiftKey: true }))).toBe('export');
+    expect(getShortcutAction(press('l', { ctrlKey: true }))).toBeNull();
+  });
+
+  it('leaves plain letters alone', () => {
+    expect(getShortcutAction(press('z'))).toBeNull();
+    expect(getShortcutAction(press('a'))).toBeNull();
+  });
+
+  it('maps keys without modifiers', () => {
+    expect(getShortcutAction(press('Backspace'))).toBe('delete');
+    expect(getShortcutAction(press('Delete', { ctrlKey: true }))).toBe('delete');
+    expect(getShortcutAction(press('F10', { shiftKey: true }))).toBe('contextMenu');
+    expect(getShortcutAction(press('Escape'))).toBe('cancel');
+    expect(getShortcutAction(press('Enter'))).toBe('confirm');
+    expect(getShortcutAction(press('!', { shiftKey: true, code: 'Digit1' }))).toBe('fitToContent');
+  });
+});
@@ -0,0 +1,63 @@
+// src/utils/shortcuts.ts
+//
+// Keyboard shortcuts of the canvas as named actions. What an action does can depend on what the
+// canvas is doing, e.g. Escape finishes a line being placed before it clears the selection.
+
+export type ShortcutAction =
+  | 'undo'
+  | 'redo'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'resetZoom'
+  | 'fitToContent'
+  | 'save'
+  | 'export'
+  | 'selectAll'
+  | 'duplicate'
+  | 'delete'
+  | 'toggleLock'
+  | 'group'
+  | 'ungroup'
+  | 'bringForward'
+  | 'sendBackward'
+  | 'bringToFront'
+  | 'sendToBack'
+  | 'contextMenu'
+  | 'confirm'
+  | 'cancel';
+
+export type ShortcutEvent = Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'shiftKey'>;
+
+// Shortcuts held with Ctrl (Cmd on macOS)
+const getCommandAction = (e: ShortcutEvent): ShortcutAction | null => {
+  const key = e.key.toLowerCase();
+  if (key === 'z') return e.shiftKey ? 'redo' : 'undo';
+  if (key === 'y') return 'redo';
+  if (key === '=' || key === '+') return 'zoomIn';
+  if (key === '-') return 'zoomOut';
+  if (key === '0') return 'resetZoom';
+  if (key === 's') return 'save';
+  if (key === 'e' && e.shiftKey) return 'export';
+  if (key === 'a') return 'selectAll';
+  if (key === 'd') return 'duplicate';
+  if (key === 'l' && e.shiftKey) return 'toggleLock';
+  if (key === 'g') return e.shiftKey ? 'ungroup' : 'group';
+  // Ctrl+] / Ctrl+[ step through the draw order, with Shift they go all the way
+  if (e.code === 'BracketRight') return e.shiftKey ? 'bringToFront' : 'bringForward';
+  if (e.code === 'BracketLeft') return e.shiftKey ? 'sendToBack' : 'sendBackward';
+  return null;
+};
+
+export const getShortcutAction = (e: ShortcutEvent): ShortcutAction | null => {
+  const command = e.ctrlKey || e.metaKey ? getCommandAction(e) : null;
+  if (command) return command;
+
+  if (e.key === 'Delete' || e.key === 'Backspace') return 'delete';
+  if (e.ctrlKey || e.metaKey) return null;
+  // Keyboard access to the context menu
+  if (e.key === 'ContextMenu' || (e.shiftKey && e.key === 'F10')) return 'contextMenu';
+  if (e.key === 'Enter') return 'confirm';
+  if (e.key === 'Escape') return 'cancel';
+  if (e.shiftKey && e.code === 'Digit1') return 'fitToContent';
+  return null;
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { snapBoundsTo, snapPointTo } from './snapping';
+
+const target = { minX: 100, minY: 100, maxX: 200, maxY: 200 };
+
+describe('snapPointTo', () => {
+  it('snaps to edges and centers of other shapes, with guides', () => {
+    const snap = snapPointTo({ x: 147, y: 10 }, [target], { enabled: true, gridSize: null, threshold: 8 });
+    expect(snap.dx).toBe(3);
+    expect(snap.dy).toBe(0);
+    expect(snap.guides.length).toBeGreaterThan(0);
+  });
+
+  it('snaps to the grid instead when grid snapping is on', () => {
+    const snap = snapPointTo({ x: 147, y: 12 }, [target], { enabled: true, gridSize: 20, threshold: 8 });
+    expect(snap).toEqual({ dx: -7, dy: 8, guides: [] });
+  });
+
+  it('leaves the point alone while snapping is held off', () => {
+    const snap = snapPointTo({ x: 147, y: 12 }, [target], { enabled: false, gridSize: 20, threshold: 8 });
+    expect(snap).toEqual({ dx: 0, dy: 0, guides: [] });
+  });
+});
+
+describe('snapBoundsTo', () => {
+  it('lines a moved box up with other shapes', () => {
+    const snap = snapBoundsTo({ minX: 204, minY: 300, maxX: 254, maxY: 350 }, [target], {
+      enabled: true,
+      gridSize: null,
+      threshold: 8,
+    });
+    expect(snap.dx).toBe(-4);
+  });
+
+  it('puts the top-left corner on the grid', () => {
+    const snap = snapBoundsTo({ minX: 204, minY: 309, maxX: 254, maxY: 359 }, [], { enabled: true, gridSize: 20, threshold: 8 });
+    expect(snap).toEqual({ dx: -4, dy: -9, guides: [] });
+  });
+});
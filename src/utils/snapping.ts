@@ -0,0 +1,194 @@
+// src/utils/snapping.ts
+//
+// Smart guides: snapping a box or point to the edges and centers of other shapes, and a box to
+// the spacing between its neighbours, with the guides that show what lined up.
+import type { Bounds, Shape } from '../types/Shapes';
+import { getShapeBounds } from './geometry';
+
+type Point = { x: number; y: number };
+type Axis = 'x' | 'y';
+
+// An alignment line through matching edges or centers, or a gap that matches another gap
+export interface SnapGuide {
+  kind: 'line' | 'gap';
+  from: Point;
+  to: Point;
+}
+
+export interface SnapResult {
+  dx: number;
+  dy: number;
+  guides: SnapGuide[];
+}
+
+export interface SnapSettings {
+  enabled: boolean; // off while Ctrl (Cmd on macOS) is held
+  gridSize: number | null; // set to snap to the grid instead of to other shapes
+  threshold: number; // in scene units
+}
+
+// Offsets this close count as lined up when collecting guides after snapping
+const EPSILON = 0.01;
+
+export const snapToGrid = (value: number, gridSize: number) => Math.round(value / gridSize) * gridSize;
+
+const crossAxis = (axis: Axis): Axis => (axis === 'x' ? 'y' : 'x');
+
+const getSpan = (bounds: Bounds, axis: Axis): [number, number] =>
+  axis === 'x' ? [bounds.minX, bounds.maxX] : [bounds.minY, bounds.maxY];
+
+// Both edges and the center along the axis
+const getFeatures = (bounds: Bounds, axis: Axis) => {
+  const [min, max] = getSpan(bounds, axis);
+  return [min, (min + max) / 2, max];
+};
+
+const makePoint = (axis: Axis, along: number, across: number): Point =>
+  axis === 'x' ? { x: along, y: across } : { x: across, y: along };
+
+const shiftBounds = (bounds: Bounds, axis: Axis, offset: number): Bounds =>
+  axis === 'x'
+    ? { ...bounds, minX: bounds.minX + offset, maxX: bounds.maxX + offset }
+    : { ...bounds, minY: bounds.minY + offset, maxY: bounds.maxY + offset };
+
+type AxisSnap = { offset: number; guides: SnapGuide[] };
+
+// Smallest shift along the axis that lines an edge or center up with one of another shape
+const alignAxis = (moving: Bounds, others: Bounds[], axis: Axis, threshold: number): AxisSnap | null => {
+  let best: number | null = null;
+  for (const other of others) {
+    for (const target of getFeatures(other, axis)) {
+      for (const source of getFeatures(moving, axis)) {
+        const offset = target - source;
+        if (Math.abs(offset) <= threshold && (best === null || Math.abs(offset) < Math.abs(best))) {
+          best = offset;
+        }
+      }
+    }
+  }
+  if (best === null) return null;
+
+  // One line per lined-up position, running across every shape that has a feature on it
+  const cross = crossAxis(axis);
+  const guides: SnapGuide[] = [];
+  const positions = new Set(getFeatures(shiftBounds(moving, axis, best), axis));
+  positions.forEach((position) => {
+    const matches = others.filter((other) =>
+      getFeatures(other, axis).some((feature) => Math.abs(feature - position) < EPSILON)
+    );
+    if (matches.length === 0) return;
+    const spans = [moving, ...matches].map((bounds) => getSpan(bounds, cross));
+    const start = Math.min(...spans.map(([min]) => min));
+    const end = Math.max(...spans.map(([, max]) => max));
+    guides.push({ kind: 'line', from: makePoint(axis, position, start), to: makePoint(axis, position, end) });
+  });
+  return { offset: best, guides };
+};
+
+// Gap between two boxes along the axis, drawn where they overlap on the other axis
+const getGapGuide = (first: Bounds, second: Bounds, axis: Axis): SnapGuide => {
+  const cross = crossAxis(axis);
+  const [firstMin, firstMax] = getSpan(first, cross);
+  const [secondMin, secondMax] = getSpan(second, cross);
+  const across = (Math.max(firstMin, secondMin) + Math.min(firstMax, secondMax)) / 2;
+  return {
+    kind: 'gap',
+    from: makePoint(axis, getSpan(first, axis)[1], across),
+    to: makePoint(axis, getSpan(second, axis)[0], across),
+  };
+};
+
+// Smallest shift that makes the box continue, or sit in the middle of, the spacing between
+// two neighbours beside it
+const spaceAxis = (moving: Bounds, others: Bounds[], axis: Axis, threshold: number): AxisSnap | null => {
+  const cross = crossAxis(axis);
+  const [movingCrossMin, movingCrossMax] = getSpan(moving, cross);
+  const beside = others
+    .filter((other) => {
+      const [min, max] = getSpan(other, cross);
+      return min <= movingCrossMax && max >= movingCrossMin;
+    })
+    .sort((a, b) => getSpan(a, axis)[0] - getSpan(b, axis)[0]);
+
+  const [movingMin, movingMax] = getSpan(moving, axis);
+  let best: AxisSnap | null = null;
+  const consider = (offset: number, guides: () => SnapGuide[]) => {
+    if (Math.abs(offset) <= threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+      best = { offset, guides: guides() };
+    }
+  };
+
+  for (let i = 0; i < beside.length - 1; i++) {
+    const first = beside[i];
+    const second = beside[i + 1];
+    const gap = getSpan(second, axis)[0] - getSpan(first, axis)[1];
+    if (gap <= 0) continue;
+
+    // Same gap after the pair, before it, or centered between them
+    const after = getSpan(second, axis)[1] + gap - movingMin;
+    consider(after, () => [
+      getGapGuide(first, second, axis),
+      getGapGuide(second, shiftBounds(moving, axis, after), axis),
+    ]);
+    const before = getSpan(first, axis)[0] - gap - movingMax;
+    consider(before, () => [
+      getGapGuide(shiftBounds(moving, axis, before), first, axis),
+      getGapGuide(first, second, axis),
+    ]);
+    if (movingMax - movingMin < gap) {
+      const between = (getSpan(first, axis)[1] + getSpan(second, axis)[0]) / 2 - (movingMin + movingMax) / 2;
+      consider(between, () => [
+        getGapGuide(first, shiftBounds(moving, axis, between), axis),
+        getGapGuide(shiftBounds(moving, axis, between), second, axis),
+      ]);
+    }
+  }
+  return best;
+};
+
+const pickCloser = (a: AxisSnap | null, b: AxisSnap | null) =>
+  !a ? b : !b ? a : Math.abs(b.offset) < Math.abs(a.offset) ? b : a;
+
+// Snap a box being moved; `threshold` is in scene units
+export const snapBounds = (moving: Bounds, others: Bounds[], threshold: number): SnapResult => {
+  const x = pickCloser(alignAxis(moving, others, 'x', threshold), spaceAxis(moving, others, 'x', threshold));
+  // Guides along the other axis are drawn where the box ends up after the first snap
+  const shifted = shiftBounds(moving, 'x', x?.offset ?? 0);
+  const y = pickCloser(alignAxis(shifted, others, 'y', threshold), spaceAxis(shifted, others, 'y', threshold));
+  return { dx: x?.offset ?? 0, dy: y?.offset ?? 0, guides: [...(x?.guides ?? []), ...(y?.guides ?? [])] };
+};
+
+// Snap a single point, e.g. a corner being drawn or dragged, to edges and centers
+export const snapPoint = (point: Point, others: Bounds[], threshold: number): SnapResult => {
+  const bounds = { minX: point.x, minY: point.y, maxX: point.x, maxY: point.y };
+  const x = alignAxis(bounds, others, 'x', threshold);
+  const y = alignAxis(bounds, others, 'y', threshold);
+  return { dx: x?.offset ?? 0, dy: y?.offset ?? 0, guides: [...(x?.guides ?? []), ...(y?.guides ?? [])] };
+};
+
+const NO_SNAP: SnapResult = { dx: 0, dy: 0, guides: [] };
+
+// Bounds of the shapes something can snap to
+export const getSnapTargets = (shapes: Shape[], excludeIds: string[]) =>
+  shapes.filter((shape) => !excludeIds.includes(shape.id)).map(getShapeBounds);
+
+// Snap a point being drawn or dragged to the grid when grid snapping is on, otherwise to the
+// edges and centers of the targets
+export const snapPointTo = (point: Point, targets: Bounds[], settings: SnapSettings): SnapResult => {
+  if (!settings.enabled) return NO_SNAP;
+  if (settings.gridSize) {
+    const { gridSize } = settings;
+    return { dx: snapToGrid(point.x, gridSize) - point.x, dy: snapToGrid(point.y, gridSize) - point.y, guides: [] };
+  }
+  return snapPoint(point, targets, settings.threshold);
+};
+
+// Snap a moved box to the grid, or to the targets and the spacing between them
+export const snapBoundsTo = (bounds: Bounds, targets: Bounds[], settings: SnapSettings): SnapResult => {
+  if (!settings.enabled) return NO_SNAP;
+  if (settings.gridSize) {
+    const { gridSize } = settings;
+    return { dx: snapToGrid(bounds.minX, gridSize) - bounds.minX, dy: snapToGrid(bounds.minY, gridSize) - bounds.minY, guides: [] };
+  }
+  return snapBounds(bounds, targets, settings.threshold);
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { rect } from '../test/fixtures';
+import { createSpatialIndex } from './spatialIndex';
+
+const ids = (shapes: { id: string }[]) => shapes.map((shape) => shape.id);
+
+describe('createSpatialIndex', () => {
+  it('finds the shapes inside a box in draw order, and those at a point top-most first', () => {
+    const index = createSpatialIndex();
+    index.sync([rect('a'), rect('b', 50, 50), rect('far', 2000, 2000)]);
+    expect(ids(index.getShapesIn({ minX: 60, minY: 60, maxX: 70, maxY: 70 }))).toEqual(['a', 'b']);
+    expect(ids(index.getShapesAt({ x: 60, y: 60 }, 0))).toEqual(['b', 'a']);
+    expect(ids(index.getShapesAt({ x: 1000, y: 1000 }, 0))).toEqual([]);
+  });
+
+  it('reaches as far as the stroke, plus the tolerance', () => {
+    const index = createSpatialIndex();
+    index.sync([{ ...rect('a'), strokeWidth: 10 }]);
+    expect(ids(index.getShapesAt({ x: 108, y: 50 }, 0))).toEqual(['a']);
+    expect(ids(index.getShapesAt({ x: 115, y: 50 }, 0))).toEqual([]);
+    expect(ids(index.getShapesAt({ x: 115, y: 50 }, 5))).toEqual(['a']);
+  });
+
+  it('follows moved, removed and reordered shapes when synced again', () => {
+    const index = createSpatialIndex();
+    const a = rect('a');
+    const b = rect('b', 50, 50);
+    index.sync([a, b]);
+    index.sync([{ ...b, x: 1000 }, a]);
+    expect(ids(index.getShapesAt({ x: 60, y: 60 }, 0))).toEqual(['a']);
+    expect(ids(index.getShapesAt({ x: 1010, y: 60 }, 0))).toEqual(['b']);
+    index.sync([a]);
+    expect(ids(index.getShapesIn({ minX: -5000, minY: -5000, maxX: 5000, maxY: 5000 }))).toEqual(['a']);
+  });
+
+  it('finds shapes too large for the grid and shapes with broken coordinates', () => {
+    const index = createSpatialIndex();
+    const huge = { ...rect('huge'), width: 100000, height: 100000 };
+    const broken = { ...rect('broken'), x: NaN };
+    index.sync([huge, broken, rect('a', 50000, 50000)]);
+    expect(ids(index.getShapesAt({ x: 50010, y: 50010 }, 0))).toEqual(['a', 'huge']);
+  });
+});
@@ -0,0 +1,128 @@
+// src/utils/spatialIndex.ts
+//
+// A grid over the scene that lists the shapes in each cell, so finding the shapes near a point or
+// inside a box only looks at shapes in the cells it covers instead of the whole scene. The index
+// follows the scene by replacing only the shapes that changed since it was last synced.
+import type { Bounds, Shape } from '../types/Shapes';
+import { getShapeBounds, growBounds, intersectsBounds } from './geometry';
+import { getShapeStyle } from './style';
+
+type Point = { x: number; y: number };
+
+// Size of a grid cell in scene units
+const CELL_SIZE = 256;
+// Shapes covering more cells than this are kept in one list that every query looks at
+const MAX_CELLS = 64;
+
+interface Entry {
+  shape: Shape;
+  order: number; // position in the scene's draw order
+  bounds: Bounds;
+  cells: string[]; // empty for shapes kept in the large list
+}
+
+export interface SpatialIndex {
+  // Bring the index up to date with the scene
+  sync: (shapes: Shape[]) => void;
+  // Shapes whose bounds come within `tolerance` of the point, top-most first
+  getShapesAt: (point: Point, tolerance: number) => Shape[];
+  // Shapes whose bounds overlap the box, in draw order
+  getShapesIn: (box: Bounds) => Shape[];
+}
+
+// The box a shape's stroke can reach, which for thick pen strokes goes past the path
+const getIndexBounds = (shape: Shape) => growBounds(getShapeBounds(shape), getShapeStyle(shape).strokeWidth);
+
+const getCellRange = (bounds: Bounds) => ({
+  minColumn: Math.floor(bounds.minX / CELL_SIZE),
+  maxColumn: Math.floor(bounds.maxX / CELL_SIZE),
+  minRow: Math.floor(bounds.minY / CELL_SIZE),
+  maxRow: Math.floor(bounds.maxY / CELL_SIZE),
+});
+
+export const createSpatialIndex = (): SpatialIndex => {
+  const entries = new Map<string, Entry>();
+  const cells = new Map<string, Set<Entry>>();
+  const large = new Set<Entry>();
+  let synced: Shape[] | null = null;
+
+  const insert = (shape: Shape, order: number) => {
+    const bounds = getIndexBounds(shape);
+    const { minColumn, maxColumn, minRow, maxRow } = getCellRange(bounds);
+    const entry: Entry = { shape, order, bounds, cells: [] };
+    entries.set(shape.id, entry);
+
+    // Bounds can be NaN for shapes with broken coordinates; those go in the large list too
+    const cellCount = (maxColumn - minColumn + 1) * (maxRow - minRow + 1);
+    if (!(cellCount <= MAX_CELLS)) {
+      large.add(entry);
+      return;
+    }
+    for (let column = minColumn; column <= maxColumn; column++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        const key = `${column}:${row}`;
+        let cell = cells.get(key);
+        if (!cell) {
+          cell = new Set();
+          cells.set(key, cell);
+        }
+        cell.add(entry);
+        entry.cells.push(key);
+      }
+    }
+  };
+
+  const remove = (entry: Entry) => {
+    entries.delete(entry.shape.id);
+    large.delete(entry);
+    entry.cells.forEach((key) => {
+      const cell = cells.get(key);
+      cell?.delete(entry);
+      if (cell?.size === 0) cells.delete(key);
+    });
+  };
+
+  const sync = (shapes: Shape[]) => {
+    if (shapes === synced) return;
+    synced = shapes;
+    const seen = new Set<string>();
+    shapes.forEach((shape, order) => {
+      seen.add(shape.id);
+      const entry = entries.get(shape.id);
+      if (entry && entry.shape === shape) {
+        entry.order = order;
+        return;
+      }
+      if (entry) remove(entry);
+      insert(shape, order);
+    });
+    entries.forEach((entry, id) => {
+      if (!seen.has(id)) remove(entry);
+    });
+  };
+
+  const getShapesIn = (box: Bounds): Shape[] => {
+    const found = new Set<Entry>();
+    const { minColumn, maxColumn, minRow, maxRow } = getCellRange(box);
+    if ((maxColumn - minColumn + 1) * (maxRow - minRow + 1) > cells.size) {
+      // A box this big covers more cells than there are in use, so walk the ones in use instead
+      cells.forEach((cell) => cell.forEach((entry) => found.add(entry)));
+    } else {
+      for (let column = minColumn; column <= maxColumn; column++) {
+        for (let row = minRow; row <= maxRow; row++) {
+          cells.get(`${column}:${row}`)?.forEach((entry) => found.add(entry));
+        }
+      }
+    }
+    large.forEach((entry) => found.add(entry));
+    return [...found]
+      .filter((entry) => intersectsBounds(entry.bounds, box))
+      .sort((a, b) => a.order - b.order)
+      .map((entry) => entry.shape);
+  };
+
+  const getShapesAt = (point: Point, tolerance: number): Shape[] =>
+    getShapesIn(growBounds({ minX: point.x, minY: point.y, maxX: point.x, maxY: point.y }, tolerance)).reverse();
+
+  return { sync, getShapesAt, getShapesIn };
+};
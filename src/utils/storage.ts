@@ -0,0 +1,70 @@
+// src/utils/storage.ts
+import type { CollaboratorProfile } from '../types/Collaboration';
+import type { SceneDocument } from '../types/Document';
+import type { Shape } from '../types/Shapes';
+import { createDocument, readDocument } from './document';
+import { addFiles, getFilesFor } from './files';
+
+const STORAGE_KEY = 'excil-draw:scene';
+// Unreadable data is moved here instead of being overwritten by the next autosave
+const BACKUP_KEY = 'excil-draw:scene-backup';
+const PROFILE_KEY = 'excil-draw:profile';
+
+export const AUTOSAVE_DELAY = 500;
+
+const backupRawScene = (raw: string) => {
+  try {
+    localStorage.setItem(BACKUP_KEY, raw);
+  } catch {
+    // Nothing more we can do if storage is full
+  }
+};
+
+export const loadScene = (): SceneDocument => {
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return createDocument([]); // Storage disabled (e.g. privacy mode)
+  }
+  if (!raw) return createDocument([]);
+
+  try {
+    const { document, issues } = readDocument(JSON.parse(raw));
+    if (issues.length > 0) {
+      console.warn('Some parts of the saved scene could not be restored', issues);
+    }
+    addFiles(document.files);
+    return document;
+  } catch (error) {
+    console.warn('Could not restore the saved scene, starting with an empty canvas', error);
+    backupRawScene(raw);
+    return createDocument([]);
+  }
+};
+
+export const saveScene = (shapes: Shape[], background?: string) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(createDocument(shapes, background, getFilesFor(shapes))));
+  } catch (error) {
+    console.warn('Could not save the scene to local storage', error);
+  }
+};
+
+// Name and color shown to collaborators, kept between sessions
+export const loadProfile = (): CollaboratorProfile | null => {
+  try {
+    const profile = JSON.parse(localStorage.getItem(PROFILE_KEY) || 'null');
+    return profile && typeof profile.name === 'string' && typeof profile.color === 'string' ? profile : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveProfile = (profile: CollaboratorProfile) => {
+  try {
+    localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+  } catch (error) {
+    console.warn('Could not save the profile to local storage', error);
+  }
+};
@@ -0,0 +1,80 @@
+// src/utils/style.ts
+import type { DashStyle, Shape, ShapeStyle, ShapeType } from '../types/Shapes';
+
+export const DEFAULT_SHAPE_STYLE: ShapeStyle = {
+  strokeColor: '#1a1a1a',
+  fillColor: 'transparent',
+  strokeWidth: 2,
+  dashStyle: 'solid',
+  opacity: 1,
+  cornerRadius: 0,
+  sides: 5,
+  routing: 'straight',
+  startArrowhead: 'none',
+  endArrowhead: 'triangle',
+};
+
+export const STROKE_COLORS = ['#1a1a1a', '#e03131', '#2f9e44', '#1971c2', '#f08c00', '#9c36b5'];
+export const FILL_COLORS = ['transparent', '#ffc9c9', '#b2f2bb', '#a5d8ff', '#ffec99', '#eebefa'];
+export const STROKE_WIDTHS: { label: string; width: number }[] = [
+  { label: 'Thin', width: 1 },
+  { label: 'Bold', width: 2 },
+  { label: 'Extra bold', width: 4 },
+];
+
+// Which style properties make sense for each kind of shape
+export const hasFill = (type: ShapeType) =>
+  type === 'rectangle' || type === 'circle' || type === 'ellipse' ||
+  type === 'diamond' || type === 'triangle' || type === 'polygon' || type === 'star';
+export const hasStrokeColor = (type: ShapeType) => type !== 'image';
+export const hasStroke = (type: ShapeType) => type !== 'text' && type !== 'select' && type !== 'image';
+export const hasCornerRadius = (type: ShapeType) => type === 'rectangle';
+export const hasSides = (type: ShapeType) => type === 'polygon' || type === 'star';
+export const hasRouting = (type: ShapeType) => type === 'line' || type === 'arrow';
+export const hasArrowheads = (type: ShapeType) => type === 'arrow';
+
+export const getShapeStyle = (shape: Shape): ShapeStyle => ({
+  strokeColor: shape.strokeColor ?? DEFAULT_SHAPE_STYLE.strokeColor,
+  fillColor: shape.fillColor ?? DEFAULT_SHAPE_STYLE.fillColor,
+  strokeWidth: shape.strokeWidth ?? DEFAULT_SHAPE_STYLE.strokeWidth,
+  dashStyle: shape.dashStyle ?? DEFAULT_SHAPE_STYLE.dashStyle,
+  opacity: shape.opacity ?? DEFAULT_SHAPE_STYLE.opacity,
+  cornerRadius: shape.cornerRadius ?? DEFAULT_SHAPE_STYLE.cornerRadius,
+  sides: shape.sides ?? DEFAULT_SHAPE_STYLE.sides,
+  routing: shape.routing ?? DEFAULT_SHAPE_STYLE.routing,
+  startArrowhead: shape.startArrowhead ?? DEFAULT_SHAPE_STYLE.startArrowhead,
+  endArrowhead: shape.endArrowhead ?? DEFAULT_SHAPE_STYLE.endArrowhead,
+});
+
+// Only copy the style properties that apply to the given shape type
+export const pickStyleFor = (type: ShapeType, style: Partial<ShapeStyle>): Partial<Shape> => {
+  const picked: Partial<Shape> = {};
+  if (hasStrokeColor(type) && style.strokeColor !== undefined) picked.strokeColor = style.strokeColor;
+  if (style.opacity !== undefined) picked.opacity = style.opacity;
+  if (hasStroke(type)) {
+    if (style.strokeWidth !== undefined) picked.strokeWidth = style.strokeWidth;
+    if (style.dashStyle !== undefined) picked.dashStyle = style.dashStyle;
+  }
+  if (hasFill(type) && style.fillColor !== undefined) picked.fillColor = style.fillColor;
+  if (hasCornerRadius(type) && style.cornerRadius !== undefined) picked.cornerRadius = style.cornerRadius;
+  if (hasSides(type) && style.sides !== undefined) picked.sides = style.sides;
+  if (hasRouting(type) && style.routing !== undefined) picked.routing = style.routing;
+  if (hasArrowheads(type)) {
+    if (style.startArrowhead !== undefined) picked.startArrowhead = style.startArrowhead;
+    if (style.endArrowhead !== undefined) picked.endArrowhead = style.endArrowhead;
+  }
+  return picked;
+};
+
+export const getLineDash = (dashStyle: DashStyle, strokeWidth: number): number[] => {
+  switch (dashStyle) {
+    case 'dashed':
+      return [strokeWidth * 4, strokeWidth * 3];
+    case 'dotted':
+      return [strokeWidth, strokeWidth * 2.5];
+    default:
+      return [];
+  }
+};
+
+export const isTransparent = (color: string) => color === 'transparent' || color === '';
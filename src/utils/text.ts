@@ -0,0 +1,118 @@
+// src/utils/text.ts
+import type { Shape } from '../types/Shapes';
+
+export const TEXT_FONT_FAMILY = '"Segoe UI", Roboto, Helvetica, Arial, sans-serif';
+export const TEXT_LINE_HEIGHT = 1.25;
+export const DEFAULT_FONT_SIZE = 20;
+
+export const FONT_SIZES: { label: string; size: number }[] = [
+  { label: 'S', size: 16 },
+  { label: 'M', size: 20 },
+  { label: 'L', size: 28 },
+  { label: 'XL', size: 36 },
+];
+
+export interface TextLayout {
+  lines: string[];
+  lineHeight: number;
+  width: number;
+  height: number;
+}
+
+export const getFontString = (fontSize: number) => `${fontSize}px ${TEXT_FONT_FAMILY}`;
+
+// Width of `text` drawn in `font`. Layout takes one so it can run where there's no canvas.
+export type MeasureText = (text: string, font: string) => number;
+
+// Shared context used only for measuring, so layout works without a visible canvas
+let measureContext: CanvasRenderingContext2D | null = null;
+let measuredFont = '';
+
+const getMeasureContext = (): CanvasRenderingContext2D | null => {
+  if (!measureContext && typeof document !== 'undefined') {
+    measureContext = document.createElement('canvas').getContext('2d');
+  }
+  return measureContext;
+};
+
+// Measuring on the shared context, or null where there's no 2D context to measure with
+const getCanvasMeasurer = (): MeasureText | null => {
+  const context = getMeasureContext();
+  if (!context) return null;
+  return (text, font) => {
+    if (font !== measuredFont) {
+      context.font = font;
+      measuredFont = font;
+    }
+    return context.measureText(text).width;
+  };
+};
+
+// Break a single word that is wider than the box into chunks that fit
+const breakWord = (measure: (text: string) => number, word: string, maxWidth: number): string[] => {
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const char of word) {
+    if (chunk && measure(chunk + char) > maxWidth) {
+      chunks.push(chunk);
+      chunk = char;
+    } else {
+      chunk += char;
+    }
+  }
+  chunks.push(chunk);
+  return chunks;
+};
+
+const wrapParagraph = (measure: (text: string) => number, paragraph: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of paragraph.split(' ')) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measure(candidate) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+
+    if (line) lines.push(line);
+    if (measure(word) <= maxWidth) {
+      line = word;
+    } else {
+      const chunks = breakWord(measure, word, maxWidth);
+      lines.push(...chunks.slice(0, -1));
+      line = chunks[chunks.length - 1];
+    }
+  }
+
+  lines.push(line);
+  return lines;
+};
+
+// Lay out a text shape: explicit newlines always break, and fixed-width boxes also word-wrap.
+// Text is measured on a canvas unless `measureText` is given.
+export const layoutText = (shape: Shape, measureText: MeasureText | null = getCanvasMeasurer()): TextLayout => {
+  const fontSize = shape.fontSize || DEFAULT_FONT_SIZE;
+  const lineHeight = fontSize * TEXT_LINE_HEIGHT;
+  const paragraphs = (shape.text || '').split('\n');
+
+  if (!measureText) {
+    // No 2D context available - fall back to a rough estimate
+    const width = shape.autoSize === false && shape.width
+      ? shape.width
+      : Math.max(...paragraphs.map((p) => p.length)) * fontSize * 0.6;
+    return { lines: paragraphs, lineHeight, width, height: paragraphs.length * lineHeight };
+  }
+
+  const font = getFontString(fontSize);
+  const measure = (text: string) => measureText(text, font);
+
+  if (shape.autoSize === false && shape.width) {
+    const maxWidth = shape.width;
+    const lines = paragraphs.flatMap((p) => wrapParagraph(measure, p, maxWidth));
+    return { lines, lineHeight, width: maxWidth, height: lines.length * lineHeight };
+  }
+
+  const width = Math.max(...paragraphs.map((p) => measure(p)));
+  return { lines: paragraphs, lineHeight, width, height: paragraphs.length * lineHeight };
+};
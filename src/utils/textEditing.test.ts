@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { stubTextMeasuring } from '../test/fixtures';
+import type { Shape } from '../types/Shapes';
+import { createScene } from './scene';
+import { commitText, getTextDraft } from './textEditing';
+
+const text: Shape = { id: 't', type: 'text', x: 0, y: 0, text: 'hello', fontSize: 20, autoSize: true };
+
+beforeEach(() => {
+  stubTextMeasuring();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('getTextDraft', () => {
+  it('turns a drag to the left into a box starting where it ended', () => {
+    expect(getTextDraft({ ...text, x: 100, y: 100, width: -60, height: -30 })).toMatchObject({
+      x: 40,
+      y: 70,
+      width: 60,
+      height: undefined,
+      autoSize: false,
+    });
+  });
+
+  it('places auto-sizing text for a short drag', () => {
+    expect(getTextDraft({ ...text, x: 100, width: 5, height: 5 })).toMatchObject({ x: 100, width: undefined, autoSize: true });
+  });
+});
+
+describe('commitText', () => {
+  it('adds new text with its laid-out size, and nothing when it was left empty', () => {
+    const scene = createScene();
+    commitText(scene, { ...text, text: '   ' }, true);
+    expect(scene.getState().shapes).toHaveLength(0);
+
+    commitText(scene, { ...text, text: 'hello \n' }, true);
+    expect(scene.getState().shapes[0]).toMatchObject({ text: 'hello', width: 50 });
+  });
+
+  it('records an edit only when the text changed, and removes emptied text', () => {
+    const scene = createScene([text]);
+    commitText(scene, text, false);
+    expect(scene.getState().canUndo).toBe(false);
+
+    commitText(scene, { ...text, text: 'hello world' }, false);
+    expect(scene.getState().shapes[0].text).toBe('hello world');
+    commitText(scene, { ...text, text: '' }, false);
+    expect(scene.getState().shapes).toHaveLength(0);
+  });
+});
@@ -0,0 +1,53 @@
+// src/utils/textEditing.ts
+//
+// Text shapes are edited in an inline editor on a draft copy; these turn a draft into a change to
+// the scene once editing ends.
+import type { Shape } from '../types/Shapes';
+import type { Scene } from './scene';
+import { layoutText } from './text';
+
+// Drags shorter than this place auto-sizing text instead of a fixed-width box
+const MIN_TEXT_BOX_WIDTH = 20;
+
+// The draft for text dragged out as a box: normalized to a positive width, or auto-sizing from the
+// start point when the drag was too short to mean a box
+export const getTextDraft = (shape: Shape): Shape => {
+  const width = shape.width || 0;
+  const height = shape.height || 0;
+  const isBox = Math.abs(width) >= MIN_TEXT_BOX_WIDTH;
+  return {
+    ...shape,
+    x: isBox && width < 0 ? shape.x + width : shape.x,
+    y: isBox && height < 0 ? shape.y + height : shape.y,
+    width: isBox ? Math.abs(width) : undefined,
+    height: undefined,
+    autoSize: !isBox,
+  };
+};
+
+// Add, change or remove the text shape a draft was made for. Empty text removes it; an unchanged
+// draft leaves the scene (and its history) alone.
+export const commitText = (scene: Scene, draft: Shape, isNew: boolean) => {
+  // Store the laid-out size so hit-testing doesn't need to measure text
+  const text = (draft.text || '').replace(/\s+$/, '');
+  const layout = layoutText({ ...draft, text });
+  const committed: Shape = { ...draft, text, width: layout.width, height: layout.height };
+
+  if (isNew) {
+    if (text) scene.addShapes([committed], { select: false });
+    return;
+  }
+
+  // The text box may have grown or been removed; connectors bound to it follow either way
+  const original = scene.getState().shapes.find((shape) => shape.id === draft.id);
+  if (!text) {
+    scene.removeShapes([draft.id]);
+  } else if (
+    !original ||
+    original.text !== committed.text ||
+    original.fontSize !== committed.fontSize ||
+    original.textAlign !== committed.textAlign
+  ) {
+    scene.replaceShapes([committed]);
+  }
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_ZOOM,
+  anchorViewport,
+  fitViewport,
+  panViewport,
+  pinchViewport,
+  toScenePoint,
+  toScreenPoint,
+  zoomViewportAt,
+} from './viewport';
+
+const viewport = { offsetX: 100, offsetY: 50, zoom: 2 };
+
+describe('screen and scene points', () => {
+  it('converts both ways through the pan and zoom', () => {
+    expect(toScenePoint(viewport, { x: 300, y: 250 })).toEqual({ x: 100, y: 100 });
+    expect(toScreenPoint(viewport, { x: 100, y: 100 })).toEqual({ x: 300, y: 250 });
+  });
+});
+
+describe('zooming', () => {
+  it('keeps the content under the zoomed point in place', () => {
+    const zoomed = zoomViewportAt(viewport, 4, { x: 300, y: 250 });
+    expect(zoomed.zoom).toBe(4);
+    expect(toScenePoint(zoomed, { x: 300, y: 250 })).toEqual({ x: 100, y: 100 });
+  });
+
+  it('stays within the zoom limits', () => {
+    expect(anchorViewport(100, { x: 0, y: 0 }, { x: 0, y: 0 }).zoom).toBe(MAX_ZOOM);
+  });
+});
+
+describe('panning and pinching', () => {
+  it('moves the content with the pointer from where the pan started', () => {
+    const start = { x: 10, y: 10, offsetX: 100, offsetY: 50 };
+    expect(panViewport(viewport, start, { x: 40, y: 0 })).toEqual({ offsetX: 130, offsetY: 40, zoom: 2 });
+  });
+
+  it('zooms with the fingers, keeping the point between them under them as they move', () => {
+    const pinched = pinchViewport(viewport, { x: 300, y: 250, distance: 100 }, { x: 320, y: 260, distance: 200 });
+    expect(pinched.zoom).toBe(4);
+    expect(toScenePoint(pinched, { x: 320, y: 260 })).toEqual({ x: 100, y: 100 });
+  });
+});
+
+describe('fitViewport', () => {
+  it('centers the content as large as fits, without blowing small drawings up', () => {
+    const fitted = fitViewport({ minX: 0, minY: 0, maxX: 1000, maxY: 200 }, 1160, 800);
+    expect(fitted.zoom).toBe(1);
+    expect(toScreenPoint(fitted, { x: 500, y: 100 })).toEqual({ x: 580, y: 400 });
+    expect(fitViewport({ minX: 0, minY: 0, maxX: 10, maxY: 10 }, 1160, 800).zoom).toBe(2);
+  });
+
+  it('resets the view when there is nothing to fit', () => {
+    expect(fitViewport(null, 800, 600)).toEqual({ offsetX: 0, offsetY: 0, zoom: 1 });
+  });
+});
@@ -0,0 +1,82 @@
+// src/utils/viewport.ts
+//
+// Pan and zoom: converting points between the screen and the scene, and the viewports for zooming
+// around a point or fitting content on screen.
+import type { Bounds } from '../types/Shapes';
+import type { Viewport } from '../types/Viewport';
+
+type Point = { x: number; y: number };
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 10;
+export const ZOOM_STEP = 1.2;
+
+// Space kept around fitted content in screen pixels; small drawings aren't blown up past this zoom
+const FIT_PADDING = 80;
+const MAX_FIT_ZOOM = 2;
+
+export const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export const toScenePoint = (viewport: Viewport, screen: Point): Point => ({
+  x: (screen.x - viewport.offsetX) / viewport.zoom,
+  y: (screen.y - viewport.offsetY) / viewport.zoom,
+});
+
+export const toScreenPoint = (viewport: Viewport, point: Point): Point => ({
+  x: point.x * viewport.zoom + viewport.offsetX,
+  y: point.y * viewport.zoom + viewport.offsetY,
+});
+
+// The viewport at `zoom` (clamped) that shows the scene point at the given screen point
+export const anchorViewport = (zoom: number, point: Point, screen: Point): Viewport => {
+  const clamped = clampZoom(zoom);
+  return { zoom: clamped, offsetX: screen.x - point.x * clamped, offsetY: screen.y - point.y * clamped };
+};
+
+// Zoom so the content under a screen point stays in place
+export const zoomViewportAt = (viewport: Viewport, zoom: number, screen: Point): Viewport =>
+  anchorViewport(zoom, toScenePoint(viewport, screen), screen);
+
+// Center the bounds on a screen of the given size, as large as fits; null bounds (nothing to show)
+// reset the view
+export const fitViewport = (bounds: Bounds | null, width: number, height: number): Viewport => {
+  if (!bounds) return { offsetX: 0, offsetY: 0, zoom: 1 };
+  const contentWidth = Math.max(bounds.maxX - bounds.minX, 1);
+  const contentHeight = Math.max(bounds.maxY - bounds.minY, 1);
+  const zoom = Math.min(
+    clampZoom(Math.min((width - FIT_PADDING * 2) / contentWidth, (height - FIT_PADDING * 2) / contentHeight)),
+    MAX_FIT_ZOOM
+  );
+  return {
+    zoom,
+    offsetX: width / 2 - ((bounds.minX + bounds.maxX) / 2) * zoom,
+    offsetY: height / 2 - ((bounds.minY + bounds.maxY) / 2) * zoom,
+  };
+};
+
+// Where a pan started: the screen point pressed and the viewport offsets at the time
+export interface PanStart {
+  x: number;
+  y: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+// Pan so the content follows the pointer from where the pan started
+export const panViewport = (viewport: Viewport, start: PanStart, screen: Point): Viewport => ({
+  ...viewport,
+  offsetX: start.offsetX + screen.x - start.x,
+  offsetY: start.offsetY + screen.y - start.y,
+});
+
+// Two fingers on the screen: the screen point between them and how far apart they are
+export interface Pinch {
+  x: number;
+  y: number;
+  distance: number;
+}
+
+// Zoom by how far the fingers spread since the pinch started, keeping the scene point that was
+// between them between them
+export const pinchViewport = (start: Viewport, from: Pinch, to: Pinch): Viewport =>
+  anchorViewport(start.zoom * (to.distance / from.distance), toScenePoint(start, from), to);